@@ -0,0 +1,185 @@
+import { createHash, randomBytes } from 'crypto';
+import { NextFunction, Request, Response } from 'express';
+import { Pool } from 'pg';
+import { Logger } from 'pino';
+
+export const API_KEY_SCOPES = ['submit', 'read', 'export', 'admin'] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export interface AuthenticatedApiKey {
+  id: number;
+  name: string;
+  scopes: ApiKeyScope[];
+  monthlyScanQuota: number | null;
+}
+
+interface ApiKeyRow {
+  id: number;
+  name: string;
+  scopes: ApiKeyScope[];
+  monthly_scan_quota: number | null;
+}
+
+const API_KEY_PREFIX = 'ask_';
+
+// Reads the key from X-API-Key, falling back to an Authorization: Bearer header
+export function extractApiKey(req: Request): string | undefined {
+  const headerKey = req.header('x-api-key');
+  if (headerKey) return headerKey.trim();
+  const authorization = req.header('authorization');
+  if (authorization?.toLowerCase().startsWith('bearer ')) {
+    return authorization.slice(7).trim();
+  }
+  return undefined;
+}
+
+// Keys are 256-bit random values, so a fast unsalted digest is sufficient
+export function hashApiKey(apiKey: string): string {
+  return createHash('sha256').update(apiKey).digest('hex');
+}
+
+export function generateApiKey(): {
+  apiKey: string;
+  keyPrefix: string;
+  keyHash: string;
+} {
+  const apiKey = API_KEY_PREFIX + randomBytes(32).toString('base64url');
+  return {
+    apiKey,
+    keyPrefix: apiKey.slice(0, API_KEY_PREFIX.length + 8),
+    keyHash: hashApiKey(apiKey),
+  };
+}
+
+export function hasScope(
+  apiKey: AuthenticatedApiKey,
+  scope: ApiKeyScope,
+): boolean {
+  return apiKey.scopes.includes('admin') || apiKey.scopes.includes(scope);
+}
+
+// Returns the key attached by requireScope; only valid after that middleware has run
+export function getApiKey(res: Response): AuthenticatedApiKey {
+  return res.locals.apiKey as AuthenticatedApiKey;
+}
+
+/**
+ * Builds the `requireScope` middleware factory. The returned middleware
+ * answers 401 for a missing, unknown or revoked key and 403 when the key
+ * lacks the scope, otherwise it stores the key in `res.locals.apiKey`.
+ */
+export function createApiKeyAuth(pool: Pool, logger: Logger) {
+  return (scope: ApiKeyScope) =>
+    async (req: Request, res: Response, next: NextFunction) => {
+      const presentedKey = extractApiKey(req);
+      if (!presentedKey) {
+        return res.status(401).send({ message: 'API key is required' });
+      }
+
+      try {
+        const { rows } = await pool.query<ApiKeyRow>(
+          `UPDATE api_keys SET last_used_at = current_timestamp
+           WHERE key_hash = $1 AND revoked_at IS NULL
+           RETURNING id, name, scopes, monthly_scan_quota`,
+          [hashApiKey(presentedKey)],
+        );
+        if (rows.length === 0) {
+          logger.warn(
+            { path: req.path },
+            'Rejected invalid or revoked API key',
+          );
+          return res.status(401).send({ message: 'Invalid API key' });
+        }
+
+        const apiKey: AuthenticatedApiKey = {
+          id: rows[0].id,
+          name: rows[0].name,
+          scopes: rows[0].scopes,
+          monthlyScanQuota: rows[0].monthly_scan_quota,
+        };
+        if (!hasScope(apiKey, scope)) {
+          logger.warn(
+            { apiKeyId: apiKey.id, scope, path: req.path },
+            'API key is missing required scope',
+          );
+          return res
+            .status(403)
+            .send({ message: `API key lacks the '${scope}' scope` });
+        }
+
+        res.locals.apiKey = apiKey;
+        next();
+      } catch (error) {
+        logger.error(
+          {
+            error: error instanceof Error ? error.message : String(error),
+            stack: error instanceof Error ? error.stack : undefined,
+          },
+          'Error authenticating API key',
+        );
+        res
+          .status(500)
+          .send({ message: 'Internal server error while authenticating' });
+      }
+    };
+}
+
+/**
+ * Counts `count` scans against the key's quota for the current month.
+ * Resolves to the start of that month as YYYY-MM-DD, which releaseScanQuota
+ * needs to give the scans back, or to null without counting when they do not
+ * fit in what is left.
+ */
+export async function consumeScanQuota(
+  pool: Pool,
+  apiKey: AuthenticatedApiKey,
+  count = 1,
+): Promise<string | null> {
+  if (apiKey.monthlyScanQuota !== null && count > apiKey.monthlyScanQuota) {
+    return null;
+  }
+  const { rows } = await pool.query(
+    `INSERT INTO api_key_usage (api_key_id, period_start, scan_count)
+     VALUES ($1, date_trunc('month', current_timestamp)::date, $3)
+     ON CONFLICT (api_key_id, period_start)
+     DO UPDATE SET scan_count = api_key_usage.scan_count + $3
+     WHERE $2::integer IS NULL OR api_key_usage.scan_count + $3 <= $2::integer
+     RETURNING period_start::text AS period_start`,
+    [apiKey.id, apiKey.monthlyScanQuota, count],
+  );
+  return rows[0]?.period_start ?? null;
+}
+
+// Gives back scans counted by consumeScanQuota, in the month they were counted in
+export async function releaseScanQuota(
+  pool: Pool,
+  apiKey: AuthenticatedApiKey,
+  periodStart: string,
+  count = 1,
+): Promise<void> {
+  await pool.query(
+    `UPDATE api_key_usage SET scan_count = GREATEST(scan_count - $3, 0)
+     WHERE api_key_id = $1 AND period_start = $2::date`,
+    [apiKey.id, periodStart, count],
+  );
+}
+
+// Stores the hash of BOOTSTRAP_ADMIN_API_KEY so the first admin can create other keys
+export async function ensureBootstrapAdminKey(
+  pool: Pool,
+  bootstrapKey: string,
+  logger: Logger,
+): Promise<void> {
+  await pool.query(
+    `INSERT INTO api_keys (name, key_prefix, key_hash, scopes)
+     VALUES ('bootstrap-admin', $1, $2, $3)
+     ON CONFLICT (key_hash) DO NOTHING`,
+    [
+      bootstrapKey.slice(0, API_KEY_PREFIX.length + 8),
+      hashApiKey(bootstrapKey),
+      ['admin'],
+    ],
+  );
+  logger.info('Bootstrap admin API key ensured');
+}
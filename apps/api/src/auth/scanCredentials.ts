@@ -0,0 +1,28 @@
+import { Pool } from 'pg';
+import { ScanAuthInput } from '../validation/scanAuthSchema';
+
+// Names of the methods in use, safe to store and log in the clear
+export function describeScanAuthMethods(auth: ScanAuthInput): string[] {
+  return (['cookies', 'headers', 'basicAuth', 'login'] as const).filter(
+    (method) => auth[method] !== undefined,
+  );
+}
+
+// Records the encrypted credentials of a scan or site scan
+export async function storeScanCredentials(
+  pool: Pool,
+  owner: { jobId?: string; siteScanId?: string },
+  auth: ScanAuthInput,
+  encryptedAuth: string,
+): Promise<void> {
+  await pool.query(
+    `INSERT INTO scan_credentials (job_id, site_scan_id, encrypted_auth, auth_methods)
+     VALUES ($1, $2, $3, $4)`,
+    [
+      owner.jobId ?? null,
+      owner.siteScanId ?? null,
+      encryptedAuth,
+      describeScanAuthMethods(auth),
+    ],
+  );
+}
@@ -0,0 +1,74 @@
+import { Pool } from 'pg';
+import { Logger } from 'pino';
+import { BlobStore } from '@accessibility-scanner-backend/blob-store';
+
+/**
+ * Deletes scan_results rows together with their violations, viewport
+ * results, webhook deliveries, stored credentials and screenshots. The rows
+ * go first, in one transaction; a screenshot that then fails to delete is
+ * only logged, since nothing links to it any more. Returns how many
+ * screenshots were deleted.
+ */
+export async function deleteScanResults(
+  pool: Pool,
+  blobStore: BlobStore,
+  scans: { id: number; job_id: string | null }[],
+  logger: Logger,
+): Promise<number> {
+  const scanResultIds = scans.map((scan) => scan.id);
+  const jobIds = scans.flatMap((scan) => (scan.job_id ? [scan.job_id] : []));
+
+  const client = await pool.connect();
+  let keys: string[];
+  try {
+    await client.query('BEGIN');
+    const { rows } = await client.query(
+      `SELECT screenshot_key AS key FROM scan_results
+       WHERE id = ANY($1::integer[]) AND screenshot_key IS NOT NULL
+       UNION
+       SELECT screenshot_key FROM scan_viewport_results
+       WHERE scan_result_id = ANY($1::integer[]) AND screenshot_key IS NOT NULL
+       UNION
+       SELECT element_screenshot_key FROM scan_violation_nodes
+       WHERE scan_result_id = ANY($1::integer[]) AND element_screenshot_key IS NOT NULL
+       UNION
+       SELECT pdf_key FROM scan_report_pdfs
+       WHERE scan_result_id = ANY($1::integer[])`,
+      [scanResultIds],
+    );
+    keys = rows.map((row) => row.key);
+    await client.query(
+      'DELETE FROM webhook_deliveries WHERE job_id = ANY($1::varchar[])',
+      [jobIds],
+    );
+    await client.query(
+      'DELETE FROM scan_credentials WHERE job_id = ANY($1::varchar[])',
+      [jobIds],
+    );
+    // Violations, nodes, viewport results and cached PDF reports cascade
+    await client.query(
+      'DELETE FROM scan_results WHERE id = ANY($1::integer[])',
+      [scanResultIds],
+    );
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  let deleted = 0;
+  for (const key of keys) {
+    try {
+      await blobStore.delete(key);
+      deleted += 1;
+    } catch (error) {
+      logger.warn(
+        { key, error: error instanceof Error ? error.message : String(error) },
+        'Failed to delete screenshot of deleted scan',
+      );
+    }
+  }
+  return deleted;
+}
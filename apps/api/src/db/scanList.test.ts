@@ -0,0 +1,173 @@
+import { Pool } from 'pg';
+import { scanListQuerySchema } from '../validation/scanListSchema';
+import { decodeScanListCursor, listScans } from './scanList';
+
+const byTimestamp = scanListQuerySchema.parse({});
+const byScore = scanListQuerySchema.parse({ sort: 'score', order: 'asc' });
+
+function encode(cursor: unknown): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+describe('decodeScanListCursor', () => {
+  it('accepts cursors issued for the same sort', () => {
+    const cursor = {
+      sort: 'scanTimestamp',
+      order: 'desc',
+      value: '2024-05-01 12:00:00.123456+00',
+      id: 42,
+    };
+    expect(decodeScanListCursor(encode(cursor), byTimestamp)).toEqual(cursor);
+    expect(
+      decodeScanListCursor(
+        encode({ sort: 'score', order: 'asc', value: '-1', id: 7 }),
+        byScore,
+      ),
+    ).toEqual({ sort: 'score', order: 'asc', value: '-1', id: 7 });
+  });
+
+  it('accepts timestamps in other time zones', () => {
+    for (const value of [
+      '2024-02-29 23:59:59+05:30',
+      '2024-05-01 12:00:00-07',
+      '2024-05-01 12:00:00.5+00',
+    ]) {
+      expect(
+        decodeScanListCursor(
+          encode({ sort: 'scanTimestamp', order: 'desc', value, id: 1 }),
+          byTimestamp,
+        ),
+      ).not.toBeNull();
+    }
+  });
+
+  it('rejects cursors that are not base64 JSON', () => {
+    expect(decodeScanListCursor('not a cursor', byTimestamp)).toBeNull();
+    expect(decodeScanListCursor(encode('text'), byTimestamp)).toBeNull();
+    expect(decodeScanListCursor(encode(null), byTimestamp)).toBeNull();
+  });
+
+  it('rejects cursors issued for another sort or order', () => {
+    const cursor = { sort: 'score', order: 'desc', value: '80', id: 1 };
+    expect(decodeScanListCursor(encode(cursor), byTimestamp)).toBeNull();
+    expect(decodeScanListCursor(encode(cursor), byScore)).toBeNull();
+  });
+
+  it.each([
+    ['a missing value', { id: 1 }],
+    ['text', { value: 'abc', id: 1 }],
+    ['a date only', { value: '2024-05-01', id: 1 }],
+    ['an impossible date', { value: '2024-02-30 12:00:00+00', id: 1 }],
+    ['an impossible time', { value: '2024-05-01 24:00:00+00', id: 1 }],
+    ['an ISO timestamp with Z', { value: '2024-05-01T12:00:00Z', id: 1 }],
+    ['a fractional id', { value: '2024-05-01 12:00:00+00', id: 1.5 }],
+    [
+      'an id beyond integer range',
+      { value: '2024-05-01 12:00:00+00', id: 1e12 },
+    ],
+  ])('rejects a timestamp cursor with %s', (_, fields) => {
+    expect(
+      decodeScanListCursor(
+        encode({ sort: 'scanTimestamp', order: 'desc', ...fields }),
+        byTimestamp,
+      ),
+    ).toBeNull();
+  });
+
+  it.each([
+    ['abc'],
+    ['1.5'],
+    [''],
+    ['99999999999'],
+    ['2024-05-01 12:00:00+00'],
+  ])('rejects the score cursor value %j', (value) => {
+    expect(
+      decodeScanListCursor(
+        encode({ sort: 'score', order: 'asc', value, id: 1 }),
+        byScore,
+      ),
+    ).toBeNull();
+  });
+});
+
+describe('listScans', () => {
+  const row = (id: number, timestamp: string) => ({
+    id,
+    job_id: `job-${id}`,
+    site_scan_id: null,
+    submitted_url: 'https://example.com',
+    actual_url: 'https://example.com/',
+    page_title: 'Example',
+    scan_timestamp: new Date(timestamp),
+    scan_success: true,
+    error_message: null,
+    domain: 'example.com',
+    score: 90,
+    health_level: 'Good Shape',
+    critical_count: 0,
+    serious_count: 0,
+    moderate_count: 1,
+    minor_count: 2,
+    violation_count: 3,
+    needs_review_count: 0,
+    scoring_model_version: 1,
+    sort_value: `${timestamp.replace('T', ' ').replace('Z', '')}+00`,
+  });
+
+  it('returns a next cursor that the decoder accepts', async () => {
+    const query = jest.fn().mockResolvedValue({
+      rows: [row(3, '2024-05-03T08:00:00Z'), row(2, '2024-05-02T08:00:00Z')],
+    });
+    const page = await listScans(
+      { query } as unknown as Pool,
+      { ...byTimestamp, limit: 1 },
+      null,
+      { isAdmin: false, apiKeyId: 5 },
+    );
+    expect(page.scans).toHaveLength(1);
+    expect(page.scans[0]).toMatchObject({
+      jobId: 'job-3',
+      score: 90,
+      violationCounts: {
+        critical: 0,
+        serious: 0,
+        moderate: 1,
+        minor: 2,
+        total: 3,
+      },
+    });
+    const cursor = decodeScanListCursor(page.nextCursor!, byTimestamp);
+    expect(cursor).toEqual({
+      sort: 'scanTimestamp',
+      order: 'desc',
+      value: '2024-05-03 08:00:00+00',
+      id: 3,
+    });
+
+    await listScans({ query } as unknown as Pool, byTimestamp, cursor, {
+      isAdmin: false,
+      apiKeyId: 5,
+    });
+    const [sql, params] = query.mock.calls[1];
+    expect(sql).toContain(
+      '(sr.scan_timestamp, sr.id) < ($11::timestamptz, $12::integer)',
+    );
+    expect(params.slice(10, 12)).toEqual(['2024-05-03 08:00:00+00', 3]);
+  });
+
+  it('has no next cursor on the last page', async () => {
+    const query = jest.fn().mockResolvedValue({
+      rows: [row(1, '2024-05-01T08:00:00Z')],
+    });
+    const page = await listScans(
+      { query } as unknown as Pool,
+      byTimestamp,
+      null,
+      {
+        isAdmin: true,
+        apiKeyId: 1,
+      },
+    );
+    expect(page.nextCursor).toBeNull();
+  });
+});
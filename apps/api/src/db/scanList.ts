@@ -0,0 +1,203 @@
+import { Pool } from 'pg';
+import { HealthLevel } from '@accessibility-scanner-backend/scoring';
+import { ScanListQuery } from '../validation/scanListSchema';
+import { readStoredScore, STORED_SCORE_COLUMNS } from './storedScores';
+
+// Host of the normalized URL; the index on it uses the same expression
+const DOMAIN_EXPRESSION = `substring(sr.normalized_url from '^https?://([^/:?#]+)')`;
+
+// Failed scans, and older ones not yet recomputed, sort as if they scored -1
+const SORT_EXPRESSIONS = {
+  scanTimestamp: { expression: 'sr.scan_timestamp', type: 'timestamptz' },
+  score: { expression: 'COALESCE(sr.score, -1)', type: 'integer' },
+} as const;
+
+export interface ScanListCursor {
+  sort: ScanListQuery['sort'];
+  order: ScanListQuery['order'];
+  value: string;
+  id: number;
+}
+
+function encodeCursor(cursor: ScanListCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+const MAX_INTEGER = 2147483647;
+
+function isIntegerText(value: string): boolean {
+  return /^-?\d{1,10}$/.test(value) && Math.abs(Number(value)) <= MAX_INTEGER;
+}
+
+// A timestamptz as PostgreSQL prints it, e.g. 2024-05-01 12:00:00.123456+00
+const TIMESTAMP_TEXT =
+  /^(\d{4})-(\d{2})-(\d{2}) (\d{2}):(\d{2}):(\d{2})(\.\d{1,6})?[+-](\d{2})(:\d{2}(:\d{2})?)?$/;
+
+function isTimestampText(value: string): boolean {
+  const match = TIMESTAMP_TEXT.exec(value);
+  if (!match) return false;
+  const [year, month, day, hour, minute, second, offsetHours] = [
+    match[1],
+    match[2],
+    match[3],
+    match[4],
+    match[5],
+    match[6],
+    match[8],
+  ].map(Number);
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  return (
+    month >= 1 &&
+    month <= 12 &&
+    day >= 1 &&
+    day <= daysInMonth &&
+    hour < 24 &&
+    minute < 60 &&
+    second < 60 &&
+    offsetHours <= 15
+  );
+}
+
+const CURSOR_VALUE_CHECKS: Record<
+  ScanListQuery['sort'],
+  (value: string) => boolean
+> = {
+  scanTimestamp: isTimestampText,
+  score: isIntegerText,
+};
+
+// Returns null for a malformed cursor or one issued for another sort order
+export function decodeScanListCursor(
+  raw: string,
+  query: ScanListQuery,
+): ScanListCursor | null {
+  let cursor: ScanListCursor;
+  try {
+    cursor = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+  if (
+    typeof cursor?.value !== 'string' ||
+    !Number.isInteger(cursor.id) ||
+    Math.abs(cursor.id) > MAX_INTEGER ||
+    cursor.sort !== query.sort ||
+    cursor.order !== query.order ||
+    // The value is cast to the sort column's type, so it must parse as one
+    !CURSOR_VALUE_CHECKS[query.sort](cursor.value)
+  ) {
+    return null;
+  }
+  return cursor;
+}
+
+export interface ScanSummary {
+  jobId: string;
+  siteScanId: string | null;
+  submittedUrl: string;
+  actualUrl: string | null;
+  domain: string | null;
+  pageTitle: string | null;
+  scanTimestamp: Date;
+  scanSuccess: boolean;
+  score: number | null;
+  healthLevel: HealthLevel | null;
+  violationCounts: {
+    critical: number;
+    serious: number;
+    moderate: number;
+    minor: number;
+    total: number;
+  } | null;
+  needsReviewCount: number | null;
+  errorMessage: string | null;
+}
+
+/**
+ * One page of compact scan summaries, newest first by default. Scores,
+ * counts and health levels are the ones the worker stored with each scan,
+ * so they stay NULL for scans saved before that until the recompute
+ * command has run. `cursor` is the decoded nextCursor of the previous page.
+ */
+export async function listScans(
+  pool: Pool,
+  query: ScanListQuery,
+  cursor: ScanListCursor | null,
+  owner: { isAdmin: boolean; apiKeyId: number },
+): Promise<{ scans: ScanSummary[]; nextCursor: string | null }> {
+  const sort = SORT_EXPRESSIONS[query.sort];
+  const direction = query.order === 'asc' ? 'ASC' : 'DESC';
+  const comparison = query.order === 'asc' ? '>' : '<';
+
+  const { rows } = await pool.query(
+    `SELECT sr.id, sr.job_id, sr.site_scan_id, sr.submitted_url, sr.actual_url, sr.page_title,
+       sr.scan_timestamp, sr.scan_success, sr.error_message,
+       ${DOMAIN_EXPRESSION} AS domain,
+       ${STORED_SCORE_COLUMNS},
+       (${sort.expression})::text AS sort_value
+     FROM scan_results sr
+     WHERE ($1::boolean OR sr.api_key_id = $2)
+       AND ($3::text IS NULL OR ${DOMAIN_EXPRESSION} = $3)
+       AND ($4::boolean IS NULL OR sr.scan_success = $4)
+       AND ($5::timestamptz IS NULL OR sr.scan_timestamp >= $5)
+       AND ($6::timestamptz IS NULL OR sr.scan_timestamp <= $6)
+       AND ($7::text IS NULL OR EXISTS (
+         SELECT 1 FROM scan_violations rv
+         WHERE rv.scan_result_id = sr.id AND rv.rule_id = $7 AND rv.result_type = 'violations'
+       ))
+       AND ($8::integer IS NULL OR sr.score >= $8)
+       AND ($9::integer IS NULL OR sr.score <= $9)
+       AND ($10::text IS NULL OR sr.health_level = $10)
+       AND ($11::text IS NULL OR (${sort.expression}, sr.id) ${comparison} ($11::${sort.type}, $12::integer))
+     ORDER BY ${sort.expression} ${direction}, sr.id ${direction}
+     LIMIT $13`,
+    [
+      owner.isAdmin,
+      owner.apiKeyId,
+      query.domain ?? null,
+      query.status ? query.status === 'success' : null,
+      query.from ?? null,
+      query.to ?? null,
+      query.ruleId ?? null,
+      query.minScore ?? null,
+      query.maxScore ?? null,
+      query.healthLevel ?? null,
+      cursor?.value ?? null,
+      cursor?.id ?? null,
+      query.limit + 1,
+    ],
+  );
+
+  const page = rows.slice(0, query.limit);
+  const last = page[page.length - 1];
+  return {
+    scans: page.map((row) => {
+      const { score, healthLevel, violationCounts, needsReviewCount } =
+        readStoredScore(row);
+      return {
+        jobId: row.job_id,
+        siteScanId: row.site_scan_id,
+        submittedUrl: row.submitted_url,
+        actualUrl: row.actual_url,
+        domain: row.domain,
+        pageTitle: row.page_title,
+        scanTimestamp: row.scan_timestamp,
+        scanSuccess: row.scan_success,
+        score,
+        healthLevel,
+        violationCounts,
+        needsReviewCount,
+        errorMessage: row.error_message,
+      };
+    }),
+    nextCursor:
+      rows.length > query.limit && last
+        ? encodeCursor({
+            sort: query.sort,
+            order: query.order,
+            value: last.sort_value,
+            id: last.id,
+          })
+        : null,
+  };
+}
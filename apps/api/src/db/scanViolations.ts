@@ -0,0 +1,89 @@
+import { Pool } from 'pg';
+import { AxeCheck, AxeNode, AxeResultType, AxeViolation } from '../types/axe';
+
+type Impact = AxeViolation['impact'];
+
+export type ScanRuleResults = Partial<Record<AxeResultType, AxeViolation[]>>;
+
+/**
+ * Rebuilds the requested axe result lists of each scan from
+ * scan_violations and scan_violation_nodes, in the order axe reported
+ * them. Scans without normalized rows are left out of the map, so callers
+ * can fall back to the legacy violations column.
+ */
+export async function loadScanRuleResults(
+  pool: Pool,
+  scanResultIds: number[],
+  resultTypes: AxeResultType[] = ['violations'],
+): Promise<Map<number, ScanRuleResults>> {
+  const resultsByScan = new Map<number, ScanRuleResults>();
+  if (scanResultIds.length === 0 || resultTypes.length === 0) {
+    return resultsByScan;
+  }
+
+  const [{ rows: violationRows }, { rows: nodeRows }] = await Promise.all([
+    pool.query(
+      `SELECT id, scan_result_id, result_type, rule_id, impact, description, help, help_url, tags, viewports, viewport_specific
+       FROM scan_violations
+       WHERE scan_result_id = ANY($1::integer[]) AND result_type = ANY($2::varchar[])
+       ORDER BY scan_result_id, result_type, position`,
+      [scanResultIds, resultTypes],
+    ),
+    pool.query(
+      `SELECT violation_id, impact, target, html, failure_summary, checks, viewports, viewport_specific, bounding_box, element_screenshot_key
+       FROM scan_violation_nodes
+       WHERE scan_result_id = ANY($1::integer[]) AND result_type = ANY($2::varchar[])
+       ORDER BY violation_id, position`,
+      [scanResultIds, resultTypes],
+    ),
+  ]);
+
+  const nodesByViolation = new Map<number, AxeNode[]>();
+  nodeRows.forEach((row) => {
+    const checks = (row.checks ?? {}) as Record<string, AxeCheck[]>;
+    const node: AxeNode = {
+      any: checks.any ?? [],
+      all: checks.all ?? [],
+      none: checks.none ?? [],
+      impact: (row.impact ?? undefined) as Impact,
+      html: row.html ?? '',
+      target: row.target,
+      failureSummary: row.failure_summary ?? undefined,
+    };
+    // Only multi-viewport scans record which viewports a node failed at
+    if (row.viewports) {
+      node.viewports = row.viewports;
+      node.viewportSpecific = row.viewport_specific;
+    }
+    if (row.bounding_box) node.boundingBox = row.bounding_box;
+    if (row.element_screenshot_key) {
+      node.elementScreenshotKey = row.element_screenshot_key;
+    }
+    const nodes = nodesByViolation.get(row.violation_id) ?? [];
+    nodes.push(node);
+    nodesByViolation.set(row.violation_id, nodes);
+  });
+
+  violationRows.forEach((row) => {
+    const violation: AxeViolation = {
+      id: row.rule_id,
+      impact: (row.impact ?? undefined) as Impact,
+      tags: row.tags,
+      description: row.description ?? '',
+      help: row.help ?? '',
+      helpUrl: row.help_url ?? '',
+      nodes: nodesByViolation.get(row.id) ?? [],
+    };
+    if (row.viewports) {
+      violation.viewports = row.viewports;
+      violation.viewportSpecific = row.viewport_specific;
+    }
+    const results = resultsByScan.get(row.scan_result_id) ?? {};
+    const list = results[row.result_type as AxeResultType] ?? [];
+    list.push(violation);
+    results[row.result_type as AxeResultType] = list;
+    resultsByScan.set(row.scan_result_id, results);
+  });
+
+  return resultsByScan;
+}
@@ -0,0 +1,52 @@
+import {
+  HealthLevel,
+  ViolationCounts,
+} from '@accessibility-scanner-backend/scoring';
+
+// The scan_results columns the worker stores a scan's score in
+export const STORED_SCORE_COLUMNS =
+  'score, health_level, critical_count, serious_count, moderate_count, minor_count, violation_count, needs_review_count, scoring_model_version';
+
+export interface StoredScoreRow {
+  score: number | null;
+  health_level: HealthLevel | null;
+  critical_count: number | null;
+  serious_count: number | null;
+  moderate_count: number | null;
+  minor_count: number | null;
+  violation_count: number | null;
+  needs_review_count: number | null;
+  scoring_model_version: number | null;
+}
+
+export interface StoredScore {
+  score: number | null;
+  healthLevel: HealthLevel | null;
+  violationCounts: ViolationCounts | null;
+  needsReviewCount: number | null;
+  scoringModelVersion: number | null;
+}
+
+/**
+ * A scan's score as the worker stored it. Everything is null for failed
+ * scans, and for older ones until the recompute command has run; callers
+ * never rescore, so every endpoint reports the same model's numbers.
+ */
+export function readStoredScore(row: Partial<StoredScoreRow>): StoredScore {
+  return {
+    score: row.score ?? null,
+    healthLevel: row.health_level ?? null,
+    violationCounts:
+      row.violation_count === null || row.violation_count === undefined
+        ? null
+        : {
+            critical: row.critical_count ?? 0,
+            serious: row.serious_count ?? 0,
+            moderate: row.moderate_count ?? 0,
+            minor: row.minor_count ?? 0,
+            total: row.violation_count,
+          },
+    needsReviewCount: row.needs_review_count ?? null,
+    scoringModelVersion: row.scoring_model_version ?? null,
+  };
+}
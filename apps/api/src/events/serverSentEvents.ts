@@ -0,0 +1,56 @@
+import { Request, Response } from 'express';
+
+export interface EventStream {
+  send: (event: string, data: unknown) => void;
+  close: () => void;
+  onClose: (listener: () => void) => void;
+}
+
+/**
+ * Switches the response to a `text/event-stream`. A comment line is sent
+ * every `heartbeatMs` so proxies do not time out idle streams. Close
+ * listeners run once, whether the server or the client ends the stream.
+ */
+export function openEventStream(
+  req: Request,
+  res: Response,
+  heartbeatMs = 15000,
+): EventStream {
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  // Stops nginx-style proxies from buffering the stream
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  const closeListeners: (() => void)[] = [];
+  let closed = false;
+
+  const heartbeat = setInterval(() => {
+    res.write(': keep-alive\n\n');
+  }, heartbeatMs);
+
+  const finish = () => {
+    if (closed) return;
+    closed = true;
+    clearInterval(heartbeat);
+    closeListeners.forEach((listener) => listener());
+  };
+  req.on('close', finish);
+
+  return {
+    send: (event, data) => {
+      if (closed) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    close: () => {
+      if (closed) return;
+      finish();
+      res.end();
+    },
+    onClose: (listener) => {
+      closeListeners.push(listener);
+    },
+  };
+}
@@ -0,0 +1,147 @@
+import { AxeNode, AxeViolation } from '../types/axe';
+import { diffScanViolations, fingerprintNode } from './scanDiff';
+
+function node(target: string, html = `<img src="${target}.png">`): AxeNode {
+  return { target: [target], html };
+}
+
+function rule(id: string, nodes: AxeNode[]): AxeViolation {
+  return { id, description: id, help: id, helpUrl: '', nodes };
+}
+
+const targets = (violations: { id: string; nodes: AxeNode[] }[]) =>
+  violations.map(({ id, nodes }) => [
+    id,
+    nodes.map((entry) => entry.target[0]),
+  ]);
+
+describe('fingerprintNode', () => {
+  it('identifies a node by its selector and HTML', () => {
+    const fingerprint = fingerprintNode(node('#logo'));
+    expect(fingerprint).toMatch(/^[0-9a-f]{16}$/);
+    expect(fingerprintNode(node('#logo', '<img src="other.png">'))).not.toBe(
+      fingerprint,
+    );
+    expect(fingerprintNode(node('#hero', '<img src="#logo.png">'))).not.toBe(
+      fingerprint,
+    );
+  });
+
+  it('ignores whitespace differences and everything but target and HTML', () => {
+    expect(
+      fingerprintNode({
+        target: ['nav'],
+        html: '<nav>\n  <a href="/">Home</a>\n</nav>',
+        failureSummary: 'Fix this',
+        impact: 'serious',
+      }),
+    ).toBe(
+      fingerprintNode({
+        target: ['nav'],
+        html: '<nav><a href="/">Home</a></nav>',
+      }),
+    );
+  });
+});
+
+describe('diffScanViolations', () => {
+  it('finds nothing new or fixed between identical scans', () => {
+    const scan = [
+      rule('image-alt', [node('#a'), node('#b')]),
+      rule('label', [node('#c')]),
+    ];
+    const diff = diffScanViolations(scan, structuredClone(scan));
+    expect(diff.newViolations).toEqual([]);
+    expect(diff.fixedViolations).toEqual([]);
+    expect(targets(diff.unchangedViolations)).toEqual([
+      ['image-alt', ['#a', '#b']],
+      ['label', ['#c']],
+    ]);
+    expect(diff.summary).toEqual({
+      newNodes: 0,
+      fixedNodes: 0,
+      unchangedNodes: 3,
+    });
+  });
+
+  it('reports everything as new against an empty previous scan', () => {
+    const diff = diffScanViolations([], [rule('image-alt', [node('#a')])]);
+    expect(targets(diff.newViolations)).toEqual([['image-alt', ['#a']]]);
+    expect(diff.newViolations[0].nodes[0].fingerprint).toBe(
+      fingerprintNode(node('#a')),
+    );
+    expect(diff.summary).toEqual({
+      newNodes: 1,
+      fixedNodes: 0,
+      unchangedNodes: 0,
+    });
+  });
+
+  it('reports everything as fixed when the latest scan is clean', () => {
+    const diff = diffScanViolations([rule('image-alt', [node('#a')])], []);
+    expect(targets(diff.fixedViolations)).toEqual([['image-alt', ['#a']]]);
+    expect(diff.summary).toEqual({
+      newNodes: 0,
+      fixedNodes: 1,
+      unchangedNodes: 0,
+    });
+  });
+
+  it('treats a node that moved to another rule as fixed and new', () => {
+    const diff = diffScanViolations(
+      [rule('color-contrast', [node('#a')])],
+      [rule('link-name', [node('#a')])],
+    );
+    expect(targets(diff.fixedViolations)).toEqual([['color-contrast', ['#a']]]);
+    expect(targets(diff.newViolations)).toEqual([['link-name', ['#a']]]);
+    expect(diff.unchangedViolations).toEqual([]);
+  });
+
+  it('splits a rule into its new, fixed and unchanged nodes', () => {
+    const diff = diffScanViolations(
+      [rule('image-alt', [node('#a'), node('#b')])],
+      [rule('image-alt', [node('#b'), node('#c')])],
+    );
+    expect(targets(diff.newViolations)).toEqual([['image-alt', ['#c']]]);
+    expect(targets(diff.fixedViolations)).toEqual([['image-alt', ['#a']]]);
+    expect(targets(diff.unchangedViolations)).toEqual([['image-alt', ['#b']]]);
+  });
+
+  it('matches by target and HTML, not by selector alone', () => {
+    const diff = diffScanViolations(
+      [rule('image-alt', [node('#a', '<img src="old.png">')])],
+      [rule('image-alt', [node('#a', '<img src="new.png">')])],
+    );
+    expect(diff.summary).toEqual({
+      newNodes: 1,
+      fixedNodes: 1,
+      unchangedNodes: 0,
+    });
+  });
+
+  it('counts duplicate fingerprints one for one', () => {
+    const diff = diffScanViolations(
+      [rule('image-alt', [node('li img')])],
+      [rule('image-alt', [node('li img'), node('li img')])],
+    );
+    expect(diff.summary).toEqual({
+      newNodes: 1,
+      fixedNodes: 0,
+      unchangedNodes: 1,
+    });
+  });
+
+  it('keeps the head scan details for unchanged nodes and the base ones for fixed nodes', () => {
+    const diff = diffScanViolations(
+      [
+        rule('image-alt', [
+          { ...node('#a'), failureSummary: 'before' },
+          { ...node('#b'), failureSummary: 'gone' },
+        ]),
+      ],
+      [rule('image-alt', [{ ...node('#a'), failureSummary: 'after' }])],
+    );
+    expect(diff.unchangedViolations[0].nodes[0].failureSummary).toBe('after');
+    expect(diff.fixedViolations[0].nodes[0].failureSummary).toBe('gone');
+  });
+});
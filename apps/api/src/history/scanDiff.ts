@@ -0,0 +1,100 @@
+import { createHash } from 'crypto';
+import { AxeNode, AxeViolation } from '../types/axe';
+
+export type ScanDiffNode = AxeNode & { fingerprint: string };
+
+export type ScanDiffViolation = Omit<AxeViolation, 'nodes'> & {
+  nodes: ScanDiffNode[];
+};
+
+export interface ScanDiff {
+  newViolations: ScanDiffViolation[];
+  fixedViolations: ScanDiffViolation[];
+  unchangedViolations: ScanDiffViolation[];
+  summary: { newNodes: number; fixedNodes: number; unchangedNodes: number };
+}
+
+// Whitespace differences between two renders of the same element are not changes
+function normalizeNodeHtml(html: string | undefined): string {
+  return (html || '').replace(/>\s+</g, '><').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Identifies an element across scans by its selector path and HTML. Nodes
+ * of two scans match when both the rule ID and this fingerprint are equal.
+ */
+export function fingerprintNode(node: AxeNode): string {
+  return createHash('sha256')
+    .update(JSON.stringify(node.target ?? []))
+    .update('\n')
+    .update(normalizeNodeHtml(node.html))
+    .digest('hex')
+    .slice(0, 16);
+}
+
+function countKeys(violations: AxeViolation[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  violations.forEach((violation) =>
+    (violation.nodes || []).forEach((node) => {
+      const key = `${violation.id}:${fingerprintNode(node)}`;
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }),
+  );
+  return counts;
+}
+
+// Splits each violation's nodes by whether the other scan has a matching node; counts handle duplicate fingerprints
+function partitionNodes(
+  violations: AxeViolation[],
+  otherCounts: Map<string, number>,
+): { matched: ScanDiffViolation[]; unmatched: ScanDiffViolation[] } {
+  const matched: ScanDiffViolation[] = [];
+  const unmatched: ScanDiffViolation[] = [];
+  violations.forEach(({ nodes, ...violation }) => {
+    const matchedNodes: ScanDiffNode[] = [];
+    const unmatchedNodes: ScanDiffNode[] = [];
+    (nodes || []).forEach((node) => {
+      const fingerprint = fingerprintNode(node);
+      const key = `${violation.id}:${fingerprint}`;
+      const remaining = otherCounts.get(key) ?? 0;
+      if (remaining > 0) {
+        otherCounts.set(key, remaining - 1);
+        matchedNodes.push({ ...node, fingerprint });
+      } else {
+        unmatchedNodes.push({ ...node, fingerprint });
+      }
+    });
+    if (matchedNodes.length > 0) {
+      matched.push({ ...violation, nodes: matchedNodes });
+    }
+    if (unmatchedNodes.length > 0) {
+      unmatched.push({ ...violation, nodes: unmatchedNodes });
+    }
+  });
+  return { matched, unmatched };
+}
+
+const countNodes = (violations: ScanDiffViolation[]) =>
+  violations.reduce((sum, violation) => sum + violation.nodes.length, 0);
+
+/**
+ * Compares the violations of two scans of a page. New and unchanged nodes
+ * carry the head scan's details, fixed nodes the base scan's.
+ */
+export function diffScanViolations(
+  base: AxeViolation[],
+  head: AxeViolation[],
+): ScanDiff {
+  const fromHead = partitionNodes(head, countKeys(base));
+  const fromBase = partitionNodes(base, countKeys(head));
+  return {
+    newViolations: fromHead.unmatched,
+    fixedViolations: fromBase.unmatched,
+    unchangedViolations: fromHead.matched,
+    summary: {
+      newNodes: countNodes(fromHead.unmatched),
+      fixedNodes: countNodes(fromBase.unmatched),
+      unchangedNodes: countNodes(fromHead.matched),
+    },
+  };
+}
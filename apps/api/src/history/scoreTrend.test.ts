@@ -0,0 +1,61 @@
+import { summarizeScoreTrend } from './scoreTrend';
+
+describe('summarizeScoreTrend', () => {
+  it('has no trend without scored scans', () => {
+    expect(summarizeScoreTrend([])).toEqual({
+      scanCount: 0,
+      scoredScanCount: 0,
+      firstScore: null,
+      latestScore: null,
+      change: null,
+      minScore: null,
+      maxScore: null,
+      averageScore: null,
+      direction: 'insufficient-data',
+    });
+    expect(summarizeScoreTrend([null, null])).toMatchObject({
+      scanCount: 2,
+      scoredScanCount: 0,
+      direction: 'insufficient-data',
+    });
+  });
+
+  it('needs two scored scans for a direction', () => {
+    expect(summarizeScoreTrend([null, 80, null])).toEqual({
+      scanCount: 3,
+      scoredScanCount: 1,
+      firstScore: 80,
+      latestScore: 80,
+      change: 0,
+      minScore: 80,
+      maxScore: 80,
+      averageScore: 80,
+      direction: 'insufficient-data',
+    });
+  });
+
+  it('skips failed scans between scored ones', () => {
+    expect(summarizeScoreTrend([60, null, 75, null, 90, null])).toEqual({
+      scanCount: 6,
+      scoredScanCount: 3,
+      firstScore: 60,
+      latestScore: 90,
+      change: 30,
+      minScore: 60,
+      maxScore: 90,
+      averageScore: 75,
+      direction: 'improving',
+    });
+  });
+
+  it('compares the first and latest scores', () => {
+    expect(summarizeScoreTrend([90, 50, 85]).direction).toBe('declining');
+    expect(summarizeScoreTrend([70, 100, 70]).direction).toBe('stable');
+    expect(summarizeScoreTrend([0, 1]).direction).toBe('improving');
+  });
+
+  it('rounds the average', () => {
+    expect(summarizeScoreTrend([70, 71]).averageScore).toBe(71);
+    expect(summarizeScoreTrend([70, 70, 71]).averageScore).toBe(70);
+  });
+});
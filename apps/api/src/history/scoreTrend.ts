@@ -0,0 +1,58 @@
+export interface ScoreTrend {
+  scanCount: number;
+  scoredScanCount: number;
+  firstScore: number | null;
+  latestScore: number | null;
+  change: number | null;
+  minScore: number | null;
+  maxScore: number | null;
+  averageScore: number | null;
+  direction: 'improving' | 'declining' | 'stable' | 'insufficient-data';
+}
+
+/**
+ * Summarizes the scores of a page's scans, oldest first. Failed scans have
+ * no score; they count towards `scanCount` but not the trend. The
+ * direction compares the first and latest scores, so it needs two scored
+ * scans.
+ */
+export function summarizeScoreTrend(scores: (number | null)[]): ScoreTrend {
+  const scored = scores.filter((score): score is number => score !== null);
+  if (scored.length === 0) {
+    return {
+      scanCount: scores.length,
+      scoredScanCount: 0,
+      firstScore: null,
+      latestScore: null,
+      change: null,
+      minScore: null,
+      maxScore: null,
+      averageScore: null,
+      direction: 'insufficient-data',
+    };
+  }
+
+  const firstScore = scored[0];
+  const latestScore = scored[scored.length - 1];
+  const change = latestScore - firstScore;
+  return {
+    scanCount: scores.length,
+    scoredScanCount: scored.length,
+    firstScore,
+    latestScore,
+    change,
+    minScore: Math.min(...scored),
+    maxScore: Math.max(...scored),
+    averageScore: Math.round(
+      scored.reduce((sum, score) => sum + score, 0) / scored.length,
+    ),
+    direction:
+      scored.length < 2
+        ? 'insufficient-data'
+        : change > 0
+          ? 'improving'
+          : change < 0
+            ? 'declining'
+            : 'stable',
+  };
+}
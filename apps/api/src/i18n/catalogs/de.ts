@@ -0,0 +1,119 @@
+import { ReportMessages } from '../reportMessages';
+
+export const de: ReportMessages = {
+  title: 'Bericht zur Barrierefreiheitsprüfung',
+  notAvailable: 'k. A.',
+  meta: {
+    scannedUrl: 'Geprüfte URL:',
+    pageTitle: 'Seitentitel:',
+    scanDate: 'Prüfdatum:',
+    standard: 'Standard:',
+  },
+  standard: {
+    defaultRules: 'Standardregeln von axe-core',
+    allRules: 'Alle Regeln von axe-core',
+    tagsTested: 'Geprüfte Tags: {values}',
+    rulesTested: 'Geprüfte Regeln: {values}',
+    rulesDisabled: 'Deaktivierte Regeln: {values}',
+    includedRegions: 'Einbezogene Bereiche: {values}',
+    excludedRegions: 'Ausgeschlossene Bereiche: {values}',
+    axeVersion: 'axe-core-Version: {version}',
+    ruleLanguage: 'Sprache der Regeln: {locale}',
+  },
+  impacts: {
+    critical: 'kritisch',
+    serious: 'schwerwiegend',
+    moderate: 'mittel',
+    minor: 'gering',
+  },
+  summary: {
+    heading: 'Zusammenfassung',
+    score: 'Barrierefreiheitswert',
+    pageHealth: 'Zustand der Seite',
+    totalViolations: 'Gefundene Verstöße insgesamt',
+    checksNeedingReview: 'Zu überprüfende Prüfungen',
+  },
+  healthLevels: {
+    'Critical Issues': 'Kritische Probleme',
+    'Serious Concerns': 'Schwerwiegende Mängel',
+    'Needs Improvement': 'Verbesserungsbedarf',
+    'Needs Manual Review': 'Manuelle Prüfung nötig',
+    'Good Shape': 'Guter Zustand',
+  },
+  healthDescriptions: {
+    'Critical Issues':
+      'Es wurden kritische Barrieren gefunden, die die Nutzbarkeit stark beeinträchtigen. Dringender Handlungsbedarf.',
+    'Serious Concerns':
+      'Es wurden schwerwiegende Probleme festgestellt. Sie stellen für manche Nutzer wahrscheinlich erhebliche Barrieren dar.',
+    'Needs Improvement':
+      'Es wurden mittlere oder mehrere geringe Probleme gefunden. Die Seite ist nutzbar, ihre Barrierefreiheit lässt sich aber verbessern.',
+    'Needs Manual Review': {
+      one: 'Die automatischen Prüfungen haben keine wesentlichen Probleme gefunden, aber {count} Prüfung muss noch manuell bewertet werden.',
+      other:
+        'Die automatischen Prüfungen haben keine wesentlichen Probleme gefunden, aber {count} Prüfungen müssen noch manuell bewertet werden.',
+    },
+    'Good Shape':
+      'Sieht gut aus! Die automatischen Prüfungen haben nur geringe oder keine wesentlichen Probleme gefunden.',
+  },
+  changes: {
+    heading: 'Änderungen seit der letzten Prüfung',
+    comparedWith: 'Verglichen mit der Prüfung vom {date} (Wert {score} %).',
+    comparedWithUnscored: 'Verglichen mit der Prüfung vom {date}.',
+    scoreChange: 'Veränderung des Werts: {change}',
+    newIssues: 'Neue Probleme: {count}',
+    fixedIssues: 'Behobene Probleme: {count}',
+    unchangedIssues: 'Unveränderte Probleme: {count}',
+    newHeading: 'Neue Probleme',
+    fixedHeading: 'Behobene Probleme',
+    noNewIssues: 'Keine neuen Probleme.',
+    noFixedIssues: 'Es wurden keine Probleme behoben.',
+  },
+  screenshot: {
+    heading: 'Screenshot der Seite',
+    outlinesNote:
+      'Nummerierte Rahmen markieren die betroffenen Elemente, die unter „Verstöße im Detail“ aufgeführt sind.',
+    outlinedAlt:
+      'Screenshot der geprüften Seite mit umrahmten betroffenen Elementen',
+    alt: 'Screenshot der geprüften Seite',
+  },
+  viewports: {
+    heading: 'Geprüfte Ansichten',
+    violationsAtViewport: 'Verstöße in dieser Ansicht: {count}',
+    alt: 'Screenshot der geprüften Seite in der Ansicht {viewport}',
+  },
+  violations: {
+    heading: 'Verstöße im Detail',
+    impact: 'Auswirkung: {impact}',
+    onlyAt: 'Nur in: {viewports}',
+    tags: 'Tags: {tags}',
+    learnMore: 'Mehr erfahren: {help}',
+    affectedElements: 'Betroffene Elemente ({count}):',
+    element: 'Element {number}',
+    onScreenshot: '(Nr. {number} auf dem Screenshot)',
+    onlyAtElement: '(nur in: {viewports})',
+    selector: 'Selektor:',
+    htmlSnippet: 'HTML-Ausschnitt:',
+    elementAlt: 'Screenshot von Element {number}',
+    failureSummary: 'Fehlerbeschreibung:',
+    fixAll: 'Alle folgenden Punkte beheben:',
+    fixAny: 'Einen der folgenden Punkte beheben:',
+    specificChecks: 'Einzelne Prüfungen:',
+    checkData: 'Daten: {data}',
+    none: 'Keine Verstöße gefunden, oder es liegen keine Detaildaten vor.',
+  },
+  review: {
+    heading: 'Manuelle Prüfung nötig',
+    intro:
+      'Die automatischen Prüfungen konnten nicht entscheiden, ob diese Elemente die Anforderungen erfüllen. Eine Person sollte jedes davon prüfen.',
+    elementsToReview: 'Zu prüfende Elemente ({count}):',
+    none: 'Keine Prüfungen erfordern eine manuelle Bewertung.',
+  },
+  footer:
+    'Bericht erstellt mit dem Digital Accessibility Centre Scan Tool © {year}',
+  pdf: {
+    contents: 'Inhalt',
+    generated: 'Bericht erstellt am {date}',
+    scanned: 'Geprüft am {date}',
+    pageOf: 'Seite {page} von {total}',
+  },
+};
@@ -0,0 +1,119 @@
+import { ReportMessages } from '../reportMessages';
+
+export const en: ReportMessages = {
+  title: 'Accessibility Scan Report',
+  notAvailable: 'N/A',
+  meta: {
+    scannedUrl: 'Scanned URL:',
+    pageTitle: 'Page Title:',
+    scanDate: 'Scan Date:',
+    standard: 'Standard:',
+  },
+  standard: {
+    defaultRules: 'axe-core default rules',
+    allRules: 'All axe-core rules',
+    tagsTested: 'Tags tested: {values}',
+    rulesTested: 'Rules tested: {values}',
+    rulesDisabled: 'Rules disabled: {values}',
+    includedRegions: 'Included regions: {values}',
+    excludedRegions: 'Excluded regions: {values}',
+    axeVersion: 'axe-core version: {version}',
+    ruleLanguage: 'Rule language: {locale}',
+  },
+  impacts: {
+    critical: 'critical',
+    serious: 'serious',
+    moderate: 'moderate',
+    minor: 'minor',
+  },
+  summary: {
+    heading: 'Scan Summary',
+    score: 'Accessibility Score',
+    pageHealth: 'Page Health',
+    totalViolations: 'Total Violations Found',
+    checksNeedingReview: 'Checks Needing Review',
+  },
+  healthLevels: {
+    'Critical Issues': 'Critical Issues',
+    'Serious Concerns': 'Serious Concerns',
+    'Needs Improvement': 'Needs Improvement',
+    'Needs Manual Review': 'Needs Manual Review',
+    'Good Shape': 'Good Shape',
+  },
+  healthDescriptions: {
+    'Critical Issues':
+      'Critical accessibility barriers found that severely impact usability. Urgent attention required.',
+    'Serious Concerns':
+      'Serious accessibility issues identified. These likely create significant barriers for some users.',
+    'Needs Improvement':
+      'Moderate or multiple minor issues found. Site is usable but could be improved for better accessibility.',
+    'Needs Manual Review': {
+      one: 'No significant issues detected by automated checks, but {count} check still needs manual review.',
+      other:
+        'No significant issues detected by automated checks, but {count} checks still need manual review.',
+    },
+    'Good Shape':
+      'Looking good! Only minor or no significant accessibility issues detected by automated checks.',
+  },
+  changes: {
+    heading: 'Changes Since Last Scan',
+    comparedWith: 'Compared with the scan of {date} (score {score}%).',
+    comparedWithUnscored: 'Compared with the scan of {date}.',
+    scoreChange: 'Score change: {change}',
+    newIssues: 'New issues: {count}',
+    fixedIssues: 'Fixed issues: {count}',
+    unchangedIssues: 'Unchanged issues: {count}',
+    newHeading: 'New Issues',
+    fixedHeading: 'Fixed Issues',
+    noNewIssues: 'No new issues.',
+    noFixedIssues: 'No issues were fixed.',
+  },
+  screenshot: {
+    heading: 'Page Screenshot',
+    outlinesNote:
+      'Numbered outlines mark the affected elements listed under Detailed Violations.',
+    outlinedAlt:
+      'Screenshot of the scanned page with the affected elements outlined',
+    alt: 'Screenshot of the scanned page',
+  },
+  viewports: {
+    heading: 'Viewports Tested',
+    violationsAtViewport: 'Violations at this viewport: {count}',
+    alt: 'Screenshot of the scanned page at the {viewport} viewport',
+  },
+  violations: {
+    heading: 'Detailed Violations',
+    impact: 'Impact: {impact}',
+    onlyAt: 'Only at: {viewports}',
+    tags: 'Tags: {tags}',
+    learnMore: 'Learn more: {help}',
+    affectedElements: 'Affected Elements ({count}):',
+    element: 'Element {number}',
+    onScreenshot: '(#{number} on the screenshot)',
+    onlyAtElement: '(only at: {viewports})',
+    selector: 'Selector:',
+    htmlSnippet: 'HTML Snippet:',
+    elementAlt: 'Screenshot of element {number}',
+    failureSummary: 'Failure Summary:',
+    fixAll: 'Fix all of the following:',
+    fixAny: 'Fix any of the following:',
+    specificChecks: 'Specific Checks:',
+    checkData: 'Data: {data}',
+    none: 'No violations found, or data is not available for detailed violations.',
+  },
+  review: {
+    heading: 'Needs Manual Review',
+    intro:
+      'Automated checks could not decide whether these elements pass. A person should review each of them.',
+    elementsToReview: 'Elements to Review ({count}):',
+    none: 'No checks need manual review.',
+  },
+  footer:
+    'Report generated by Digital Accessibility Centre Scan Tool © {year}',
+  pdf: {
+    contents: 'Contents',
+    generated: 'Report generated {date}',
+    scanned: 'Scanned {date}',
+    pageOf: 'Page {page} of {total}',
+  },
+};
@@ -0,0 +1,120 @@
+import { ReportMessages } from '../reportMessages';
+
+export const es: ReportMessages = {
+  title: 'Informe de análisis de accesibilidad',
+  notAvailable: 'N/D',
+  meta: {
+    scannedUrl: 'URL analizada:',
+    pageTitle: 'Título de la página:',
+    scanDate: 'Fecha del análisis:',
+    standard: 'Estándar:',
+  },
+  standard: {
+    defaultRules: 'Reglas predeterminadas de axe-core',
+    allRules: 'Todas las reglas de axe-core',
+    tagsTested: 'Etiquetas evaluadas: {values}',
+    rulesTested: 'Reglas evaluadas: {values}',
+    rulesDisabled: 'Reglas desactivadas: {values}',
+    includedRegions: 'Zonas incluidas: {values}',
+    excludedRegions: 'Zonas excluidas: {values}',
+    axeVersion: 'Versión de axe-core: {version}',
+    ruleLanguage: 'Idioma de las reglas: {locale}',
+  },
+  impacts: {
+    critical: 'crítico',
+    serious: 'grave',
+    moderate: 'moderado',
+    minor: 'leve',
+  },
+  summary: {
+    heading: 'Resumen del análisis',
+    score: 'Puntuación de accesibilidad',
+    pageHealth: 'Estado de la página',
+    totalViolations: 'Total de incumplimientos',
+    checksNeedingReview: 'Comprobaciones por revisar',
+  },
+  healthLevels: {
+    'Critical Issues': 'Problemas críticos',
+    'Serious Concerns': 'Problemas graves',
+    'Needs Improvement': 'Necesita mejoras',
+    'Needs Manual Review': 'Requiere revisión manual',
+    'Good Shape': 'Buen estado',
+  },
+  healthDescriptions: {
+    'Critical Issues':
+      'Se han encontrado barreras críticas que afectan gravemente a la usabilidad. Requiere atención urgente.',
+    'Serious Concerns':
+      'Se han detectado problemas graves. Probablemente suponen barreras importantes para algunos usuarios.',
+    'Needs Improvement':
+      'Se han encontrado problemas moderados o varios problemas leves. El sitio es utilizable, pero su accesibilidad puede mejorar.',
+    'Needs Manual Review': {
+      one: 'Las comprobaciones automáticas no han detectado problemas importantes, pero {count} comprobación aún requiere revisión manual.',
+      other:
+        'Las comprobaciones automáticas no han detectado problemas importantes, pero {count} comprobaciones aún requieren revisión manual.',
+    },
+    'Good Shape':
+      '¡Buen trabajo! Las comprobaciones automáticas solo han detectado problemas leves o ningún problema importante.',
+  },
+  changes: {
+    heading: 'Cambios desde el último análisis',
+    comparedWith:
+      'Comparado con el análisis del {date} (puntuación {score} %).',
+    comparedWithUnscored: 'Comparado con el análisis del {date}.',
+    scoreChange: 'Cambio de puntuación: {change}',
+    newIssues: 'Problemas nuevos: {count}',
+    fixedIssues: 'Problemas corregidos: {count}',
+    unchangedIssues: 'Problemas sin cambios: {count}',
+    newHeading: 'Problemas nuevos',
+    fixedHeading: 'Problemas corregidos',
+    noNewIssues: 'No hay problemas nuevos.',
+    noFixedIssues: 'No se ha corregido ningún problema.',
+  },
+  screenshot: {
+    heading: 'Captura de pantalla de la página',
+    outlinesNote:
+      'Los recuadros numerados marcan los elementos afectados que se detallan en «Incumplimientos detallados».',
+    outlinedAlt:
+      'Captura de pantalla de la página analizada con los elementos afectados recuadrados',
+    alt: 'Captura de pantalla de la página analizada',
+  },
+  viewports: {
+    heading: 'Tamaños de pantalla evaluados',
+    violationsAtViewport: 'Incumplimientos en este tamaño: {count}',
+    alt: 'Captura de pantalla de la página analizada en el tamaño {viewport}',
+  },
+  violations: {
+    heading: 'Incumplimientos detallados',
+    impact: 'Impacto: {impact}',
+    onlyAt: 'Solo en: {viewports}',
+    tags: 'Etiquetas: {tags}',
+    learnMore: 'Más información: {help}',
+    affectedElements: 'Elementos afectados ({count}):',
+    element: 'Elemento {number}',
+    onScreenshot: '(n.º {number} en la captura)',
+    onlyAtElement: '(solo en: {viewports})',
+    selector: 'Selector:',
+    htmlSnippet: 'Fragmento HTML:',
+    elementAlt: 'Captura de pantalla del elemento {number}',
+    failureSummary: 'Resumen del fallo:',
+    fixAll: 'Corrija todos los puntos siguientes:',
+    fixAny: 'Corrija uno de los puntos siguientes:',
+    specificChecks: 'Comprobaciones específicas:',
+    checkData: 'Datos: {data}',
+    none: 'No se han encontrado incumplimientos o no hay datos detallados disponibles.',
+  },
+  review: {
+    heading: 'Requiere revisión manual',
+    intro:
+      'Las comprobaciones automáticas no han podido determinar si estos elementos cumplen. Una persona debería revisar cada uno de ellos.',
+    elementsToReview: 'Elementos por revisar ({count}):',
+    none: 'Ninguna comprobación requiere revisión manual.',
+  },
+  footer:
+    'Informe generado con Digital Accessibility Centre Scan Tool © {year}',
+  pdf: {
+    contents: 'Índice',
+    generated: 'Informe generado el {date}',
+    scanned: 'Analizado el {date}',
+    pageOf: 'Página {page} de {total}',
+  },
+};
@@ -0,0 +1,119 @@
+import { ReportMessages } from '../reportMessages';
+
+export const fr: ReportMessages = {
+  title: "Rapport d'analyse d'accessibilité",
+  notAvailable: 'N/D',
+  meta: {
+    scannedUrl: 'URL analysée :',
+    pageTitle: 'Titre de la page :',
+    scanDate: "Date de l'analyse :",
+    standard: 'Référentiel :',
+  },
+  standard: {
+    defaultRules: 'Règles par défaut d’axe-core',
+    allRules: 'Toutes les règles d’axe-core',
+    tagsTested: 'Tags testés : {values}',
+    rulesTested: 'Règles testées : {values}',
+    rulesDisabled: 'Règles désactivées : {values}',
+    includedRegions: 'Zones incluses : {values}',
+    excludedRegions: 'Zones exclues : {values}',
+    axeVersion: 'Version d’axe-core : {version}',
+    ruleLanguage: 'Langue des règles : {locale}',
+  },
+  impacts: {
+    critical: 'critique',
+    serious: 'grave',
+    moderate: 'modéré',
+    minor: 'mineur',
+  },
+  summary: {
+    heading: "Résumé de l'analyse",
+    score: "Score d'accessibilité",
+    pageHealth: 'État de la page',
+    totalViolations: 'Total des non-conformités',
+    checksNeedingReview: 'Vérifications à examiner',
+  },
+  healthLevels: {
+    'Critical Issues': 'Problèmes critiques',
+    'Serious Concerns': 'Problèmes graves',
+    'Needs Improvement': 'À améliorer',
+    'Needs Manual Review': 'Vérification manuelle requise',
+    'Good Shape': 'Bon état',
+  },
+  healthDescriptions: {
+    'Critical Issues':
+      "Des obstacles critiques nuisent fortement à l'utilisation. Une intervention urgente est nécessaire.",
+    'Serious Concerns':
+      'Des problèmes graves ont été identifiés. Ils créent probablement des obstacles importants pour certains utilisateurs.',
+    'Needs Improvement':
+      'Des problèmes modérés ou plusieurs problèmes mineurs ont été trouvés. Le site est utilisable mais son accessibilité peut être améliorée.',
+    'Needs Manual Review': {
+      one: "Les vérifications automatiques n'ont détecté aucun problème important, mais {count} vérification doit encore être examinée manuellement.",
+      other:
+        "Les vérifications automatiques n'ont détecté aucun problème important, mais {count} vérifications doivent encore être examinées manuellement.",
+    },
+    'Good Shape':
+      "Tout semble en ordre ! Les vérifications automatiques n'ont détecté que des problèmes mineurs, voire aucun problème important.",
+  },
+  changes: {
+    heading: 'Changements depuis la dernière analyse',
+    comparedWith: "Comparé à l'analyse du {date} (score {score} %).",
+    comparedWithUnscored: "Comparé à l'analyse du {date}.",
+    scoreChange: 'Évolution du score : {change}',
+    newIssues: 'Nouveaux problèmes : {count}',
+    fixedIssues: 'Problèmes corrigés : {count}',
+    unchangedIssues: 'Problèmes inchangés : {count}',
+    newHeading: 'Nouveaux problèmes',
+    fixedHeading: 'Problèmes corrigés',
+    noNewIssues: 'Aucun nouveau problème.',
+    noFixedIssues: "Aucun problème n'a été corrigé.",
+  },
+  screenshot: {
+    heading: "Capture d'écran de la page",
+    outlinesNote:
+      'Des cadres numérotés signalent les éléments concernés, détaillés dans la section « Non-conformités détaillées ».',
+    outlinedAlt:
+      "Capture d'écran de la page analysée avec les éléments concernés encadrés",
+    alt: "Capture d'écran de la page analysée",
+  },
+  viewports: {
+    heading: "Formats d'affichage testés",
+    violationsAtViewport: 'Non-conformités dans ce format : {count}',
+    alt: "Capture d'écran de la page analysée au format {viewport}",
+  },
+  violations: {
+    heading: 'Non-conformités détaillées',
+    impact: 'Impact : {impact}',
+    onlyAt: 'Uniquement en : {viewports}',
+    tags: 'Tags : {tags}',
+    learnMore: 'En savoir plus : {help}',
+    affectedElements: 'Éléments concernés ({count}) :',
+    element: 'Élément {number}',
+    onScreenshot: "(n° {number} sur la capture d'écran)",
+    onlyAtElement: '(uniquement en : {viewports})',
+    selector: 'Sélecteur :',
+    htmlSnippet: 'Extrait HTML :',
+    elementAlt: "Capture d'écran de l'élément {number}",
+    failureSummary: "Résumé de l'échec :",
+    fixAll: 'Corriger tous les points suivants :',
+    fixAny: "Corriger l'un des points suivants :",
+    specificChecks: 'Vérifications détaillées :',
+    checkData: 'Données : {data}',
+    none: 'Aucune non-conformité trouvée, ou les données détaillées ne sont pas disponibles.',
+  },
+  review: {
+    heading: 'Vérification manuelle requise',
+    intro:
+      "Les vérifications automatiques n'ont pas pu déterminer si ces éléments sont conformes. Une personne doit examiner chacun d'eux.",
+    elementsToReview: 'Éléments à examiner ({count}) :',
+    none: 'Aucune vérification ne nécessite un examen manuel.',
+  },
+  footer:
+    'Rapport généré par le Digital Accessibility Centre Scan Tool © {year}',
+  pdf: {
+    contents: 'Sommaire',
+    generated: 'Rapport généré le {date}',
+    scanned: 'Analysé le {date}',
+    pageOf: 'Page {page} sur {total}',
+  },
+};
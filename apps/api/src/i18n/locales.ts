@@ -0,0 +1,22 @@
+// Locales with a report catalog; the worker loads the matching axe-core locale for rule texts
+export const SUPPORTED_LOCALES = ['en', 'de', 'fr', 'es'] as const;
+
+export type Locale = (typeof SUPPORTED_LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+// Report dates are shown in UTC unless the export names an IANA time zone
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+export function isSupportedLocale(value: unknown): value is Locale {
+  return SUPPORTED_LOCALES.includes(value as Locale);
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,107 @@
+import {
+  describePageHealth,
+  formatMessage,
+  formatPluralMessage,
+  formatReportDate,
+  getReportMessages,
+} from './reportMessages';
+import { SUPPORTED_LOCALES } from './locales';
+
+// Every message in a catalog by its path, with the placeholder names it fills
+function placeholdersByPath(
+  value: unknown,
+  path = '',
+): Record<string, string[]> {
+  if (typeof value === 'string') {
+    const names = [...value.matchAll(/\{(\w+)\}/g)].map((match) => match[1]);
+    return { [path]: [...new Set(names)].sort() };
+  }
+  return Object.entries(value as Record<string, unknown>).reduce(
+    (all, [key, child]) => ({
+      ...all,
+      ...placeholdersByPath(child, path ? `${path}.${key}` : key),
+    }),
+    {},
+  );
+}
+
+describe('report catalogs', () => {
+  const english = placeholdersByPath(getReportMessages('en'));
+
+  it.each(SUPPORTED_LOCALES.filter((locale) => locale !== 'en'))(
+    'fills the same placeholders in %s as in en',
+    (locale) => {
+      expect(placeholdersByPath(getReportMessages(locale))).toEqual(english);
+    },
+  );
+});
+
+describe('formatMessage', () => {
+  it('fills known placeholders and keeps unknown ones', () => {
+    expect(formatMessage('{count} of {total} in {place}', { count: 2 })).toBe(
+      '2 of {total} in {place}',
+    );
+  });
+});
+
+describe('formatPluralMessage', () => {
+  const message = { one: '{count} check', other: '{count} checks' };
+
+  it.each([
+    ['en', 0, '0 checks'],
+    ['en', 1, '1 check'],
+    ['en', 2, '2 checks'],
+    ['fr', 0, '0 check'],
+    ['fr', 1, '1 check'],
+    ['fr', 2, '2 checks'],
+  ] as const)('picks the %s form for %d', (locale, count, expected) => {
+    expect(formatPluralMessage(locale, message, count)).toBe(expected);
+  });
+
+  it('uses the singular French description for no checks to review', () => {
+    expect(describePageHealth('fr', 'Needs Manual Review', 0)).toEqual({
+      level: 'Needs Manual Review',
+      label: 'Vérification manuelle requise',
+      description:
+        "Les vérifications automatiques n'ont détecté aucun problème important, mais 0 vérification doit encore être examinée manuellement.",
+    });
+  });
+});
+
+describe('formatReportDate', () => {
+  it('formats the date for the locale in the time zone', () => {
+    const date = formatReportDate('2024-05-01T12:00:00Z', {
+      locale: 'de',
+      timeZone: 'Europe/Berlin',
+    });
+    expect(date).toContain('1. Mai 2024');
+    expect(date).toContain('14:00:00');
+  });
+
+  it('falls back for missing and unreadable dates', () => {
+    const options = { locale: 'fr', timeZone: 'UTC' } as const;
+    expect(formatReportDate(undefined, options)).toBe('N/D');
+    expect(formatReportDate('not a date', options)).toBe('not a date');
+  });
+});
+
+describe('describePageHealth', () => {
+  it('translates the label and description of a level', () => {
+    expect(describePageHealth('de', 'Good Shape', 3)).toEqual({
+      level: 'Good Shape',
+      label: getReportMessages('de').healthLevels['Good Shape'],
+      description: getReportMessages('de').healthDescriptions['Good Shape'],
+    });
+  });
+
+  it('counts the checks to review in English, where 0 is plural', () => {
+    const { one, other } =
+      getReportMessages('en').healthDescriptions['Needs Manual Review'];
+    expect(describePageHealth('en', 'Needs Manual Review', 1).description).toBe(
+      one.replace('{count}', '1'),
+    );
+    expect(describePageHealth('en', 'Needs Manual Review', 0).description).toBe(
+      other.replace('{count}', '0'),
+    );
+  });
+});
@@ -0,0 +1,185 @@
+import {
+  HealthLevel,
+  PageHealth,
+} from '@accessibility-scanner-backend/scoring';
+import { de } from './catalogs/de';
+import { en } from './catalogs/en';
+import { es } from './catalogs/es';
+import { fr } from './catalogs/fr';
+import { Locale } from './locales';
+
+// Picked by Intl.PluralRules; `one` also covers 0 in locales such as French
+export interface PluralMessage {
+  one: string;
+  other: string;
+}
+
+/**
+ * Every piece of text in a report that does not come from axe-core. Values
+ * are plain text with `{name}` placeholders, filled in by formatMessage.
+ */
+export interface ReportMessages {
+  title: string;
+  notAvailable: string;
+  meta: {
+    scannedUrl: string;
+    pageTitle: string;
+    scanDate: string;
+    standard: string;
+  };
+  standard: {
+    defaultRules: string;
+    allRules: string;
+    tagsTested: string;
+    rulesTested: string;
+    rulesDisabled: string;
+    includedRegions: string;
+    excludedRegions: string;
+    axeVersion: string;
+    ruleLanguage: string;
+  };
+  impacts: Record<'critical' | 'serious' | 'moderate' | 'minor', string>;
+  summary: {
+    heading: string;
+    score: string;
+    pageHealth: string;
+    totalViolations: string;
+    checksNeedingReview: string;
+  };
+  healthLevels: Record<HealthLevel, string>;
+  healthDescriptions: Record<
+    Exclude<HealthLevel, 'Needs Manual Review'>,
+    string
+  > & { 'Needs Manual Review': PluralMessage };
+  changes: {
+    heading: string;
+    comparedWith: string;
+    // Used when the earlier scan has no stored score yet
+    comparedWithUnscored: string;
+    scoreChange: string;
+    newIssues: string;
+    fixedIssues: string;
+    unchangedIssues: string;
+    newHeading: string;
+    fixedHeading: string;
+    noNewIssues: string;
+    noFixedIssues: string;
+  };
+  screenshot: {
+    heading: string;
+    outlinesNote: string;
+    outlinedAlt: string;
+    alt: string;
+  };
+  viewports: {
+    heading: string;
+    violationsAtViewport: string;
+    alt: string;
+  };
+  violations: {
+    heading: string;
+    impact: string;
+    onlyAt: string;
+    tags: string;
+    learnMore: string;
+    affectedElements: string;
+    element: string;
+    onScreenshot: string;
+    onlyAtElement: string;
+    selector: string;
+    htmlSnippet: string;
+    elementAlt: string;
+    failureSummary: string;
+    // Head the failing checks when an element has both kinds
+    fixAll: string;
+    fixAny: string;
+    specificChecks: string;
+    checkData: string;
+    none: string;
+  };
+  review: {
+    heading: string;
+    intro: string;
+    elementsToReview: string;
+    none: string;
+  };
+  footer: string;
+  // Added by the worker when it prints the report as a PDF
+  pdf: {
+    contents: string;
+    generated: string;
+    scanned: string;
+    pageOf: string;
+  };
+}
+
+const CATALOGS: Record<Locale, ReportMessages> = { en, de, fr, es };
+
+// Where the report's text and dates come from
+export interface ReportLocaleOptions {
+  locale: Locale;
+  timeZone: string;
+}
+
+export function getReportMessages(locale: Locale): ReportMessages {
+  return CATALOGS[locale];
+}
+
+export function formatMessage(
+  template: string,
+  values: Record<string, string | number> = {},
+): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in values ? String(values[name]) : placeholder,
+  );
+}
+
+export function formatPluralMessage(
+  locale: Locale,
+  message: PluralMessage,
+  count: number,
+  values: Record<string, string | number> = {},
+): string {
+  const form = new Intl.PluralRules(locale).select(count);
+  return formatMessage(form === 'one' ? message.one : message.other, {
+    count,
+    ...values,
+  });
+}
+
+// A long date and time with the time zone, e.g. "October 19, 2026 at 2:03:12 PM UTC"
+export function formatReportDate(
+  timestamp: string | Date | undefined,
+  { locale, timeZone }: ReportLocaleOptions,
+): string {
+  if (!timestamp) return getReportMessages(locale).notAvailable;
+  const date = new Date(timestamp);
+  if (Number.isNaN(date.getTime())) return String(timestamp);
+  return new Intl.DateTimeFormat(locale, {
+    dateStyle: 'long',
+    timeStyle: 'long',
+    timeZone,
+  }).format(date);
+}
+
+// The translated label and description of a page's health level
+export function describePageHealth(
+  locale: Locale,
+  level: HealthLevel,
+  needsReviewCount: number,
+): PageHealth & { label: string } {
+  const messages = getReportMessages(locale);
+  const description =
+    level === 'Needs Manual Review'
+      ? formatPluralMessage(
+          locale,
+          messages.healthDescriptions['Needs Manual Review'],
+          needsReviewCount,
+        )
+      : messages.healthDescriptions[level];
+  return {
+    level,
+    label: messages.healthLevels[level],
+    description,
+  };
+}
@@ -4,47 +4,136 @@ import express, { Request, Response } from 'express';
 import cors from 'cors';
 import { z } from 'zod';
 import { v4 as uuidv4 } from 'uuid';
-import { Queue } from 'bullmq';
+import { Queue, QueueEvents, JobState } from 'bullmq';
 import { Pool } from 'pg';
 import IORedis from 'ioredis';
 import swaggerUi from 'swagger-ui-express';
+import {
+  calculateAccessibilityScore,
+  calculatePageHealth,
+  countViolationsByImpact,
+  HEALTH_LEVELS,
+  HealthLevel,
+} from '@accessibility-scanner-backend/scoring';
+import {
+  BlobStore,
+  createBlobStoreFromEnv,
+} from '@accessibility-scanner-backend/blob-store';
+import {
+  REPORT_PDF_QUEUE_NAME,
+  ReportPdfJobData,
+  ReportPdfJobResult,
+} from '@accessibility-scanner-backend/report-pdf';
+import {
+  loadRetentionPolicy,
+  previewRetention,
+  RetentionPolicy,
+} from '@accessibility-scanner-backend/retention';
+import {
+  encryptScanCredentials,
+  loadScanCredentialsKey,
+} from '@accessibility-scanner-backend/scan-credentials';
+import { normalizeScanUrl } from '@accessibility-scanner-backend/scan-url';
+import {
+  checkUrlSafety,
+  loadUrlSafetyPolicy,
+} from '@accessibility-scanner-backend/url-safety';
 // import puppeteer from 'puppeteer-core'; // Puppeteer removed
 
+import {
+  AuthenticatedApiKey,
+  consumeScanQuota,
+  createApiKeyAuth,
+  ensureBootstrapAdminKey,
+  generateApiKey,
+  getApiKey,
+  hasScope,
+  releaseScanQuota,
+} from './auth/apiKeys';
+import {
+  createInFlightLimiter,
+  createRateLimiter,
+  loadInFlightLimitConfig,
+  loadRateLimitConfig,
+} from './middleware/rateLimiter';
+import { openEventStream } from './events/serverSentEvents';
+import { storeScanCredentials } from './auth/scanCredentials';
 import { scanWebsiteSchema } from './validation/scanWebsiteSchema';
+import { buildScanReuseKey, createScanReuse } from './reuse/scanReuse';
+import { createReportPdfRenderer } from './reports/reportPdf';
+import {
+  DEFAULT_LOCALE,
+  DEFAULT_TIME_ZONE,
+  isSupportedLocale,
+} from './i18n/locales';
+import {
+  describePageHealth,
+  formatMessage,
+  formatReportDate,
+  getReportMessages,
+  ReportLocaleOptions,
+  ReportMessages,
+} from './i18n/reportMessages';
+import { buildSarifLog } from './reports/sarif';
+import { buildJUnitXml } from './reports/junit';
+import {
+  buildViolationsCsv,
+  buildViolationsXlsx,
+  ViolationExportScan,
+} from './reports/violationExport';
+import {
+  exportReportQuerySchema,
+  violationExportQuerySchema,
+} from './validation/exportReportSchema';
+import { scanSiteSchema } from './validation/scanSiteSchema';
+import {
+  apiKeyIdParamSchema,
+  createApiKeySchema,
+} from './validation/apiKeySchema';
+import {
+  ScanStatus,
+  ScanStatusResponse,
+  scanProgressSchema,
+  scanStatusResponseSchema,
+} from './validation/scanStatusSchema';
+import {
+  webhookDeliveryIdParamSchema,
+  webhookDeliveryListQuerySchema,
+} from './validation/webhookDeliverySchema';
+import { historyQuerySchema } from './validation/historySchema';
+import { scanDiffQuerySchema } from './validation/scanDiffSchema';
+import { screenshotQuerySchema } from './validation/screenshotSchema';
+import { scanResultsQuerySchema } from './validation/scanResultsSchema';
+import { AxeCheck, AxeNode, AxeResultType, AxeViolation } from './types/axe';
+import { loadScanRuleResults, ScanRuleResults } from './db/scanViolations';
+import { summarizeScoreTrend } from './history/scoreTrend';
+import { diffScanViolations, ScanDiff } from './history/scanDiff';
+import { deleteScanResults } from './db/scanDeletion';
+import { retentionPreviewQuerySchema } from './validation/retentionSchema';
+import { scanListQuerySchema } from './validation/scanListSchema';
+import { decodeScanListCursor, listScans } from './db/scanList';
+import {
+  readStoredScore,
+  STORED_SCORE_COLUMNS,
+  StoredScoreRow,
+} from './db/storedScores';
 
 // Define interfaces for strong typing
-interface AxeCheck {
-  id: string;
-  impact?: 'minor' | 'moderate' | 'serious' | 'critical';
-  message: string;
-  data?: unknown; // Changed from any to unknown
-  relatedNodes?: AxeRelatedNode[];
-}
-
-interface AxeRelatedNode {
-  target: string[];
-  html: string;
-}
-
-interface AxeNode {
-  html: string;
-  target: string[];
-  failureSummary?: string;
-  any?: AxeCheck[];
-  all?: AxeCheck[];
-}
-
-interface AxeViolation {
-  id: string;
-  description: string;
-  help: string;
-  helpUrl: string;
-  impact?: 'minor' | 'moderate' | 'serious' | 'critical';
-  tags?: string[];
-  nodes?: AxeNode[];
+interface ViewportResultFromDB {
+  viewport: string;
+  viewport_width: number;
+  viewport_height: number;
+  is_mobile: boolean;
+  violations: AxeViolation[];
+  screenshot_key?: string | null;
+  screenshot_url?: string | null;
+  screenshot_width?: number | null;
+  screenshot_height?: number | null;
+  // Base64 JPEG; legacy rows only, or loaded from the blob store for reports
+  page_screenshot?: string | null;
 }
 
-interface ScanResultFromDB {
+interface ScanResultFromDB extends Partial<StoredScoreRow> {
   id?: number | string;
   job_id?: string;
   original_job_id?: string;
@@ -54,18 +143,55 @@ interface ScanResultFromDB {
   page_title?: string;
   scan_success?: boolean;
   violations: AxeViolation[];
+  // Only loaded when requested, see attachViolations
+  incomplete?: AxeViolation[];
+  passes?: AxeViolation[];
+  inapplicable?: AxeViolation[];
   error_message?: string;
-  page_screenshot?: string;
+  screenshot_key?: string | null;
+  screenshot_url?: string | null;
+  screenshot_width?: number | null;
+  screenshot_height?: number | null;
+  // Base64 JPEG; legacy rows only, or loaded from the blob store for reports
+  page_screenshot?: string | null;
+  api_key_id?: number | null;
+  axe_options?: StoredAxeOptions | null;
+  viewport_results?: ViewportResultFromDB[];
+  normalized_url?: string | null;
+}
+
+// Two scans of a page compared node by node, see GET /api/scan-diff
+interface ScanComparison extends ScanDiff {
+  base: ScanComparisonSide;
+  head: ScanComparisonSide;
+  // Null unless both scans have a stored score
+  scoreChange: number | null;
+}
+
+interface ScanComparisonSide {
+  jobId?: string;
+  url?: string;
+  scanTimestamp?: string | Date;
+  score: number | null;
 }
 
-// Define PageHealthStatusReport, as it is used by calculatePageHealthReport
-interface PageHealthStatusReport {
-  level: string;
-  description: string;
+// The axe.run arguments recorded by the worker for each scan
+interface StoredAxeOptions {
+  context?: { include?: string[]; exclude?: string[] };
+  options?: {
+    runOnly?: { type: 'tag' | 'rule'; values: string[] };
+    rules?: Record<string, { enabled: boolean }>;
+    resultTypes?: string[];
+  };
+  axeVersion?: string;
+  // axe-core locale of the rule texts; absent for English
+  locale?: string;
 }
 
 const logger = pino({
   level: process.env.LOG_LEVEL || 'info',
+  // Scan credentials are never logged, not even in encrypted form
+  redact: { paths: ['auth', '*.auth'], censor: '[REDACTED]' },
   ...(process.env.NODE_ENV !== 'production' && {
     transport: {
       target: 'pino-pretty',
@@ -107,12 +233,16 @@ const swaggerSpec = {
       name: 'Scanning',
       description: 'Endpoints for initiating scans and retrieving results',
     },
+    { name: 'Webhooks', description: 'Scan callback deliveries' },
+    { name: 'Admin', description: 'API key management (admin scope)' },
   ],
+  security: [{ ApiKeyAuth: [] }],
   paths: {
     '/healthz': {
       get: {
         summary: 'Check API Health',
         tags: ['Health'],
+        security: [],
         responses: {
           '200': {
             description: 'The API is running correctly.',
@@ -141,8 +271,18 @@ const swaggerSpec = {
           },
         },
         responses: {
+          '200': {
+            description:
+              'A successful identical scan newer than maxAge was reused; fetch its results with the returned jobId.',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ScanAcceptedResponse' },
+              },
+            },
+          },
           '202': {
-            description: 'Scan request accepted.',
+            description:
+              'Scan request accepted, or an identical scan is already queued or running.',
             content: {
               'application/json': {
                 schema: { $ref: '#/components/schemas/ScanAcceptedResponse' },
@@ -157,6 +297,102 @@ const swaggerSpec = {
               },
             },
           },
+          '429': {
+            description:
+              'Rate limit or concurrent in-flight job limit exceeded. See the Retry-After and RateLimit-* headers.',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/api/scan-results/{jobId}/screenshot': {
+      get: {
+        summary: 'Download the page screenshot of a scan',
+        tags: ['Scanning'],
+        parameters: [
+          {
+            in: 'path',
+            name: 'jobId',
+            schema: { type: 'string', format: 'uuid' },
+            required: true,
+          },
+          {
+            in: 'query',
+            name: 'viewport',
+            schema: { type: 'string', enum: ['desktop', 'tablet', 'mobile'] },
+            description:
+              "Defaults to the scan's main screenshot, taken at its first viewport.",
+          },
+        ],
+        responses: {
+          '200': {
+            description: 'The JPEG screenshot. Cacheable indefinitely.',
+            content: {
+              'image/jpeg': { schema: { type: 'string', format: 'binary' } },
+            },
+          },
+          '304': { description: 'The cached copy is current.' },
+          '404': { description: 'Scan or screenshot not found.' },
+        },
+      },
+    },
+    '/api/scan-status/{jobId}': {
+      get: {
+        summary: 'Retrieve the live status of a scan job',
+        tags: ['Scanning'],
+        parameters: [
+          {
+            in: 'path',
+            name: 'jobId',
+            schema: { type: 'string', format: 'uuid' },
+            required: true,
+            description: 'The ID of the job to retrieve the status for.',
+          },
+        ],
+        responses: {
+          '200': {
+            description: 'Current status of the scan job.',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ScanStatusResponse' },
+              },
+            },
+          },
+          '404': {
+            description: 'No job or stored result exists for this ID.',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/api/scan-events/{jobId}': {
+      get: {
+        summary: 'Stream the live progress of a scan as Server-Sent Events',
+        description:
+          "Sends a `status` event with the current status, then relays the job's `waiting`, `active`, `progress`, `completed` and `failed` events. The stream ends once the job reaches a final state.",
+        tags: ['Scanning'],
+        parameters: [
+          {
+            in: 'path',
+            name: 'jobId',
+            schema: { type: 'string', format: 'uuid' },
+            required: true,
+          },
+        ],
+        responses: {
+          '200': {
+            description: 'A stream of scan events.',
+            content: { 'text/event-stream': { schema: { type: 'string' } } },
+          },
+          '404': { description: 'No job or stored result exists for the ID.' },
         },
       },
     },
@@ -172,11 +408,18 @@ const swaggerSpec = {
             required: true,
             description: 'The ID of the job to retrieve results for.',
           },
+          {
+            in: 'query',
+            name: 'types',
+            schema: { type: 'string', default: 'violations' },
+            description:
+              'Comma-separated axe result types to return: violations, incomplete (needs manual review), passes, inapplicable.',
+          },
         ],
         responses: {
           '200': {
             description:
-              'Scan results returned successfully. The structure of a full result is complex and contains the axe-core violations array.',
+              'Scan results returned successfully. The structure of a full result is complex and contains one axe-core array per requested result type.',
             content: {
               'application/json': {
                 schema: {
@@ -185,11 +428,23 @@ const swaggerSpec = {
                     scan_success: { type: 'boolean' },
                     page_title: { type: 'string' },
                     violations: { type: 'array', items: { type: 'object' } },
+                    incomplete: { type: 'array', items: { type: 'object' } },
+                    passes: { type: 'array', items: { type: 'object' } },
+                    inapplicable: { type: 'array', items: { type: 'object' } },
+                    screenshot_url: { type: 'string', nullable: true },
                   },
                 },
               },
             },
           },
+          '400': {
+            description: 'Invalid result types.',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
           '404': {
             description:
               'Scan result not found. The job may still be in progress or the ID is invalid.',
@@ -201,234 +456,3204 @@ const swaggerSpec = {
           },
         },
       },
+      delete: {
+        summary: 'Delete a scan, its screenshots and its queued job',
+        description:
+          'Requires the `submit` scope. Keys can only delete scans they created, unless they have the `admin` scope.',
+        tags: ['Scanning'],
+        parameters: [
+          {
+            in: 'path',
+            name: 'jobId',
+            schema: { type: 'string', format: 'uuid' },
+            required: true,
+          },
+        ],
+        responses: {
+          '200': {
+            description:
+              'Scan deleted. Returns how many result rows and screenshots were deleted and whether a BullMQ job was removed.',
+          },
+          '404': { description: 'No job or stored result exists for the ID.' },
+          '409': { description: 'The scan is still running.' },
+        },
+      },
     },
-  },
-  components: {
-    schemas: {
-      ScanRequest: {
-        type: 'object',
-        required: ['url'],
-        properties: {
-          url: {
-            type: 'string',
-            format: 'uri',
-            description: 'The URL of the website to scan.',
-            example: 'https://www.google.com',
+    '/api/scan-site': {
+      post: {
+        summary: 'Crawl a site from a seed URL and scan every discovered page',
+        tags: ['Scanning'],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/ScanSiteRequest' },
+            },
+          },
+        },
+        responses: {
+          '202': {
+            description:
+              'Site scan accepted. Pages are discovered and scanned in the background.',
+          },
+          '400': {
+            description: 'Bad request, likely an invalid URL or option.',
+          },
+          '429': {
+            description:
+              "Rate limit hit, or maxPages does not fit in the key's remaining monthly quota.",
           },
         },
       },
-      ScanAcceptedResponse: {
-        type: 'object',
-        properties: {
-          message: {
-            type: 'string',
-            example: 'Scan request accepted and enqueued. Job ID <uuid>',
+    },
+    '/api/site-scan-results/{siteScanId}': {
+      get: {
+        summary: 'Aggregate results of a site scan',
+        description:
+          'Per-page scores, the site-wide score and the rules failing on the most pages.',
+        tags: ['Scanning'],
+        parameters: [
+          {
+            in: 'path',
+            name: 'siteScanId',
+            schema: { type: 'string', format: 'uuid' },
+            required: true,
           },
-          jobId: {
-            type: 'string',
-            format: 'uuid',
-            example: '123e4567-e89b-12d3-a456-426614174000',
+          {
+            in: 'query',
+            name: 'topRules',
+            schema: { type: 'integer', default: 10 },
           },
-          submittedUrl: {
-            type: 'string',
-            format: 'uri',
-            example: 'https://www.google.com',
+        ],
+        responses: {
+          '200': {
+            description:
+              'Aggregate results. Pages still being scanned are not yet listed.',
           },
+          '404': { description: 'Site scan not found.' },
         },
       },
-      ErrorResponse: {
-        type: 'object',
-        properties: {
-          message: { type: 'string', example: 'Invalid URL format' },
+    },
+    '/api/history': {
+      get: {
+        summary: 'Scan history and score trend of a URL',
+        description:
+          'Scans of the URL, oldest first, matched after normalizing trailing slashes, default ports and tracking parameters.',
+        tags: ['Scanning'],
+        parameters: [
+          {
+            in: 'query',
+            name: 'url',
+            schema: { type: 'string', format: 'uri' },
+            required: true,
+          },
+          {
+            in: 'query',
+            name: 'from',
+            schema: { type: 'string', format: 'date-time' },
+          },
+          {
+            in: 'query',
+            name: 'to',
+            schema: { type: 'string', format: 'date-time' },
+          },
+          {
+            in: 'query',
+            name: 'limit',
+            schema: { type: 'integer', default: 100, maximum: 500 },
+          },
+        ],
+        responses: {
+          '200': {
+            description:
+              'The most recent scans in the range, each with its score, health level and violation counts, and a summary of the trend.',
+          },
+          '400': { description: 'Missing or invalid query parameters.' },
         },
       },
     },
-  },
-};
-
-app.use('/api-docs', swaggerUi.serve, swaggerUi.setup(swaggerSpec));
-
-/**
- * @swagger
- * tags:
- *   name: Health
- *   description: API health check
- */
-
-/**
- * @swagger
- * /healthz:
- *   get:
- *     summary: Check API Health
- *     tags: [Health]
- *     responses:
- *       200:
- *         description: The API is running correctly.
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 status:
- *                   type: string
- *                   example: ok
- */
-app.get('/healthz', (req: Request, res: Response) => {
-  // Create the health signal file on demand for health checks
-  // This replaces the on-startup file creation for more dynamic health status
-  try {
-    fs.writeFileSync(
-      '/tmp/healthy',
-      'API is healthy at ' + new Date().toISOString(),
-    );
-    res.status(200).send({ status: 'healthy', message: 'API is healthy' });
-  } catch (error) {
-    logger.error({ err: error }, 'Failed to write health signal file');
-    res
-      .status(500)
-      .send({ status: 'unhealthy', message: 'Failed to write health signal' });
-  }
-});
-
-/**
- * @swagger
- * tags:
- *   name: Scanning
- *   description: Endpoints for initiating scans and retrieving results
- */
-
-/**
- * @swagger
- * components:
- *   schemas:
- *     ScanRequest:
- *       type: object
- *       required:
- *         - url
+    '/api/scans': {
+      get: {
+        summary: 'Browse scans with filters and cursor pagination',
+        description:
+          'Compact summaries without screenshots or violation details. Scores are the ones stored at scan time; failed scans, and older scans not yet recomputed, have no score and sort below every scored scan.',
+        tags: ['Scanning'],
+        parameters: [
+          {
+            in: 'query',
+            name: 'domain',
+            schema: { type: 'string' },
+            description: 'Host of the scanned page, matched exactly.',
+          },
+          {
+            in: 'query',
+            name: 'status',
+            schema: { type: 'string', enum: ['success', 'failure'] },
+          },
+          {
+            in: 'query',
+            name: 'from',
+            schema: { type: 'string', format: 'date-time' },
+          },
+          {
+            in: 'query',
+            name: 'to',
+            schema: { type: 'string', format: 'date-time' },
+          },
+          {
+            in: 'query',
+            name: 'minScore',
+            schema: { type: 'integer', minimum: 0, maximum: 100 },
+          },
+          {
+            in: 'query',
+            name: 'maxScore',
+            schema: { type: 'integer', minimum: 0, maximum: 100 },
+          },
+          {
+            in: 'query',
+            name: 'healthLevel',
+            schema: { type: 'string', enum: [...HEALTH_LEVELS] },
+          },
+          {
+            in: 'query',
+            name: 'ruleId',
+            schema: { type: 'string' },
+            description: 'Only scans with a violation of this axe rule.',
+          },
+          {
+            in: 'query',
+            name: 'sort',
+            schema: {
+              type: 'string',
+              enum: ['scanTimestamp', 'score'],
+              default: 'scanTimestamp',
+            },
+          },
+          {
+            in: 'query',
+            name: 'order',
+            schema: { type: 'string', enum: ['asc', 'desc'], default: 'desc' },
+          },
+          {
+            in: 'query',
+            name: 'limit',
+            schema: { type: 'integer', default: 25, maximum: 100 },
+          },
+          {
+            in: 'query',
+            name: 'cursor',
+            schema: { type: 'string' },
+            description: 'The nextCursor of the previous page.',
+          },
+        ],
+        responses: {
+          '200': {
+            description:
+              'One page of scan summaries and the `nextCursor` for the next page, or null on the last page.',
+          },
+          '400': { description: 'Invalid query parameters or cursor.' },
+        },
+      },
+    },
+    '/api/scan-diff': {
+      get: {
+        summary: 'New, fixed and unchanged violations between two scans',
+        description:
+          'Nodes are matched by rule ID and a fingerprint of their selector and HTML.',
+        tags: ['Scanning'],
+        parameters: [
+          {
+            in: 'query',
+            name: 'base',
+            description: 'Job ID of the earlier scan',
+            schema: { type: 'string', format: 'uuid' },
+            required: true,
+          },
+          {
+            in: 'query',
+            name: 'head',
+            description: 'Job ID of the later scan',
+            schema: { type: 'string', format: 'uuid' },
+            required: true,
+          },
+        ],
+        responses: {
+          '200': {
+            description:
+              'Both scores, the score change and the violations grouped by whether they are new, fixed or unchanged.',
+          },
+          '400': { description: 'Missing or invalid job IDs.' },
+          '404': { description: 'One of the scans was not found.' },
+          '409': { description: 'One of the scans did not succeed.' },
+        },
+      },
+    },
+    '/api/export-report/{jobId}': {
+      get: {
+        summary:
+          'Export the scan report as HTML, PDF, SARIF, CSV, XLSX or JUnit XML',
+        tags: ['Scanning'],
+        parameters: [
+          {
+            in: 'path',
+            name: 'jobId',
+            schema: { type: 'string', format: 'uuid' },
+            required: true,
+          },
+          {
+            in: 'query',
+            name: 'format',
+            schema: {
+              type: 'string',
+              enum: ['html', 'pdf', 'sarif', 'csv', 'xlsx', 'junit'],
+              default: 'html',
+            },
+            description:
+              'pdf is printed by the worker with a cover page, contents, page numbers and the URL and scan date on every page. It is cached per scan, locale and time zone. sarif is a SARIF 2.1.0 log for code scanning tools, with one result per failing element. csv, xlsx and junit are as in GET /api/export-violations.',
+          },
+          {
+            in: 'query',
+            name: 'locale',
+            schema: { $ref: '#/components/schemas/Locale' },
+            description:
+              "Language of the HTML or PDF report. Defaults to the scan's locale. Rule texts stay in the language the scan was run in.",
+          },
+          {
+            in: 'query',
+            name: 'timeZone',
+            schema: { type: 'string', default: 'UTC' },
+            description:
+              'IANA time zone for the dates in the HTML or PDF report, e.g. Europe/Berlin.',
+          },
+        ],
+        responses: {
+          '200': {
+            description: 'The report.',
+            content: {
+              'text/html': { schema: { type: 'string' } },
+              'application/pdf': {
+                schema: { type: 'string', format: 'binary' },
+              },
+              'application/sarif+json': { schema: { type: 'object' } },
+              'text/csv': { schema: { type: 'string' } },
+              'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet':
+                { schema: { type: 'string', format: 'binary' } },
+              'application/xml': { schema: { type: 'string' } },
+            },
+          },
+          '202': {
+            description:
+              'The PDF is still being rendered. Repeat the request after Retry-After seconds.',
+          },
+          '400': { description: 'Invalid query parameters.' },
+          '404': { description: 'Scan result not found.' },
+          '409': {
+            description: 'SARIF was requested for a scan that did not succeed.',
+          },
+        },
+      },
+    },
+    '/api/export-violations': {
+      get: {
+        summary:
+          'Export the failing elements of one or more scans as CSV, XLSX or JUnit XML',
+        tags: ['Scanning'],
+        parameters: [
+          {
+            in: 'query',
+            name: 'jobIds',
+            schema: { type: 'string' },
+            required: true,
+            description:
+              'Comma-separated job IDs, at most 50. The parameter may also be repeated.',
+          },
+          {
+            in: 'query',
+            name: 'format',
+            schema: {
+              type: 'string',
+              enum: ['csv', 'xlsx', 'junit'],
+              default: 'csv',
+            },
+            description:
+              "xlsx adds a summary sheet with each scan's score, health level and counts by impact, and a per-rule pivot. junit is a JUnit XML report for CI with one testsuite per page and one testcase per axe rule.",
+          },
+        ],
+        responses: {
+          '200': {
+            description:
+              'One row per failing element, for every scan in the order requested.',
+            content: {
+              'text/csv': { schema: { type: 'string' } },
+              'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet':
+                { schema: { type: 'string', format: 'binary' } },
+              'application/xml': { schema: { type: 'string' } },
+            },
+          },
+          '400': { description: 'Invalid query parameters.' },
+          '404': { description: 'Some of the scans were not found.' },
+        },
+      },
+    },
+    '/api/webhook-deliveries': {
+      get: {
+        summary: 'List the callback deliveries of a scan and their attempts',
+        tags: ['Webhooks'],
+        parameters: [
+          {
+            in: 'query',
+            name: 'jobId',
+            schema: { type: 'string', format: 'uuid' },
+            required: true,
+          },
+        ],
+        responses: {
+          '200': {
+            description: 'Deliveries, newest first, each with its attempts.',
+          },
+          '400': { description: 'Missing or invalid jobId.' },
+        },
+      },
+    },
+    '/api/webhook-deliveries/{deliveryId}/redeliver': {
+      post: {
+        summary: 'Send a callback again with its original payload',
+        tags: ['Webhooks'],
+        parameters: [
+          {
+            in: 'path',
+            name: 'deliveryId',
+            schema: { type: 'string', format: 'uuid' },
+            required: true,
+          },
+        ],
+        responses: {
+          '202': { description: 'Redelivery queued.' },
+          '404': { description: 'Delivery not found.' },
+          '409': { description: 'The delivery is still being attempted.' },
+        },
+      },
+    },
+    '/api/admin/api-keys': {
+      get: {
+        summary: 'List API keys with their usage for the current month',
+        tags: ['Admin'],
+        responses: { '200': { description: 'API keys without secrets.' } },
+      },
+      post: {
+        summary: 'Create an API key',
+        tags: ['Admin'],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/CreateApiKeyRequest' },
+            },
+          },
+        },
+        responses: {
+          '201': {
+            description:
+              'API key created. The plaintext `apiKey` is only returned in this response.',
+          },
+          '400': { description: 'Invalid request body.' },
+        },
+      },
+    },
+    '/api/admin/api-keys/{id}/rotate': {
+      post: {
+        summary: 'Replace the secret of an API key',
+        tags: ['Admin'],
+        parameters: [
+          {
+            in: 'path',
+            name: 'id',
+            schema: { type: 'integer' },
+            required: true,
+          },
+        ],
+        responses: {
+          '200': { description: 'New plaintext `apiKey` returned once.' },
+          '404': { description: 'API key not found or already revoked.' },
+        },
+      },
+    },
+    '/api/admin/api-keys/{id}': {
+      delete: {
+        summary: 'Revoke an API key',
+        tags: ['Admin'],
+        parameters: [
+          {
+            in: 'path',
+            name: 'id',
+            schema: { type: 'integer' },
+            required: true,
+          },
+        ],
+        responses: {
+          '200': { description: 'API key revoked.' },
+          '404': { description: 'API key not found or already revoked.' },
+        },
+      },
+    },
+    '/api/admin/retention/preview': {
+      get: {
+        summary:
+          'Report what the retention policy would delete, without deleting anything',
+        tags: ['Admin'],
+        parameters: [
+          {
+            in: 'query',
+            name: 'screenshotDays',
+            schema: { type: 'integer' },
+            description:
+              'Overrides RETENTION_SCREENSHOT_DAYS for this preview.',
+          },
+          {
+            in: 'query',
+            name: 'resultDays',
+            schema: { type: 'integer' },
+            description: 'Overrides RETENTION_RESULT_DAYS for this preview.',
+          },
+          {
+            in: 'query',
+            name: 'maxScansPerUrl',
+            schema: { type: 'integer' },
+            description:
+              'Overrides RETENTION_MAX_SCANS_PER_URL for this preview.',
+          },
+          {
+            in: 'query',
+            name: 'keepLatestPerUrl',
+            schema: { type: 'integer' },
+            description:
+              'Overrides RETENTION_KEEP_LATEST_PER_URL for this preview.',
+          },
+          {
+            in: 'query',
+            name: 'limit',
+            schema: { type: 'integer' },
+            description:
+              'How many of the oldest affected scans to list, default 50.',
+          },
+        ],
+        responses: {
+          '200': {
+            description:
+              'Counts of scans that would be deleted or lose their screenshots, and a sample of the oldest.',
+          },
+          '400': { description: 'Invalid query parameters.' },
+        },
+      },
+    },
+  },
+  components: {
+    securitySchemes: {
+      ApiKeyAuth: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+    },
+    schemas: {
+      ScanRequest: {
+        type: 'object',
+        required: ['url'],
+        properties: {
+          url: {
+            type: 'string',
+            format: 'uri',
+            description: 'The URL of the website to scan.',
+            example: 'https://www.google.com',
+          },
+          axeOptions: { $ref: '#/components/schemas/AxeOptions' },
+          viewports: { $ref: '#/components/schemas/Viewports' },
+          locale: { $ref: '#/components/schemas/Locale' },
+          auth: { $ref: '#/components/schemas/ScanAuth' },
+          callbackUrl: {
+            type: 'string',
+            format: 'uri',
+            description:
+              'Receives a signed POST when the scan finishes or fails permanently. Requires WEBHOOK_SIGNING_SECRET on the server.',
+          },
+          maxAge: {
+            type: 'integer',
+            minimum: 1,
+            maximum: 604800,
+            description:
+              'Reuse a successful scan of the same URL and options that finished at most this many seconds ago, instead of scanning again.',
+          },
+          force: {
+            type: 'boolean',
+            default: false,
+            description:
+              'Always start a new scan. Without it, a submission matching a queued or running scan of the same API key returns that job. Submissions with auth or callbackUrl are never reused.',
+          },
+        },
+      },
+      Viewports: {
+        type: 'array',
+        items: { type: 'string', enum: ['desktop', 'tablet', 'mobile'] },
+        default: ['desktop'],
+        description:
+          'Device profiles to scan: desktop (1366x768), tablet (iPad Mini) and mobile (iPhone 13, with its user agent and touch support).',
+      },
+      Locale: {
+        type: 'string',
+        enum: ['en', 'de', 'fr', 'es'],
+        description:
+          "Language of axe-core's rule descriptions, help texts and failure summaries, and the default language of the scan's HTML and PDF reports. English when omitted.",
+      },
+      ScanAuth: {
+        type: 'object',
+        description:
+          'Credentials for pages behind a login. They are encrypted before being queued or stored, and are never logged. Requires SCAN_CREDENTIALS_KEY on the server.',
+        properties: {
+          cookies: {
+            type: 'array',
+            items: {
+              type: 'object',
+              required: ['name', 'value'],
+              properties: {
+                name: { type: 'string' },
+                value: { type: 'string' },
+                domain: { type: 'string' },
+                path: { type: 'string' },
+                secure: { type: 'boolean' },
+                httpOnly: { type: 'boolean' },
+                sameSite: { type: 'string', enum: ['Strict', 'Lax', 'None'] },
+              },
+            },
+          },
+          headers: {
+            type: 'object',
+            additionalProperties: { type: 'string' },
+            description:
+              'Extra HTTP headers, sent only to the origin of the scanned URL.',
+            example: { Authorization: 'Bearer <token>' },
+          },
+          basicAuth: {
+            type: 'object',
+            required: ['username', 'password'],
+            properties: {
+              username: { type: 'string' },
+              password: { type: 'string' },
+            },
+          },
+          login: {
+            type: 'object',
+            required: ['url', 'fields', 'submitSelector', 'waitForSelector'],
+            description:
+              'A login form replayed in the browser before the target page is loaded.',
+            properties: {
+              url: { type: 'string', format: 'uri' },
+              fields: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  required: ['selector', 'value'],
+                  properties: {
+                    selector: { type: 'string', example: '#email' },
+                    value: { type: 'string' },
+                  },
+                },
+              },
+              submitSelector: {
+                type: 'string',
+                example: 'button[type=submit]',
+              },
+              waitForSelector: {
+                type: 'string',
+                description: 'An element that appears once logged in.',
+                example: '#account-menu',
+              },
+              timeoutMs: { type: 'integer', default: 15000 },
+            },
+          },
+        },
+      },
+      AxeOptions: {
+        type: 'object',
+        description:
+          'Options passed to axe.run(context, options). Stored with each result as axe_options.',
+        properties: {
+          wcag: {
+            type: 'object',
+            description:
+              'Shorthand for runOnly tags, e.g. 2.1 AA runs wcag2a, wcag2aa, wcag21a and wcag21aa. Cannot be combined with runOnly.',
+            properties: {
+              version: { type: 'string', enum: ['2.0', '2.1', '2.2'] },
+              level: { type: 'string', enum: ['A', 'AA', 'AAA'] },
+            },
+          },
+          runOnly: {
+            type: 'object',
+            properties: {
+              type: { type: 'string', enum: ['tag', 'rule'] },
+              values: { type: 'array', items: { type: 'string' } },
+            },
+          },
+          rules: {
+            type: 'object',
+            additionalProperties: { type: 'boolean' },
+            example: { 'color-contrast': false },
+          },
+          include: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'CSS selectors of regions to test.',
+          },
+          exclude: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'CSS selectors of regions to skip.',
+          },
+          resultTypes: {
+            type: 'array',
+            items: {
+              type: 'string',
+              enum: ['violations', 'incomplete', 'passes', 'inapplicable'],
+            },
+          },
+        },
+      },
+      ScanAcceptedResponse: {
+        type: 'object',
+        properties: {
+          message: {
+            type: 'string',
+            example: 'Scan request accepted and enqueued. Job ID <uuid>',
+          },
+          jobId: {
+            type: 'string',
+            format: 'uuid',
+            example: '123e4567-e89b-12d3-a456-426614174000',
+          },
+          submittedUrl: {
+            type: 'string',
+            format: 'uri',
+            example: 'https://www.google.com',
+          },
+          reused: {
+            type: 'boolean',
+            description:
+              'True when jobId is an identical scan that was already queued, running or recently finished.',
+          },
+          scanTimestamp: {
+            type: 'string',
+            format: 'date-time',
+            description: 'When the reused scan finished; only on 200.',
+          },
+        },
+      },
+      ScanSiteRequest: {
+        type: 'object',
+        required: ['url'],
+        properties: {
+          url: {
+            type: 'string',
+            format: 'uri',
+            example: 'https://example.com',
+          },
+          maxDepth: { type: 'integer', minimum: 0, maximum: 5, default: 2 },
+          maxPages: { type: 'integer', minimum: 1, maximum: 200, default: 25 },
+          include: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Path globs a page must match, e.g. /blog/**',
+          },
+          exclude: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Path globs that exclude a page, e.g. /admin/**',
+          },
+          axeOptions: { $ref: '#/components/schemas/AxeOptions' },
+          viewports: { $ref: '#/components/schemas/Viewports' },
+          locale: { $ref: '#/components/schemas/Locale' },
+          auth: { $ref: '#/components/schemas/ScanAuth' },
+        },
+      },
+      CreateApiKeyRequest: {
+        type: 'object',
+        required: ['name', 'scopes'],
+        properties: {
+          name: { type: 'string', example: 'CI pipeline' },
+          scopes: {
+            type: 'array',
+            items: {
+              type: 'string',
+              enum: ['submit', 'read', 'export', 'admin'],
+            },
+          },
+          monthlyScanQuota: {
+            type: 'integer',
+            nullable: true,
+            description: 'Scans allowed per calendar month. Null is unlimited.',
+          },
+        },
+      },
+      ScanStatusResponse: {
+        type: 'object',
+        properties: {
+          jobId: { type: 'string', format: 'uuid' },
+          status: {
+            type: 'string',
+            enum: ['QUEUED', 'RUNNING', 'COMPLETED', 'FAILED'],
+          },
+          attemptsMade: { type: 'integer', nullable: true, example: 1 },
+          maxAttempts: { type: 'integer', nullable: true, example: 3 },
+          queuePosition: {
+            type: 'integer',
+            nullable: true,
+            description: '1-based position in the wait list while QUEUED.',
+          },
+          progress: {
+            type: 'object',
+            nullable: true,
+            properties: {
+              stage: { type: 'string', example: 'axe-run' },
+              percent: { type: 'number', example: 70 },
+            },
+          },
+          timestamps: {
+            type: 'object',
+            properties: {
+              createdAt: {
+                type: 'string',
+                format: 'date-time',
+                nullable: true,
+              },
+              startedAt: {
+                type: 'string',
+                format: 'date-time',
+                nullable: true,
+              },
+              finishedAt: {
+                type: 'string',
+                format: 'date-time',
+                nullable: true,
+              },
+            },
+          },
+          failedReason: { type: 'string', nullable: true },
+        },
+      },
+      ErrorResponse: {
+        type: 'object',
+        properties: {
+          message: { type: 'string', example: 'Invalid URL format' },
+        },
+      },
+    },
+  },
+};
+
+app.use('/api-docs', swaggerUi.serve, swaggerUi.setup(swaggerSpec));
+
+/**
+ * @swagger
+ * tags:
+ *   name: Health
+ *   description: API health check
+ */
+
+/**
+ * @swagger
+ * /healthz:
+ *   get:
+ *     summary: Check API Health
+ *     tags: [Health]
+ *     responses:
+ *       200:
+ *         description: The API is running correctly.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: ok
+ */
+app.get('/healthz', (req: Request, res: Response) => {
+  // Create the health signal file on demand for health checks
+  // This replaces the on-startup file creation for more dynamic health status
+  try {
+    fs.writeFileSync(
+      '/tmp/healthy',
+      'API is healthy at ' + new Date().toISOString(),
+    );
+    res.status(200).send({ status: 'healthy', message: 'API is healthy' });
+  } catch (error) {
+    logger.error({ err: error }, 'Failed to write health signal file');
+    res
+      .status(500)
+      .send({ status: 'unhealthy', message: 'Failed to write health signal' });
+  }
+});
+
+/**
+ * @swagger
+ * tags:
+ *   name: Scanning
+ *   description: Endpoints for initiating scans and retrieving results
+ */
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ScanRequest:
+ *       type: object
+ *       required:
+ *         - url
  *       properties:
  *         url:
  *           type: string
- *           format: uri
- *           description: The URL of the website to scan.
- *           example: https://www.google.com
- *     ScanAcceptedResponse:
- *       type: object
- *       properties:
- *         message:
+ *           format: uri
+ *           description: The URL of the website to scan.
+ *           example: https://www.google.com
+ *     ScanAcceptedResponse:
+ *       type: object
+ *       properties:
+ *         message:
+ *           type: string
+ *           example: Scan request accepted and enqueued. Job ID <uuid>
+ *         jobId:
+ *           type: string
+ *           format: uuid
+ *           example: 123e4567-e89b-12d3-a456-426614174000
+ *         submittedUrl:
+ *           type: string
+ *           format: uri
+ *           example: https://www.google.com
+ *     ScanStatusResponse:
+ *       type: object
+ *       properties:
+ *         jobId:
+ *           type: string
+ *           format: uuid
+ *         status:
+ *           type: string
+ *           enum: [QUEUED, RUNNING, COMPLETED, FAILED]
+ *         attemptsMade:
+ *           type: integer
+ *         maxAttempts:
+ *           type: integer
+ *         queuePosition:
+ *           type: integer
+ *         progress:
+ *           type: object
+ *         timestamps:
+ *           type: object
+ *         failedReason:
+ *           type: string
+ *     ErrorResponse:
+ *       type: object
+ *       properties:
+ *         message:
+ *           type: string
+ *           example: Invalid URL format
+ */
+
+// BullMQ Queue setup
+const SCAN_QUEUE_NAME = 'scan-jobs';
+
+if (!process.env.REDIS_URL) {
+  logger.error('FATAL: REDIS_URL environment variable is not set.');
+  process.exit(1);
+}
+const connection = new IORedis(process.env.REDIS_URL + '?family=0', {
+  maxRetriesPerRequest: null,
+});
+
+const scanQueue = new Queue(SCAN_QUEUE_NAME, {
+  connection,
+  defaultJobOptions: {
+    attempts: 3,
+    backoff: {
+      type: 'exponential',
+      delay: 1000,
+    },
+  },
+});
+
+logger.info(`BullMQ queue '${SCAN_QUEUE_NAME}' initialized.`);
+
+// Relays job lifecycle events to /api/scan-events; it blocks on Redis, so it gets its own connection
+const scanQueueEvents = new QueueEvents(SCAN_QUEUE_NAME, {
+  connection: connection.duplicate(),
+});
+// Every open event stream adds its own listeners
+scanQueueEvents.setMaxListeners(0);
+scanQueueEvents.on('error', (err: Error) => {
+  logger.error(
+    { error: err.message, stack: err.stack },
+    `BullMQ queue events error for '${SCAN_QUEUE_NAME}'`,
+  );
+});
+
+// Site crawls are discovered by the worker, which then fans pages out to the scan queue
+const SITE_CRAWL_QUEUE_NAME = 'site-crawl-jobs';
+const siteCrawlQueue = new Queue(SITE_CRAWL_QUEUE_NAME, {
+  connection,
+  defaultJobOptions: { attempts: 1 },
+});
+
+// Scan callbacks are sent by the worker; the API only queues redeliveries
+const WEBHOOK_QUEUE_NAME = 'webhook-deliveries';
+const webhookQueue = new Queue(WEBHOOK_QUEUE_NAME, {
+  connection,
+  defaultJobOptions: {
+    attempts: 6,
+    backoff: { type: 'exponential', delay: 10000 },
+  },
+});
+
+// PDF reports are printed by the worker, so the API image needs no browser
+const reportPdfQueue = new Queue<ReportPdfJobData, ReportPdfJobResult>(
+  REPORT_PDF_QUEUE_NAME,
+  { connection },
+);
+const reportPdfQueueEvents = new QueueEvents(REPORT_PDF_QUEUE_NAME, {
+  connection: connection.duplicate(),
+});
+reportPdfQueueEvents.setMaxListeners(0);
+reportPdfQueueEvents.on('error', (err: Error) => {
+  logger.error(
+    { error: err.message, stack: err.stack },
+    `BullMQ queue events error for '${REPORT_PDF_QUEUE_NAME}'`,
+  );
+});
+// How long a PDF export request waits for the render before answering 202
+const REPORT_PDF_WAIT_MS =
+  Number.parseInt(process.env.REPORT_PDF_WAIT_MS ?? '', 10) || 30000;
+
+// PostgreSQL Connection Pool
+if (!process.env.DATABASE_URL) {
+  logger.error('FATAL: DATABASE_URL environment variable is not set.');
+  process.exit(1);
+}
+const pool = new Pool({
+  connectionString: process.env.DATABASE_URL,
+});
+
+pool.on('connect', () => {
+  logger.info('API Service connected to PostgreSQL database');
+});
+
+pool.on('error', (err: Error) => {
+  logger.error(
+    { error: err.message, stack: err.stack },
+    'API Service PostgreSQL pool error',
+  );
+});
+
+// Rate limiting, backed by the shared Redis connection so limits hold across replicas
+const scanSubmissionRateLimit = createRateLimiter(
+  connection,
+  'scan-website',
+  loadRateLimitConfig('SCAN_WEBSITE', {
+    windowMs: 60000,
+    maxPerIp: 10,
+    maxPerKey: 30,
+  }),
+  logger,
+);
+
+const siteScanSubmissionRateLimit = createRateLimiter(
+  connection,
+  'scan-site',
+  loadRateLimitConfig('SCAN_SITE', {
+    windowMs: 60 * 60 * 1000,
+    maxPerIp: 5,
+    maxPerKey: 20,
+  }),
+  logger,
+);
+
+const scanReadRateLimit = createRateLimiter(
+  connection,
+  'scan-read',
+  loadRateLimitConfig('SCAN_READ', {
+    windowMs: 60000,
+    maxPerIp: 120,
+    maxPerKey: 600,
+  }),
+  logger,
+);
+
+const reportExportRateLimit = createRateLimiter(
+  connection,
+  'export-report',
+  loadRateLimitConfig('EXPORT_REPORT', {
+    windowMs: 60000,
+    maxPerIp: 20,
+    maxPerKey: 60,
+  }),
+  logger,
+);
+
+const scanInFlightLimit = createInFlightLimiter(
+  connection,
+  'scan-website',
+  loadInFlightLimitConfig({
+    maxInFlight: 3,
+    staleAfterMs: 10 * 60 * 1000,
+    retryAfterSeconds: 10,
+  }),
+  async (jobId: string) => {
+    const state = await scanQueue.getJobState(jobId);
+    return state === 'completed' || state === 'failed' || state === 'unknown';
+  },
+  logger,
+);
+
+const scanReuse = createScanReuse(connection, scanQueue, pool, logger);
+
+// Define Zod schema for URL submission
+const SubmitUrlSchema = z.object({
+  url: z.string().url({ message: 'Invalid URL format' }),
+});
+
+// Middleware to parse JSON bodies
+app.use(express.json());
+
+// Restrict CORS to the comma-separated CORS_ALLOWED_ORIGINS; all origins are allowed when unset
+const corsAllowedOrigins = (process.env.CORS_ALLOWED_ORIGINS || '')
+  .split(',')
+  .map((origin) => origin.trim())
+  .filter(Boolean);
+if (corsAllowedOrigins.length === 0) {
+  logger.warn('CORS_ALLOWED_ORIGINS is not set; allowing all origins');
+}
+app.use(
+  cors(corsAllowedOrigins.length > 0 ? { origin: corsAllowedOrigins } : {}),
+);
+
+// Per-route rate limits
+app.use(
+  '/api/scan-website',
+  scanSubmissionRateLimit,
+  scanInFlightLimit.middleware,
+);
+app.use('/api/scan-site', siteScanSubmissionRateLimit);
+app.use('/api/scan-status', scanReadRateLimit);
+app.use('/api/scan-events', scanReadRateLimit);
+app.use('/api/scan-results', scanReadRateLimit);
+app.use('/api/site-scan-results', scanReadRateLimit);
+app.use('/api/history', scanReadRateLimit);
+app.use('/api/scans', scanReadRateLimit);
+app.use('/api/scan-diff', scanReadRateLimit);
+app.use('/api/export-report', reportExportRateLimit);
+app.use('/api/export-violations', reportExportRateLimit);
+app.use('/api/webhook-deliveries', scanReadRateLimit);
+
+// API key authentication; each route group requires its own scope
+const requireScope = createApiKeyAuth(pool, logger);
+app.use('/api/scan-website', requireScope('submit'));
+app.use('/api/submit-url', requireScope('submit'));
+app.use('/api/scan-site', requireScope('submit'));
+app.use('/api/scan-status', requireScope('read'));
+app.use('/api/scan-events', requireScope('read'));
+const requireReadScope = requireScope('read');
+// Deleting a scan needs only the `submit` scope, checked on its own route
+app.use('/api/scan-results', (req, res, next) =>
+  req.method === 'DELETE' ? next() : requireReadScope(req, res, next),
+);
+app.use('/api/site-scan-results', requireScope('read'));
+app.use('/api/history', requireScope('read'));
+app.use('/api/scans', requireScope('read'));
+app.use('/api/scan-diff', requireScope('read'));
+app.use('/api/export-report', requireScope('export'));
+app.use('/api/export-violations', requireScope('export'));
+app.use('/api/admin', requireScope('admin'));
+
+// The worker enforces the same policy on every request Chromium makes
+const urlSafetyPolicy = loadUrlSafetyPolicy();
+
+// Checks each submitted URL in turn and returns the first one that is not allowed
+async function findUnsafeUrl(
+  urls: { field: string; url?: string; applyAllowlist?: boolean }[],
+): Promise<{ field: string; reason: string } | null> {
+  for (const { field, url, applyAllowlist } of urls) {
+    if (!url) continue;
+    const reason = await checkUrlSafety(url, urlSafetyPolicy, {
+      applyAllowlist,
+    });
+    if (reason) return { field, reason };
+  }
+  return null;
+}
+
+// Authenticated scanning is only available when SCAN_CREDENTIALS_KEY is set
+let scanCredentialsKey: Buffer | null = null;
+try {
+  scanCredentialsKey = loadScanCredentialsKey();
+} catch (err) {
+  logger.error({ err }, 'FATAL: SCAN_CREDENTIALS_KEY is invalid.');
+  process.exit(1);
+}
+
+// Screenshots live here; scan rows only store their object keys
+let blobStore: BlobStore;
+try {
+  blobStore = createBlobStoreFromEnv();
+} catch (err) {
+  logger.error({ err }, 'FATAL: Blob store configuration is invalid.');
+  process.exit(1);
+}
+
+const reportPdfRenderer = createReportPdfRenderer(
+  pool,
+  blobStore,
+  reportPdfQueue,
+  reportPdfQueueEvents,
+  logger,
+);
+
+// The worker applies the policy on a schedule; the API only previews it
+let retentionPolicy: RetentionPolicy;
+try {
+  retentionPolicy = loadRetentionPolicy();
+} catch (err) {
+  logger.error({ err }, 'FATAL: Retention policy configuration is invalid.');
+  process.exit(1);
+}
+
+if (process.env.BOOTSTRAP_ADMIN_API_KEY) {
+  ensureBootstrapAdminKey(
+    pool,
+    process.env.BOOTSTRAP_ADMIN_API_KEY,
+    logger,
+  ).catch((err) => {
+    logger.error({ err }, 'Failed to ensure bootstrap admin API key');
+  });
+}
+
+async function findViewportResults(
+  scanResultId: number | string | undefined,
+): Promise<ViewportResultFromDB[]> {
+  if (scanResultId === undefined) return [];
+  const { rows } = await pool.query(
+    `SELECT viewport, viewport_width, viewport_height, is_mobile, violations, screenshot_key, screenshot_width, screenshot_height, page_screenshot
+     FROM scan_viewport_results WHERE scan_result_id = $1 ORDER BY id`,
+    [scanResultId],
+  );
+  return rows as ViewportResultFromDB[];
+}
+
+// Violations come back from pg already parsed, but older rows may hold a JSON string
+function parseViolationsColumn(value: unknown): AxeViolation[] {
+  if (!value) return [];
+  if (typeof value === 'string') {
+    try {
+      return JSON.parse(value) as AxeViolation[];
+    } catch {
+      return [];
+    }
+  }
+  return value as AxeViolation[];
+}
+
+/**
+ * Replaces each row's violations with the array rebuilt from the normalized
+ * tables, and adds the other requested result types. Scans stored before
+ * those types were kept get empty lists.
+ */
+async function attachViolations<
+  T extends { id?: number | string; violations?: unknown },
+>(
+  rows: T[],
+  resultTypes: AxeResultType[] = ['violations'],
+): Promise<
+  (Omit<T, 'violations'> & { violations: AxeViolation[] } & ScanRuleResults)[]
+> {
+  const resultsByScan = await loadScanRuleResults(
+    pool,
+    rows.map((row) => Number(row.id)).filter(Number.isInteger),
+    resultTypes.includes('violations')
+      ? resultTypes
+      : ['violations', ...resultTypes],
+  );
+  return rows.map((row) => {
+    const results = resultsByScan.get(Number(row.id));
+    const otherTypes: ScanRuleResults = {};
+    resultTypes
+      .filter((resultType) => resultType !== 'violations')
+      .forEach((resultType) => {
+        otherTypes[resultType] = results?.[resultType] ?? [];
+      });
+    return {
+      ...row,
+      ...otherTypes,
+      violations: results
+        ? (results.violations ?? [])
+        : parseViolationsColumn(row.violations),
+    };
+  });
+}
+
+// Element crops are stored by the worker as screenshots/<jobId>/<viewport>/elements/<n>.jpg
+const ELEMENT_SCREENSHOT_KEY =
+  /^screenshots\/[^/]+\/([^/]+)\/elements\/(\d+)\.jpg$/;
+
+// Responses link to GET /api/scan-results/:jobId/screenshot instead of inlining images
+function withScreenshotUrls(result: ScanResultFromDB): ScanResultFromDB {
+  const screenshotUrl = (hasScreenshot: boolean, viewport?: string) =>
+    hasScreenshot && result.job_id
+      ? `/api/scan-results/${result.job_id}/screenshot${viewport ? `?viewport=${viewport}` : ''}`
+      : null;
+  return {
+    ...result,
+    page_screenshot: undefined,
+    screenshot_url: screenshotUrl(
+      Boolean(result.screenshot_key || result.page_screenshot),
+    ),
+    violations: result.violations.map((violation) => ({
+      ...violation,
+      nodes: violation.nodes?.map((node) => {
+        const element = ELEMENT_SCREENSHOT_KEY.exec(
+          node.elementScreenshotKey ?? '',
+        );
+        return element && result.job_id
+          ? {
+              ...node,
+              elementScreenshotUrl: `/api/scan-results/${result.job_id}/screenshot?viewport=${element[1]}&element=${element[2]}`,
+            }
+          : node;
+      }),
+    })),
+    viewport_results: result.viewport_results?.map((viewportResult) => ({
+      ...viewportResult,
+      page_screenshot: undefined,
+      screenshot_url: screenshotUrl(
+        Boolean(
+          viewportResult.screenshot_key || viewportResult.page_screenshot,
+        ),
+        viewportResult.viewport,
+      ),
+    })),
+  };
+}
+
+// Reports are self-contained documents, so their screenshots are loaded from the store and inlined
+async function loadReportScreenshots(
+  result: ScanResultFromDB,
+): Promise<ScanResultFromDB> {
+  const load = async (
+    key: string | null | undefined,
+    legacy: string | null | undefined,
+  ) => {
+    if (!key) return legacy;
+    try {
+      return (await blobStore.get(key))?.body.toString('base64') ?? null;
+    } catch (error) {
+      logger.warn(
+        {
+          jobId: result.job_id,
+          key,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        'Failed to load screenshot for report',
+      );
+      return null;
+    }
+  };
+  const violations: AxeViolation[] = [];
+  for (const violation of result.violations) {
+    const nodes: AxeNode[] = [];
+    for (const node of violation.nodes || []) {
+      nodes.push(
+        node.elementScreenshotKey
+          ? {
+              ...node,
+              elementScreenshot: await load(node.elementScreenshotKey, null),
+            }
+          : node,
+      );
+    }
+    violations.push({ ...violation, nodes });
+  }
+  return {
+    ...result,
+    violations,
+    page_screenshot: await load(result.screenshot_key, result.page_screenshot),
+    viewport_results: await Promise.all(
+      (result.viewport_results || []).map(async (viewportResult) => ({
+        ...viewportResult,
+        page_screenshot: await load(
+          viewportResult.screenshot_key,
+          viewportResult.page_screenshot,
+        ),
+      })),
+    ),
+  };
+}
+
+// Admin keys can read every result; other keys only see results they created
+async function findScanResultsForKey(
+  jobId: string,
+  apiKey: AuthenticatedApiKey,
+) {
+  const query =
+    'SELECT * FROM scan_results WHERE (job_id = $1 OR original_job_id = $1) AND ($2::boolean OR api_key_id = $3)';
+  const { rows } = await pool.query(query, [
+    jobId,
+    hasScope(apiKey, 'admin'),
+    apiKey.id,
+  ]);
+  return rows;
+}
+
+// Like findScanResultsForKey for several job IDs; IDs the key cannot see are missing from the map
+async function findScanResultsForKeyByJobIds(
+  jobIds: string[],
+  apiKey: AuthenticatedApiKey,
+): Promise<Map<string, ScanResultFromDB>> {
+  const { rows } = await pool.query(
+    `SELECT * FROM scan_results
+     WHERE (job_id = ANY($1::varchar[]) OR original_job_id = ANY($1::varchar[]))
+       AND ($2::boolean OR api_key_id = $3)`,
+    [jobIds, hasScope(apiKey, 'admin'), apiKey.id],
+  );
+  const byJobId = new Map<string, ScanResultFromDB>();
+  jobIds.forEach((jobId) => {
+    const row =
+      rows.find((candidate) => candidate.job_id === jobId) ??
+      rows.find((candidate) => candidate.original_job_id === jobId);
+    if (row) byJobId.set(jobId, row);
+  });
+  return byJobId;
+}
+
+// The latest successful scan of the same page before this one that `owner` can see, for the report's changes section
+async function findPreviousScan(
+  scan: ScanResultFromDB,
+  owner: { isAdmin: boolean; apiKeyId: number | null },
+): Promise<ScanResultFromDB | null> {
+  if (!scan.normalized_url || !scan.scan_timestamp) return null;
+  const { rows } = await pool.query(
+    `SELECT * FROM scan_results
+     WHERE normalized_url = $1 AND scan_success AND scan_timestamp < $2 AND id <> $3
+       AND ($4::boolean OR api_key_id = $5)
+     ORDER BY scan_timestamp DESC
+     LIMIT 1`,
+    [
+      scan.normalized_url,
+      scan.scan_timestamp,
+      scan.id,
+      owner.isAdmin,
+      owner.apiKeyId,
+    ],
+  );
+  if (rows.length === 0) return null;
+  const [previous] = await attachViolations(rows as ScanResultFromDB[]);
+  return previous;
+}
+
+function compareScans(
+  base: ScanResultFromDB,
+  head: ScanResultFromDB,
+): ScanComparison {
+  const describe = (scan: ScanResultFromDB): ScanComparisonSide => ({
+    jobId: scan.job_id,
+    url: scan.actual_url || scan.submitted_url,
+    scanTimestamp: scan.scan_timestamp,
+    score: scan.score ?? null,
+  });
+  const baseSide = describe(base);
+  const headSide = describe(head);
+  return {
+    base: baseSide,
+    head: headSide,
+    scoreChange:
+      headSide.score === null || baseSide.score === null
+        ? null
+        : headSide.score - baseSide.score,
+    ...diffScanViolations(base.violations, head.violations),
+  };
+}
+
+// A simple root route
+app.get('/', (req: Request, res: Response) => {
+  res.send('API Service is running!');
+});
+
+// New endpoint for scan-website
+/**
+ * @swagger
+ * /api/scan-website:
+ *   post:
+ *     summary: Submit a website for scanning
+ *     tags: [Scanning]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ScanRequest'
+ *     responses:
+ *       200:
+ *         description: A successful identical scan newer than maxAge was reused; fetch its results with the returned jobId.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ScanAcceptedResponse'
+ *       202:
+ *         description: Scan request accepted, or an identical scan is already queued or running.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ScanAcceptedResponse'
+ *       400:
+ *         description: Bad request, likely an invalid URL.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       429:
+ *         description: Rate limit or concurrent in-flight job limit exceeded.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+app.post('/api/scan-website', async (req: Request, res: Response) => {
+  const validationResult = scanWebsiteSchema.safeParse(req.body);
+
+  if (!validationResult.success) {
+    logger.error(
+      { error: validationResult.error.issues },
+      'Invalid request body for /api/scan-website',
+    );
+    return res.status(400).send({
+      message: 'Invalid request body',
+      errors: validationResult.error.issues,
+    });
+  }
+
+  const {
+    url,
+    axeOptions,
+    viewports,
+    auth,
+    callbackUrl,
+    locale,
+    maxAge,
+    force,
+  } = validationResult.data;
+  const jobId = uuidv4();
+  const apiKey = getApiKey(res);
+
+  if (callbackUrl && !process.env.WEBHOOK_SIGNING_SECRET) {
+    return res.status(400).send({
+      message: 'Scan callbacks are not enabled on this server',
+    });
+  }
+
+  const unsafeUrl = await findUnsafeUrl([
+    { field: 'url', url },
+    { field: 'auth.login.url', url: auth?.login?.url },
+    { field: 'callbackUrl', url: callbackUrl, applyAllowlist: false },
+  ]);
+  if (unsafeUrl) {
+    logger.warn(
+      { submittedUrl: url, ...unsafeUrl },
+      'Rejected scan request for unsafe URL',
+    );
+    return res.status(400).send({
+      message: `URL is not allowed: ${unsafeUrl.reason}`,
+      field: unsafeUrl.field,
+    });
+  }
+
+  if (auth && !scanCredentialsKey) {
+    return res.status(400).send({
+      message: 'Authenticated scanning is not enabled on this server',
+    });
+  }
+  const encryptedAuth =
+    auth && scanCredentialsKey
+      ? encryptScanCredentials(auth, scanCredentialsKey)
+      : undefined;
+
+  // Submissions with credentials or a callback always get a job of their own
+  const normalizedUrl = normalizeScanUrl(url);
+  const reuseKey =
+    force || auth || callbackUrl || !normalizedUrl
+      ? null
+      : buildScanReuseKey(apiKey.id, normalizedUrl, {
+          axeOptions,
+          viewports,
+          locale,
+        });
+  if (reuseKey) {
+    const reusable = await scanReuse.claim(reuseKey, jobId, maxAge);
+    if (reusable) {
+      logger.info(
+        { submittedUrl: url, jobId: reusable.jobId, status: reusable.status },
+        'Reusing identical scan',
+      );
+      if (reusable.status === 'in-flight') {
+        return res.status(202).send({
+          message:
+            'An identical scan is already queued or running. Job ID: ' +
+            reusable.jobId,
+          jobId: reusable.jobId,
+          submittedUrl: url,
+          reused: true,
+        });
+      }
+      return res.status(200).send({
+        message:
+          'A recent identical scan was reused. Job ID: ' + reusable.jobId,
+        jobId: reusable.jobId,
+        submittedUrl: url,
+        reused: true,
+        scanTimestamp: reusable.scanTimestamp,
+      });
+    }
+  }
+
+  let quotaPeriod: string | null;
+  try {
+    quotaPeriod = await consumeScanQuota(pool, apiKey);
+    if (!quotaPeriod) {
+      logger.warn(
+        { apiKeyId: apiKey.id, quota: apiKey.monthlyScanQuota },
+        'Monthly scan quota exceeded',
+      );
+      if (reuseKey) await scanReuse.release(reuseKey, jobId);
+      return res
+        .status(429)
+        .send({ message: 'Monthly scan quota exceeded for this API key' });
+    }
+  } catch (error) {
+    logger.error(
+      { err: error, apiKeyId: apiKey.id },
+      'Failed to record scan quota usage',
+    );
+    if (reuseKey) await scanReuse.release(reuseKey, jobId);
+    return res.status(500).send({
+      message: 'Failed to enqueue scan request. Please try again later.',
+    });
+  }
+
+  try {
+    if (auth && encryptedAuth) {
+      await storeScanCredentials(pool, { jobId }, auth, encryptedAuth);
+    }
+    // Add job to the BullMQ queue
+    await scanQueue.add(
+      'scan-url',
+      {
+        submittedUrl: url,
+        originalJobId: jobId,
+        apiKeyId: apiKey.id,
+        axeOptions,
+        viewports,
+        locale,
+        auth: encryptedAuth,
+        callbackUrl,
+      },
+      { jobId: jobId },
+    );
+    await scanInFlightLimit.track(req, jobId);
+
+    logger.info(
+      { submittedUrl: url, jobId },
+      `Job enqueued successfully in '${SCAN_QUEUE_NAME}'`,
+    );
+
+    res.status(202).send({
+      message: 'Scan request accepted and enqueued. Job ID: ' + jobId,
+      jobId: jobId,
+      submittedUrl: url,
+      reused: false,
+    });
+  } catch (error) {
+    logger.error(
+      { err: error, submittedUrl: url, jobId },
+      `Failed to enqueue job in '${SCAN_QUEUE_NAME}'`,
+    );
+    if (reuseKey) await scanReuse.release(reuseKey, jobId);
+    await releaseScanQuota(pool, apiKey, quotaPeriod).catch((err) =>
+      logger.error({ err, apiKeyId: apiKey.id }, 'Failed to release quota'),
+    );
+    res.status(500).send({
+      message: 'Failed to enqueue scan request. Please try again later.',
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/scan-results/{jobId}:
+ *   get:
+ *     summary: Retrieve scan results
+ *     tags: [Scanning]
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         required: true
+ *         description: The ID of the job to retrieve results for.
+ *       - in: query
+ *         name: types
+ *         schema:
+ *           type: string
+ *           default: violations
+ *         description: Comma-separated axe result types to return - violations, incomplete (needs manual review), passes, inapplicable.
+ *     responses:
+ *       200:
+ *         description: Scan results returned successfully. The structure of a full result is complex and contains one axe-core array per requested result type.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 scan_success:
+ *                   type: boolean
+ *                 # Add other key properties here for documentation clarity
+ *                 page_title:
+ *                   type: string
+ *                 violations:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                 incomplete:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *       400:
+ *         description: Invalid result types.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Scan result not found. The job may still be in progress or the ID is invalid.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+app.get('/api/scan-results/:jobId', async (req: Request, res: Response) => {
+  const { jobId } = req.params;
+
+  if (!jobId) {
+    return res.status(400).send({ message: 'Job ID is required' });
+  }
+
+  const queryResult = scanResultsQuerySchema.safeParse(req.query);
+  if (!queryResult.success) {
+    return res.status(400).send({
+      message: 'Invalid query parameters',
+      errors: queryResult.error.issues,
+    });
+  }
+  const { types } = queryResult.data;
+
+  try {
+    logger.info({ jobId }, 'Fetching scan result for Job ID');
+    const rows = await findScanResultsForKey(jobId, getApiKey(res));
+
+    if (rows.length === 0) {
+      logger.warn({ jobId }, 'Scan result not found for Job ID');
+      return res.status(404).send({ message: 'Scan result not found' });
+    }
+
+    const [result]: ScanResultFromDB[] = await attachViolations(
+      rows.slice(0, 1) as ScanResultFromDB[],
+      types,
+    );
+
+    result.viewport_results = await findViewportResults(result.id);
+
+    logger.info(
+      { jobId, resultId: result.id },
+      'Scan result retrieved successfully',
+    );
+    const { violations, ...response } = withScreenshotUrls(result);
+    res
+      .status(200)
+      .send(
+        types.includes('violations') ? { ...response, violations } : response,
+      );
+  } catch (error) {
+    let errorMessage = 'Failed to fetch scan result';
+    if (error instanceof Error) {
+      errorMessage = error.message;
+    }
+    logger.error(
+      {
+        jobId,
+        error: errorMessage,
+        stack: error instanceof Error ? error.stack : undefined,
+      },
+      'Error fetching scan result from database',
+    );
+    res
+      .status(500)
+      .send({ message: 'Internal server error while fetching scan result' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/scan-results/{jobId}:
+ *   delete:
+ *     summary: Delete a scan, its screenshots and its queued job
+ *     description: Requires the `submit` scope. Keys can only delete scans they created, unless they have the `admin` scope.
+ *     tags: [Scanning]
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         required: true
+ *     responses:
+ *       200:
+ *         description: Scan deleted.
+ *       404:
+ *         description: No job or stored result exists for the ID.
+ *       409:
+ *         description: The scan is still running.
+ */
+app.delete(
+  '/api/scan-results/:jobId',
+  requireScope('submit'),
+  async (req: Request, res: Response) => {
+    const { jobId } = req.params;
+    const apiKey = getApiKey(res);
+
+    try {
+      let job = await scanQueue.getJob(jobId);
+      if (
+        job &&
+        !hasScope(apiKey, 'admin') &&
+        job.data?.apiKeyId !== apiKey.id
+      ) {
+        job = undefined;
+      }
+      // A running scan would write its result after the delete
+      if (job && (await job.getState()) === 'active') {
+        return res.status(409).send({
+          message: 'Scan is still running. Delete it once it has finished.',
+        });
+      }
+
+      const rows = await findScanResultsForKey(jobId, apiKey);
+      if (!job && rows.length === 0) {
+        return res.status(404).send({ message: 'Scan not found' });
+      }
+
+      if (job) await job.remove();
+      const screenshotsDeleted =
+        rows.length > 0
+          ? await deleteScanResults(pool, blobStore, rows, logger)
+          : 0;
+
+      logger.info(
+        {
+          jobId,
+          apiKeyId: apiKey.id,
+          scanResultsDeleted: rows.length,
+          screenshotsDeleted,
+          queueJobRemoved: Boolean(job),
+        },
+        'Scan deleted',
+      );
+      res.status(200).send({
+        jobId,
+        scanResultsDeleted: rows.length,
+        screenshotsDeleted,
+        queueJobRemoved: Boolean(job),
+      });
+    } catch (error) {
+      logger.error(
+        {
+          jobId,
+          error: error instanceof Error ? error.message : String(error),
+          stack: error instanceof Error ? error.stack : undefined,
+        },
+        'Error deleting scan',
+      );
+      res
+        .status(500)
+        .send({ message: 'Internal server error while deleting scan' });
+    }
+  },
+);
+
+/**
+ * @swagger
+ * /api/scan-results/{jobId}/screenshot:
+ *   get:
+ *     summary: Download the page screenshot of a scan
+ *     tags: [Scanning]
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         schema:
  *           type: string
- *           example: Scan request accepted and enqueued. Job ID <uuid>
- *         jobId:
+ *           format: uuid
+ *         required: true
+ *       - in: query
+ *         name: viewport
+ *         schema:
+ *           type: string
+ *           enum: [desktop, tablet, mobile]
+ *         description: Defaults to the scan's main screenshot, taken at its first viewport.
+ *     responses:
+ *       200:
+ *         description: The JPEG screenshot. Cacheable indefinitely.
+ *         content:
+ *           image/jpeg:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       304:
+ *         description: The cached copy is current.
+ *       404:
+ *         description: Scan or screenshot not found.
+ */
+app.get(
+  '/api/scan-results/:jobId/screenshot',
+  async (req: Request, res: Response) => {
+    const { jobId } = req.params;
+    const queryResult = screenshotQuerySchema.safeParse(req.query);
+    if (!queryResult.success) {
+      return res.status(400).send({
+        message: 'Invalid query parameters',
+        errors: queryResult.error.issues,
+      });
+    }
+    const { viewport, element } = queryResult.data;
+
+    try {
+      const rows = await findScanResultsForKey(jobId, getApiKey(res));
+      if (rows.length === 0) {
+        return res.status(404).send({ message: 'Scan result not found' });
+      }
+      let source:
+        | Pick<ScanResultFromDB, 'screenshot_key' | 'page_screenshot'>
+        | undefined = rows[0] as ScanResultFromDB;
+      if (element !== undefined) {
+        source = {
+          screenshot_key: `screenshots/${rows[0].job_id}/${viewport}/elements/${element}.jpg`,
+        };
+      } else if (viewport) {
+        source = (await findViewportResults(rows[0].id)).find(
+          (viewportResult) => viewportResult.viewport === viewport,
+        );
+      }
+      if (!source?.screenshot_key && !source?.page_screenshot) {
+        return res.status(404).send({ message: 'Screenshot not found' });
+      }
+
+      // A scan's screenshots never change
+      res.setHeader('Cache-Control', 'private, max-age=31536000, immutable');
+      if (!source.screenshot_key) {
+        return res
+          .type('image/jpeg')
+          .send(Buffer.from(source.page_screenshot || '', 'base64'));
+      }
+
+      // The object key identifies the content, so it doubles as the ETag
+      res.setHeader('ETag', `"${source.screenshot_key}"`);
+      if (req.fresh) {
+        return res.status(304).end();
+      }
+      const blob = await blobStore.get(source.screenshot_key);
+      if (!blob) {
+        logger.warn(
+          { jobId, key: source.screenshot_key },
+          'Screenshot object missing from blob store',
+        );
+        res.removeHeader('Cache-Control');
+        res.removeHeader('ETag');
+        return res.status(404).send({ message: 'Screenshot not found' });
+      }
+      res.type(blob.contentType).send(blob.body);
+    } catch (error) {
+      logger.error(
+        {
+          jobId,
+          error: error instanceof Error ? error.message : String(error),
+          stack: error instanceof Error ? error.stack : undefined,
+        },
+        'Error fetching screenshot',
+      );
+      res.removeHeader('Cache-Control');
+      res.removeHeader('ETag');
+      res
+        .status(500)
+        .send({ message: 'Internal server error while fetching screenshot' });
+    }
+  },
+);
+
+// Maps a BullMQ job state onto the public scan status enum
+function mapJobStateToScanStatus(
+  state: JobState | 'unknown',
+  returnValue: unknown,
+): ScanStatus | null {
+  switch (state) {
+    case 'waiting':
+    case 'delayed':
+    case 'prioritized':
+    case 'waiting-children':
+      return 'QUEUED';
+    case 'active':
+      return 'RUNNING';
+    case 'completed':
+      // The worker records scan failures as completed jobs with success: false
+      return (returnValue as { success?: boolean } | null)?.success === false
+        ? 'FAILED'
+        : 'COMPLETED';
+    case 'failed':
+      return 'FAILED';
+    default:
+      return null;
+  }
+}
+
+// Returns the 1-based position of a job in the wait list, or null if it is not waiting
+async function getQueuePosition(jobId: string): Promise<number | null> {
+  const waitKey = scanQueue.keys.wait;
+  const index = await connection.lpos(waitKey, jobId);
+  if (index === null) return null;
+  // Jobs are pushed on the left of the list and picked up from the right
+  const length = await connection.llen(waitKey);
+  return length - index;
+}
+
+function toIsoTimestamp(value: number | string | Date | undefined | null) {
+  if (value === undefined || value === null) return null;
+  return new Date(value).toISOString();
+}
+
+/**
+ * @swagger
+ * /api/scan-status/{jobId}:
+ *   get:
+ *     summary: Retrieve the live status of a scan job
+ *     tags: [Scanning]
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         required: true
+ *         description: The ID of the job to retrieve the status for.
+ *     responses:
+ *       200:
+ *         description: Current status of the scan job.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ScanStatusResponse'
+ *       404:
+ *         description: No job or stored result exists for this ID.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+/**
+ * Builds the status of a scan from its BullMQ job, falling back to the
+ * stored result once the job has been removed from Redis. Returns null
+ * when neither exists or the job belongs to another key.
+ */
+async function buildScanStatus(
+  jobId: string,
+  apiKey: AuthenticatedApiKey,
+): Promise<ScanStatusResponse | null> {
+  let job = await scanQueue.getJob(jobId);
+  if (job && !hasScope(apiKey, 'admin') && job.data?.apiKeyId !== apiKey.id) {
+    // Report other keys' jobs as missing rather than revealing they exist
+    job = undefined;
+  }
+  const state = job ? await job.getState() : 'unknown';
+  const status = job ? mapJobStateToScanStatus(state, job.returnvalue) : null;
+
+  let body: ScanStatusResponse;
+  if (job && status) {
+    const progress = scanProgressSchema.safeParse(job.progress);
+    const returnValue = job.returnvalue as { errorMessage?: string } | null;
+    body = {
+      jobId,
+      status,
+      attemptsMade: job.attemptsMade,
+      maxAttempts: job.opts.attempts ?? 1,
+      queuePosition: state === 'waiting' ? await getQueuePosition(jobId) : null,
+      progress: progress.success ? progress.data : null,
+      timestamps: {
+        createdAt: toIsoTimestamp(job.timestamp),
+        startedAt: toIsoTimestamp(job.processedOn),
+        finishedAt: toIsoTimestamp(job.finishedOn),
+      },
+      failedReason:
+        status === 'FAILED'
+          ? job.failedReason || returnValue?.errorMessage || null
+          : null,
+    };
+  } else {
+    // The job may have been removed from Redis; fall back to the stored result
+    const rows = await findScanResultsForKey(jobId, apiKey);
+    if (rows.length === 0) return null;
+    const row = rows[0];
+    body = {
+      jobId,
+      status: row.scan_success ? 'COMPLETED' : 'FAILED',
+      attemptsMade: null,
+      maxAttempts: null,
+      queuePosition: null,
+      progress: null,
+      timestamps: {
+        createdAt: null,
+        startedAt: null,
+        finishedAt: toIsoTimestamp(row.scan_timestamp),
+      },
+      failedReason: row.scan_success ? null : row.error_message || null,
+    };
+  }
+
+  return scanStatusResponseSchema.parse(body);
+}
+
+app.get('/api/scan-status/:jobId', async (req: Request, res: Response) => {
+  const { jobId } = req.params;
+
+  if (!jobId) {
+    return res.status(400).send({ message: 'Job ID is required' });
+  }
+
+  try {
+    const body = await buildScanStatus(jobId, getApiKey(res));
+    if (!body) {
+      logger.warn({ jobId }, 'No job or scan result found for status check');
+      return res.status(404).send({ message: 'Scan job not found' });
+    }
+    res.status(200).send(body);
+  } catch (error) {
+    logger.error(
+      {
+        jobId,
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      },
+      'Error fetching scan status',
+    );
+    res
+      .status(500)
+      .send({ message: 'Internal server error while fetching scan status' });
+  }
+});
+
+// QueueEvents delivers return values serialized; older BullMQ versions pass them parsed
+function parseReturnValue(returnValue: unknown): unknown {
+  if (typeof returnValue !== 'string') return returnValue;
+  try {
+    return JSON.parse(returnValue);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * @swagger
+ * /api/scan-events/{jobId}:
+ *   get:
+ *     summary: Stream the live progress of a scan as Server-Sent Events
+ *     description: Sends a `status` event with the current status, then relays the job's `waiting`, `active`, `progress`, `completed` and `failed` events. The stream ends once the job reaches a final state.
+ *     tags: [Scanning]
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         required: true
+ *     responses:
+ *       200:
+ *         description: A text/event-stream of scan events.
+ *       404:
+ *         description: No job or stored result exists for the ID.
+ */
+app.get('/api/scan-events/:jobId', async (req: Request, res: Response) => {
+  const { jobId } = req.params;
+  const apiKey = getApiKey(res);
+
+  let initialStatus: ScanStatusResponse | null;
+  try {
+    initialStatus = await buildScanStatus(jobId, apiKey);
+  } catch (error) {
+    logger.error(
+      {
+        jobId,
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      },
+      'Error opening scan event stream',
+    );
+    return res
+      .status(500)
+      .send({ message: 'Internal server error while opening event stream' });
+  }
+  if (!initialStatus) {
+    return res.status(404).send({ message: 'Scan job not found' });
+  }
+
+  const stream = openEventStream(req, res);
+  const isFinal = (status: ScanStatus) =>
+    status === 'COMPLETED' || status === 'FAILED';
+
+  // Listeners are attached before the snapshot is re-read so no event falls in between
+  const listeners = {
+    waiting: (args: { jobId: string }) => {
+      if (args.jobId === jobId) stream.send('waiting', { jobId });
+    },
+    active: (args: { jobId: string }) => {
+      if (args.jobId === jobId) stream.send('active', { jobId });
+    },
+    progress: (args: { jobId: string; data: unknown }) => {
+      if (args.jobId !== jobId) return;
+      const progress = scanProgressSchema.safeParse(args.data);
+      stream.send('progress', {
+        jobId,
+        progress: progress.success ? progress.data : null,
+      });
+    },
+    completed: (args: { jobId: string; returnvalue: unknown }) => {
+      if (args.jobId !== jobId) return;
+      const returnValue = parseReturnValue(args.returnvalue) as {
+        success?: boolean;
+        errorMessage?: string;
+      } | null;
+      const status = mapJobStateToScanStatus('completed', returnValue);
+      stream.send('completed', {
+        jobId,
+        status,
+        failedReason:
+          status === 'FAILED' ? returnValue?.errorMessage || null : null,
+      });
+      stream.close();
+    },
+    failed: (args: { jobId: string; failedReason: string }) => {
+      if (args.jobId !== jobId) return;
+      // A failed attempt may still be retried; only a job in the failed state is final
+      scanQueue
+        .getJobState(jobId)
+        .then((state) => {
+          const final = state === 'failed';
+          stream.send('failed', {
+            jobId,
+            failedReason: args.failedReason,
+            final,
+          });
+          if (final) stream.close();
+        })
+        .catch((err) =>
+          logger.error({ jobId, err }, 'Failed to read job state for stream'),
+        );
+    },
+  };
+
+  scanQueueEvents.on('waiting', listeners.waiting);
+  scanQueueEvents.on('active', listeners.active);
+  scanQueueEvents.on('progress', listeners.progress);
+  scanQueueEvents.on('completed', listeners.completed);
+  scanQueueEvents.on('failed', listeners.failed);
+  stream.onClose(() => {
+    scanQueueEvents.off('waiting', listeners.waiting);
+    scanQueueEvents.off('active', listeners.active);
+    scanQueueEvents.off('progress', listeners.progress);
+    scanQueueEvents.off('completed', listeners.completed);
+    scanQueueEvents.off('failed', listeners.failed);
+    logger.debug({ jobId }, 'Scan event stream closed');
+  });
+
+  try {
+    const status = (await buildScanStatus(jobId, apiKey)) ?? initialStatus;
+    stream.send('status', status);
+    if (isFinal(status.status)) stream.close();
+  } catch (error) {
+    logger.error(
+      { jobId, error: error instanceof Error ? error.message : String(error) },
+      'Error sending initial scan status on event stream',
+    );
+    stream.send('status', initialStatus);
+    if (isFinal(initialStatus.status)) stream.close();
+  }
+});
+
+// Endpoint to submit a URL for scanning
+app.post('/api/submit-url', (req: Request, res: Response) => {
+  try {
+    // Validate request body
+    const validatedData = SubmitUrlSchema.parse(req.body);
+    const { url } = validatedData;
+
+    logger.info({ submittedUrl: url }, 'Received URL for scanning');
+
+    // TODO: Add URL to Redis queue for the worker (Task 3.2)
+
+    res.status(200).send({ message: 'URL received successfully', url });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      logger.error(
+        { error: error.issues },
+        'Invalid request body for URL submission',
+      );
+      return res
+        .status(400)
+        .send({ message: 'Invalid request body', errors: error.issues });
+    }
+    logger.error({ errorDetails: error }, 'Error processing URL submission');
+    res.status(500).send({ message: 'Internal server error' });
+  }
+});
+
+// Describes the standard and scope a scan was tested against, one line per setting
+function describeAxeOptionsReport(
+  axeOptions: StoredAxeOptions | null | undefined,
+  messages: ReportMessages,
+): string[] {
+  const text = messages.standard;
+  if (!axeOptions) return [text.defaultRules];
+  const lines: string[] = [];
+  const runOnly = axeOptions.options?.runOnly;
+  if (runOnly?.type === 'tag') {
+    lines.push(
+      formatMessage(text.tagsTested, { values: runOnly.values.join(', ') }),
+    );
+  } else if (runOnly?.type === 'rule') {
+    lines.push(
+      formatMessage(text.rulesTested, { values: runOnly.values.join(', ') }),
+    );
+  } else {
+    lines.push(text.allRules);
+  }
+  const disabledRules = Object.entries(axeOptions.options?.rules || {})
+    .filter(([, rule]) => !rule.enabled)
+    .map(([ruleId]) => ruleId);
+  if (disabledRules.length > 0) {
+    lines.push(
+      formatMessage(text.rulesDisabled, { values: disabledRules.join(', ') }),
+    );
+  }
+  if (axeOptions.context?.include?.length) {
+    lines.push(
+      formatMessage(text.includedRegions, {
+        values: axeOptions.context.include.join(', '),
+      }),
+    );
+  }
+  if (axeOptions.context?.exclude?.length) {
+    lines.push(
+      formatMessage(text.excludedRegions, {
+        values: axeOptions.context.exclude.join(', '),
+      }),
+    );
+  }
+  if (axeOptions.axeVersion) {
+    lines.push(
+      formatMessage(text.axeVersion, { version: axeOptions.axeVersion }),
+    );
+  }
+  if (axeOptions.locale) {
+    lines.push(formatMessage(text.ruleLanguage, { locale: axeOptions.locale }));
+  }
+  return lines;
+}
+
+// Function to generate HTML for the PDF report
+function generateReportHtml(
+  dbResult: ScanResultFromDB,
+  changes: ScanComparison | null | undefined,
+  localeOptions: ReportLocaleOptions,
+): string {
+  const { locale } = localeOptions;
+  const messages = getReportMessages(locale);
+
+  // Escape HTML characters
+  const escapeHtml = (unsafe: string | undefined | null): string => {
+    if (unsafe === null || typeof unsafe === 'undefined') return '';
+    return unsafe
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#039;');
+  };
+
+  // Prepare UI data based on dbResult
+  const axeViolations = dbResult.violations || [];
+  const needsReview = dbResult.incomplete || [];
+  // The score the worker stored, as every other endpoint reports it; scans
+  // not yet recomputed have none, so theirs is worked out here
+  const storedScore = readStoredScore(dbResult);
+  const needsReviewCount = storedScore.needsReviewCount ?? needsReview.length;
+  let accessibilityScore: number;
+  let healthLevel: HealthLevel;
+  if (storedScore.score !== null && storedScore.healthLevel !== null) {
+    accessibilityScore = storedScore.score;
+    healthLevel = storedScore.healthLevel;
+  } else {
+    const violationCounts = countViolationsByImpact(axeViolations);
+    accessibilityScore = calculateAccessibilityScore(violationCounts);
+    healthLevel = calculatePageHealth(
+      violationCounts,
+      accessibilityScore,
+      needsReviewCount,
+    ).level;
+  }
+  const pageHealthStatus = describePageHealth(
+    locale,
+    healthLevel,
+    needsReviewCount,
+  );
+  const impactLabel = (impact: string | null | undefined): string =>
+    impact && impact in messages.impacts
+      ? messages.impacts[impact as keyof ReportMessages['impacts']]
+      : impact || messages.notAvailable;
+  // What to fix on an element, from its check messages: axe's failureSummary
+  // joins the same messages under sentences in the rule language
+  const fixGroups = (node: AxeNode) =>
+    [
+      {
+        label: messages.violations.fixAll,
+        checks: [...(node.all || []), ...(node.none || [])],
+      },
+      { label: messages.violations.fixAny, checks: node.any || [] },
+    ].filter((group) => group.checks.length > 0);
+  const hasFixList = (node: AxeNode): boolean =>
+    fixGroups(node).length > 0 || Boolean(node.failureSummary);
+  const fixListHtml = (node: AxeNode): string => {
+    const groups = fixGroups(node);
+    // Elements saved without their checks only have the summary
+    if (groups.length === 0) {
+      return `<p>${escapeHtml(node.failureSummary)}</p>`;
+    }
+    return groups
+      .map(
+        (group) =>
+          `${groups.length > 1 ? `<p>${escapeHtml(group.label)}</p>` : ''}<ul class="fix-list">${group.checks
+            .map((check) => `<li>${escapeHtml(check.message)}</li>`)
+            .join('')}</ul>`,
+      )
+      .join('');
+  };
+  const totalViolations = axeViolations.reduce(
+    (sum: number, v: AxeViolation) => sum + (v.nodes?.length || 0),
+    0,
+  );
+  const pageScreenshotBase64 = dbResult.page_screenshot;
+  const viewportResults = dbResult.viewport_results || [];
+
+  // Elements measured at the first viewport are numbered and outlined on the main screenshot
+  const primaryViewport = viewportResults[0]?.viewport;
+  const elementNumbers = new Map<AxeNode, number>();
+  axeViolations.forEach((violation) =>
+    (violation.nodes || []).forEach((node) => {
+      if (
+        node.boundingBox &&
+        (!primaryViewport || node.boundingBox.viewport === primaryViewport)
+      ) {
+        elementNumbers.set(node, elementNumbers.size + 1);
+      }
+    }),
+  );
+  const screenshotWidth = dbResult.screenshot_width;
+  const screenshotHeight = dbResult.screenshot_height;
+  const elementOutlinesHtml =
+    screenshotWidth && screenshotHeight
+      ? Array.from(elementNumbers.entries())
+          .map(([node, number]) => {
+            const box = node.boundingBox;
+            if (!box) return '';
+            const percent = (value: number, total: number) =>
+              `${((value / total) * 100).toFixed(2)}%`;
+            return `<span class="element-outline" style="left: ${percent(box.x, screenshotWidth)}; top: ${percent(box.y, screenshotHeight)}; width: ${percent(box.width, screenshotWidth)}; height: ${percent(box.height, screenshotHeight)};"><span class="element-label">${number}</span></span>`;
+          })
+          .join('')
+      : '';
+
+  const violationsHtml =
+    axeViolations && axeViolations.length > 0
+      ? axeViolations
+          .map(
+            (violation: AxeViolation) => `
+      <div class="violation-item impact-${violation.impact || 'unknown'}">
+        <h3>${escapeHtml(violation.id)}</h3>
+        <div class="violation-meta">
+          <span class="impact">${escapeHtml(formatMessage(messages.violations.impact, { impact: impactLabel(violation.impact) }))}</span>
+          ${violation.viewportSpecific && violation.viewports ? `<span class="viewports">${escapeHtml(formatMessage(messages.violations.onlyAt, { viewports: violation.viewports.join(', ') }))}</span>` : ''}
+          ${violation.tags && violation.tags.length > 0 ? `<span class="tags">${escapeHtml(formatMessage(messages.violations.tags, { tags: violation.tags.join(', ') }))}</span>` : ''}
+        </div>
+        <p class="description">${escapeHtml(violation.description)}</p>
+        <p class="help"><a href="${escapeHtml(violation.helpUrl)}" target="_blank" rel="noopener noreferrer">${escapeHtml(formatMessage(messages.violations.learnMore, { help: violation.help }))}</a></p>
+
+        ${
+          violation.nodes && violation.nodes.length > 0
+            ? `
+          <h4>${escapeHtml(formatMessage(messages.violations.affectedElements, { count: violation.nodes.length }))}</h4>
+          <ul class="nodes-list">
+            ${violation.nodes
+              .map(
+                (node: AxeNode, index: number) => `
+              <li class="node-item">
+                <p class="node-heading"><strong>${escapeHtml(formatMessage(messages.violations.element, { number: index + 1 }))}</strong>${elementNumbers.has(node) ? ` <span class="element-number">${escapeHtml(formatMessage(messages.violations.onScreenshot, { number: elementNumbers.get(node) ?? '' }))}</span>` : ''}${node.viewportSpecific && node.viewports ? ` <span class="viewports">${escapeHtml(formatMessage(messages.violations.onlyAtElement, { viewports: node.viewports.join(', ') }))}</span>` : ''}</p>
+                ${node.target && node.target.length > 0 ? `<p class="target-selector"><strong>${escapeHtml(messages.violations.selector)}</strong> <code>${escapeHtml(node.target.join(', '))}</code></p>` : ''}
+                <p class="html-snippet-label"><strong>${escapeHtml(messages.violations.htmlSnippet)}</strong></p>
+                <div class="node-snippet">
+                  <pre class="html-snippet"><code>${escapeHtml(node.html)}</code></pre>
+                  ${node.elementScreenshot ? `<img class="element-crop" src="data:image/jpeg;base64,${node.elementScreenshot}" alt="${escapeHtml(formatMessage(messages.violations.elementAlt, { number: index + 1 }))}" />` : ''}
+                </div>
+                ${
+                  hasFixList(node)
+                    ? `
+                  <div class="failure-summary">
+                     <p><strong>${escapeHtml(messages.violations.failureSummary)}</strong></p>
+                     ${fixListHtml(node)}
+                  </div>`
+                    : ''
+                }
+                ${
+                  (node.any && node.any.length > 0) ||
+                  (node.all && node.all.length > 0)
+                    ? `
+                  <div class="specific-checks">
+                    <p><strong>${escapeHtml(messages.violations.specificChecks)}</strong></p>
+                    <ul>
+                      ${[...(node.any || []), ...(node.all || [])]
+                        .map(
+                          (check: AxeCheck) => `
+                        <li>
+                          <p><strong>${escapeHtml(check.id)} (${escapeHtml(impactLabel(check.impact))}):</strong> ${escapeHtml(check.message)}</p>
+                          ${check.data ? `<p class="check-data">${escapeHtml(formatMessage(messages.violations.checkData, { data: JSON.stringify(check.data) }))}</p>` : ''}
+                        </li>
+                      `,
+                        )
+                        .join('')}
+                    </ul>
+                  </div>`
+                    : ''
+                }
+              </li>
+            `,
+              )
+              .join('')}
+          </ul>
+        `
+            : ''
+        }
+      </div>
+    `,
+          )
+          .join('')
+      : `<p>${escapeHtml(messages.violations.none)}</p>`;
+
+  // Incomplete results: axe found the elements but could not decide whether they pass
+  const needsReviewHtml =
+    needsReview.length > 0
+      ? needsReview
+          .map(
+            (item: AxeViolation) => `
+      <div class="violation-item review-item impact-${item.impact || 'unknown'}">
+        <h3>${escapeHtml(item.id)}</h3>
+        <div class="violation-meta">
+          <span class="impact">${escapeHtml(formatMessage(messages.violations.impact, { impact: impactLabel(item.impact) }))}</span>
+          ${item.viewportSpecific && item.viewports ? `<span class="viewports">${escapeHtml(formatMessage(messages.violations.onlyAt, { viewports: item.viewports.join(', ') }))}</span>` : ''}
+        </div>
+        <p class="description">${escapeHtml(item.description)}</p>
+        <p class="help"><a href="${escapeHtml(item.helpUrl)}" target="_blank" rel="noopener noreferrer">${escapeHtml(formatMessage(messages.violations.learnMore, { help: item.help }))}</a></p>
+        <h4>${escapeHtml(formatMessage(messages.review.elementsToReview, { count: item.nodes?.length || 0 }))}</h4>
+        <ul class="nodes-list">
+          ${(item.nodes || [])
+            .map(
+              (node: AxeNode) => `
+          <li class="node-item">
+            ${node.target && node.target.length > 0 ? `<p class="target-selector"><strong>${escapeHtml(messages.violations.selector)}</strong> <code>${escapeHtml(node.target.join(', '))}</code></p>` : ''}
+            <pre class="html-snippet"><code>${escapeHtml(node.html)}</code></pre>
+            ${hasFixList(node) ? `<div class="review-summary">${fixListHtml(node)}</div>` : ''}
+          </li>`,
+            )
+            .join('')}
+        </ul>
+      </div>`,
+          )
+          .join('')
+      : `<p>${escapeHtml(messages.review.none)}</p>`;
+
+  const changeListHtml = (
+    violations: ScanComparison['newViolations'],
+    emptyText: string,
+  ) =>
+    violations.length > 0
+      ? `<ul class="changes-list">
+            ${violations
+              .map(
+                (violation) => `
+            <li class="change-item impact-${violation.impact || 'unknown'}">
+              <strong>${escapeHtml(violation.id)}</strong> (${escapeHtml(impactLabel(violation.impact))}): ${escapeHtml(violation.help)}
+              <ul>
+                ${violation.nodes.map((node) => `<li><code>${escapeHtml((node.target || []).join(', '))}</code></li>`).join('')}
+              </ul>
+            </li>`,
+              )
+              .join('')}
+          </ul>`
+      : `<p>${escapeHtml(emptyText)}</p>`;
+
+  const changesHtml = changes
+    ? `
+        <section class="changes-section">
+          <h2>${escapeHtml(messages.changes.heading)}</h2>
+          <p>${escapeHtml(
+            changes.base.score === null
+              ? formatMessage(messages.changes.comparedWithUnscored, {
+                  date: formatReportDate(
+                    changes.base.scanTimestamp,
+                    localeOptions,
+                  ),
+                })
+              : formatMessage(messages.changes.comparedWith, {
+                  date: formatReportDate(
+                    changes.base.scanTimestamp,
+                    localeOptions,
+                  ),
+                  score: changes.base.score,
+                }),
+          )}</p>
+          <ul class="changes-summary">
+            ${changes.scoreChange === null ? '' : `<li>${escapeHtml(formatMessage(messages.changes.scoreChange, { change: `${changes.scoreChange > 0 ? '+' : ''}${changes.scoreChange}` }))}</li>`}
+            <li>${escapeHtml(formatMessage(messages.changes.newIssues, { count: changes.summary.newNodes }))}</li>
+            <li>${escapeHtml(formatMessage(messages.changes.fixedIssues, { count: changes.summary.fixedNodes }))}</li>
+            <li>${escapeHtml(formatMessage(messages.changes.unchangedIssues, { count: changes.summary.unchangedNodes }))}</li>
+          </ul>
+          <h3>${escapeHtml(messages.changes.newHeading)}</h3>
+          ${changeListHtml(changes.newViolations, messages.changes.noNewIssues)}
+          <h3>${escapeHtml(messages.changes.fixedHeading)}</h3>
+          ${changeListHtml(changes.fixedViolations, messages.changes.noFixedIssues)}
+        </section>
+        `
+    : '';
+
+  return `
+    <!DOCTYPE html>
+    <html lang="${locale}">
+    <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>${escapeHtml(messages.title)}</title>
+      <style>
+        body { font-family: Arial, sans-serif; margin: 20px; }
+        h1, h2, h3, h4 { color: #333; }
+        .violation-item { border: 1px solid #ccc; padding: 10px; margin-bottom: 10px; page-break-inside: avoid; }
+        .impact-critical { border-left: 5px solid red; }
+        .impact-serious { border-left: 5px solid orange; }
+        .impact-moderate { border-left: 5px solid gold; }
+        .impact-minor { border-left: 5px solid lightblue; }
+        .html-snippet { background-color: #f0f0f0; padding: 5px; overflow-x: auto; white-space: pre-wrap; word-break: break-all; }
+        .viewports { font-style: italic; color: #6a1b9a; margin-left: 5px; }
+        .change-item { padding-left: 8px; margin-bottom: 6px; }
+        .annotated-screenshot { position: relative; display: inline-block; width: 100%; max-width: 600px; margin-top: 10px; }
+        .annotated-screenshot img { display: block; width: 100%; height: auto; border: 1px solid #ccc; }
+        .element-outline { position: absolute; box-sizing: border-box; border: 2px solid #d32f2f; }
+        .element-label { position: absolute; top: -2px; left: -2px; background-color: #d32f2f; color: #fff; font-size: 10px; font-weight: bold; padding: 0 3px; }
+        .element-number { color: #d32f2f; }
+        .node-snippet { display: flex; gap: 10px; align-items: flex-start; }
+        .node-snippet .html-snippet { flex: 1; margin: 0; }
+        .element-crop { max-width: 200px; max-height: 150px; border: 2px solid #d32f2f; }
+        .review-item { border-style: dashed; }
+        .review-summary { white-space: pre-wrap; }
+        /* Most styles commented out for debugging PDF corruption */
+        /*
+        body { font-family: Arial, sans-serif; color: #333; line-height: 1.6; margin: 0; padding: 0; }
+        .scan-report-pdf { width: 100%; max-width: 210mm; margin: 0 auto; padding: 15mm; box-sizing: border-box; }
+        header h1 { font-size: 28px; color: #1a237e; margin-bottom: 10px; text-align: center; border-bottom: 2px solid #3949ab; padding-bottom: 10px; }
+        .meta-info { font-size: 12px; margin-bottom: 20px; text-align: center; }
+        .meta-info p { margin: 2px 0; }
+        .summary-section h2, .violations-section h2 { font-size: 20px; color: #283593; margin-top: 30px; margin-bottom: 15px; border-bottom: 1px solid #c5cae9; padding-bottom: 5px; }
+        .summary-grid { display: grid; grid-template-columns: 1fr 1fr 1fr; gap: 20px; margin-bottom: 20px; padding: 15px; background-color: #f3f4f6; border-radius: 8px; }
+        .summary-grid > div { text-align: center; padding: 10px; box-sizing: border-box; }
+        .summary-grid .label { font-size: 12px; font-weight: bold; color: #555; margin-bottom: 5px; }
+        .summary-grid .value { font-size: 24px; font-weight: bold; }
+        .summary-grid .description { font-size: 11px; color: #666; }
+        .score-low, .health-critical-issues { color: #d32f2f; }
+        .score-medium, .health-serious-concerns { color: #f57c00; }
+        .health-needs-improvement { color: #fbc02d; }
+        .score-high, .health-good-shape { color: #388e3c; }
+        .violation-item { margin-bottom: 20px; padding: 15px; border: 1px solid #e0e0e0; border-radius: 6px; background-color: #fff; page-break-inside: avoid; }
+        .violation-item h3 { font-size: 16px; color: #3f51b5; margin-top: 0; margin-bottom: 8px; word-break: break-all; }
+        .violation-meta { font-size: 11px; margin-bottom: 8px; color: #424242; }
+        .violation-meta .impact { font-weight: bold; padding: 2px 6px; border-radius: 4px; color: white; display: inline-block; margin-right: 5px; }
+        .impact-critical { background-color: #c62828; }
+        .impact-serious { background-color: #ef6c00; }
+        .impact-moderate { background-color: #f9a825; }
+        .impact-minor { background-color: #1565c0; }
+        .impact-unknown { background-color: #616161; }
+        .violation-meta .tags { font-style: italic; }
+        .violation-item .description { font-size: 13px; margin-bottom: 8px; }
+        .violation-item .help a { font-size: 12px; color: #1976d2; text-decoration: none; word-break: break-all; }
+        .violation-item .help a:hover { text-decoration: underline; }
+        .violation-item h4 { font-size: 14px; color: #455a64; margin-top: 15px; margin-bottom: 5px; }
+        .nodes-list { list-style-type: none; padding-left: 0; }
+        .node-item { background-color: #fafafa; padding: 10px; margin-bottom: 10px; border-radius: 4px; border: 1px solid #eeeeee; font-size: 12px; }
+        .node-heading { margin-top: 0; margin-bottom: 5px; }
+        .target-selector { margin-bottom: 5px; }
+        .target-selector code { background-color: #e8eaf6; padding: 2px 4px; border-radius: 3px; font-family: 'Courier New', Courier, monospace; word-break: break-all; }
+        .html-snippet-label { margin-bottom: 3px; }
+        .html-snippet { background-color: #263238; color: #eceff1; padding: 8px; border-radius: 4px; overflow-x: auto; font-size: 11px; white-space: pre-wrap; word-break: break-all; }
+        .failure-summary { background-color: #ffebee; border: 1px solid #ffcdd2; padding: 8px; margin-top: 8px; margin-bottom: 8px; border-radius: 4px; font-size: 12px; }
+        .failure-summary p { margin: 3px 0; }
+        .fix-list { margin: 3px 0; padding-left: 20px; }
+        .specific-checks { margin-top: 8px; }
+        .specific-checks ul { list-style-type: disc; padding-left: 20px; font-size: 11px; }
+        .specific-checks li { margin-bottom: 4px; }
+        .check-data { font-style: italic; color: #757575; padding-left: 10px; font-size: 10px; word-break: break-all; }
+        footer { margin-top: 40px; text-align: center; font-size: 10px; color: #777; border-top: 1px solid #e0e0e0; padding-top: 10px; }
+        */
+      </style>
+    </head>
+    <body>
+      <div class="scan-report-pdf">
+        <header>
+          <h1>${escapeHtml(messages.title)}</h1>
+          <div class="meta-info">
+            <p><strong>${escapeHtml(messages.meta.scannedUrl)}</strong> ${escapeHtml(dbResult?.actual_url || dbResult?.submitted_url)}</p>
+            <p><strong>${escapeHtml(messages.meta.pageTitle)}</strong> ${escapeHtml(dbResult?.page_title)}</p>
+            <p><strong>${escapeHtml(messages.meta.scanDate)}</strong> ${escapeHtml(formatReportDate(dbResult?.scan_timestamp, localeOptions))}</p>
+            <p><strong>${escapeHtml(messages.meta.standard)}</strong> ${describeAxeOptionsReport(dbResult?.axe_options, messages).map(escapeHtml).join('<br>')}</p>
+          </div>
+        </header>
+        <section class="summary-section">
+          <h2>${escapeHtml(messages.summary.heading)}</h2>
+          <div class="summary-grid">
+            <div>
+              <p class="label">${escapeHtml(messages.summary.score)}</p>
+              <p class="value score-${accessibilityScore < 50 ? 'low' : accessibilityScore < 75 ? 'medium' : 'high'}">
+                ${accessibilityScore}%
+              </p>
+            </div>
+            <div>
+              <p class="label">${escapeHtml(messages.summary.pageHealth)}</p>
+              <p class="value health-${pageHealthStatus?.level.toLowerCase().replace(/\s+/g, '-') || 'unknown'}">
+                ${escapeHtml(pageHealthStatus?.label)}
+              </p>
+              <p class="description">${escapeHtml(pageHealthStatus?.description)}</p>
+            </div>
+            <div>
+              <p class="label">${escapeHtml(messages.summary.totalViolations)}</p>
+              <p class="value">${totalViolations}</p>
+            </div>
+            <div>
+              <p class="label">${escapeHtml(messages.summary.checksNeedingReview)}</p>
+              <p class="value">${needsReview.length}</p>
+            </div>
+          </div>
+        </section>
+        ${changesHtml}
+        ${
+          pageScreenshotBase64
+            ? `
+        <section class="screenshot-section">
+          <h2>${escapeHtml(messages.screenshot.heading)}</h2>
+          ${
+            elementOutlinesHtml
+              ? `<p>${escapeHtml(messages.screenshot.outlinesNote)}</p>
+          <div class="annotated-screenshot">
+            <img src="data:image/jpeg;base64,${pageScreenshotBase64}" alt="${escapeHtml(messages.screenshot.outlinedAlt)}" />
+            ${elementOutlinesHtml}
+          </div>`
+              : `<img src="data:image/jpeg;base64,${pageScreenshotBase64}" alt="${escapeHtml(messages.screenshot.alt)}" style="width: 100%; max-width: 600px; height: auto; border: 1px solid #ccc; margin-top: 10px;" />`
+          }
+        </section>
+        `
+            : ''
+        }
+        ${
+          viewportResults.length > 1
+            ? `
+        <section class="viewports-section">
+          <h2>${escapeHtml(messages.viewports.heading)}</h2>
+          ${viewportResults
+            .map(
+              (viewportResult) => `
+          <div class="viewport-item">
+            <h3>${escapeHtml(viewportResult.viewport)} (${viewportResult.viewport_width}&times;${viewportResult.viewport_height})</h3>
+            <p>${escapeHtml(formatMessage(messages.viewports.violationsAtViewport, { count: (viewportResult.violations || []).reduce((sum, v) => sum + (v.nodes?.length || 0), 0) }))}</p>
+            ${viewportResult.page_screenshot ? `<img src="data:image/jpeg;base64,${viewportResult.page_screenshot}" alt="${escapeHtml(formatMessage(messages.viewports.alt, { viewport: viewportResult.viewport }))}" style="max-width: 300px; height: auto; border: 1px solid #ccc;" />` : ''}
+          </div>`,
+            )
+            .join('')}
+        </section>
+        `
+            : ''
+        }
+        <section class="violations-section">
+          <h2>${escapeHtml(messages.violations.heading)}</h2>
+          ${violationsHtml}
+        </section>
+        <section class="review-section">
+          <h2>${escapeHtml(messages.review.heading)}</h2>
+          <p>${escapeHtml(messages.review.intro)}</p>
+          ${needsReviewHtml}
+        </section>
+        <footer>
+          <p>${escapeHtml(formatMessage(messages.footer, { year: new Date().getFullYear() }))}</p>
+        </footer>
+      </div>
+    </body>
+    </html>
+  `;
+}
+
+// Loads everything the report shows and renders it; the changes section compares with the latest earlier scan `owner` can see
+async function buildReportHtml(
+  row: ScanResultFromDB,
+  owner: { isAdmin: boolean; apiKeyId: number | null },
+  localeOptions: ReportLocaleOptions,
+): Promise<string> {
+  const [scanResult] = await attachViolations(
+    [row],
+    ['violations', 'incomplete'],
+  );
+  scanResult.viewport_results = await findViewportResults(scanResult.id);
+  const dbResult = await loadReportScreenshots(scanResult);
+
+  if (!dbResult.scan_success) {
+    logger.warn(
+      { jobId: dbResult.job_id },
+      'Scan was not successful or is still in progress. HTML report might be incomplete or erroneous.',
+    );
+  }
+
+  const previousScan = dbResult.scan_success
+    ? await findPreviousScan(dbResult, owner)
+    : null;
+
+  logger.info({ jobId: dbResult.job_id }, 'Generating HTML for report');
+  return generateReportHtml(
+    dbResult,
+    previousScan ? compareScans(previousScan, dbResult) : null,
+    localeOptions,
+  );
+}
+
+// Sends the scans as CSV, as an XLSX workbook with summary and per-rule sheets, or as JUnit XML
+async function sendScanExport(
+  res: Response,
+  rows: ScanResultFromDB[],
+  format: 'csv' | 'xlsx' | 'junit',
+  filename: string,
+): Promise<void> {
+  const scans = await attachViolations(
+    rows,
+    format === 'junit'
+      ? ['violations', 'incomplete', 'passes']
+      : ['violations'],
+  );
+  if (format === 'junit') {
+    res.setHeader('Content-Type', 'application/xml; charset=utf-8');
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${filename}.xml"`,
+    );
+    res.send(
+      buildJUnitXml(
+        scans.map((scan) => ({
+          jobId: scan.job_id ?? '',
+          url: scan.actual_url || scan.submitted_url,
+          scanTimestamp: scan.scan_timestamp,
+          scanSuccess: Boolean(scan.scan_success),
+          errorMessage: scan.error_message,
+          storedScore: readStoredScore(scan),
+          violations: scan.violations,
+          incomplete: scan.incomplete ?? [],
+          passes: scan.passes ?? [],
+        })),
+      ),
+    );
+    return;
+  }
+
+  const exportScans = scans.map(
+    (scan): ViolationExportScan => ({
+      jobId: scan.job_id ?? '',
+      url: scan.actual_url || scan.submitted_url,
+      scanTimestamp: scan.scan_timestamp,
+      scanSuccess: Boolean(scan.scan_success),
+      storedScore: readStoredScore(scan),
+      violations: scan.violations,
+    }),
+  );
+  if (format === 'csv') {
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${filename}.csv"`,
+    );
+    res.send(buildViolationsCsv(exportScans));
+    return;
+  }
+  res.setHeader(
+    'Content-Type',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  );
+  res.setHeader(
+    'Content-Disposition',
+    `attachment; filename="${filename}.xlsx"`,
+  );
+  res.send(await buildViolationsXlsx(exportScans));
+}
+
+/**
+ * @swagger
+ * /api/export-report/{jobId}:
+ *   get:
+ *     summary: Export the scan report as HTML, PDF, SARIF, CSV, XLSX or JUnit XML
+ *     tags: [Scanning]
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         schema:
  *           type: string
  *           format: uuid
- *           example: 123e4567-e89b-12d3-a456-426614174000
- *         submittedUrl:
+ *         required: true
+ *       - in: query
+ *         name: format
+ *         schema:
  *           type: string
- *           format: uri
- *           example: https://www.google.com
- *     ErrorResponse:
- *       type: object
- *       properties:
- *         message:
+ *           enum: [html, pdf, sarif, csv, xlsx, junit]
+ *           default: html
+ *         description: pdf is printed by the worker with a cover page, contents, page numbers and the URL and scan date on every page. It is cached per scan, locale and time zone. sarif is a SARIF 2.1.0 log for code scanning tools, with one result per failing element. csv, xlsx and junit are as in GET /api/export-violations.
+ *       - in: query
+ *         name: locale
+ *         schema:
+ *           $ref: '#/components/schemas/Locale'
+ *         description: Language of the HTML or PDF report. Defaults to the scan's locale. Rule texts stay in the language the scan was run in.
+ *       - in: query
+ *         name: timeZone
+ *         schema:
  *           type: string
- *           example: Invalid URL format
+ *           default: UTC
+ *         description: IANA time zone for the dates in the HTML or PDF report, e.g. Europe/Berlin.
+ *     responses:
+ *       200:
+ *         description: The report.
+ *         content:
+ *           text/html:
+ *             schema:
+ *               type: string
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *           application/sarif+json:
+ *             schema:
+ *               type: object
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *           application/vnd.openxmlformats-officedocument.spreadsheetml.sheet:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *           application/xml:
+ *             schema:
+ *               type: string
+ *       202:
+ *         description: The PDF is still being rendered. Repeat the request after Retry-After seconds.
+ *       404:
+ *         description: Scan result not found.
+ *       409:
+ *         description: SARIF was requested for a scan that did not succeed.
  */
+app.get('/api/export-report/:jobId', async (req: Request, res: Response) => {
+  const { jobId } = req.params;
+  const queryResult = exportReportQuerySchema.safeParse(req.query);
+  if (!queryResult.success) {
+    return res.status(400).send({
+      message: 'Invalid query parameters',
+      errors: queryResult.error.issues,
+    });
+  }
+  const { format, locale, timeZone } = queryResult.data;
+  logger.info(
+    { jobId, format, locale, timeZone },
+    'Received request to export report',
+  );
 
-// BullMQ Queue setup
-const SCAN_QUEUE_NAME = 'scan-jobs';
+  if (!jobId) {
+    return res.status(400).send({ message: 'Job ID is required' });
+  }
 
-if (!process.env.REDIS_URL) {
-  logger.error('FATAL: REDIS_URL environment variable is not set.');
-  process.exit(1);
-}
-const connection = new IORedis(process.env.REDIS_URL + '?family=0', {
-  maxRetriesPerRequest: null,
-});
+  try {
+    const apiKey = getApiKey(res);
+    const rows = await findScanResultsForKey(jobId, apiKey);
 
-const scanQueue = new Queue(SCAN_QUEUE_NAME, {
-  connection,
-  defaultJobOptions: {
-    attempts: 3,
-    backoff: {
-      type: 'exponential',
-      delay: 1000,
-    },
-  },
-});
+    if (rows.length === 0) {
+      logger.warn({ jobId }, 'Scan result not found for Job ID for export');
+      return res.status(404).send({ message: 'Scan result not found' });
+    }
+    const row = rows[0] as ScanResultFromDB;
 
-logger.info(`BullMQ queue '${SCAN_QUEUE_NAME}' initialized.`);
+    if (format === 'csv' || format === 'xlsx' || format === 'junit') {
+      await sendScanExport(
+        res,
+        [row],
+        format,
+        `accessibility-violations-${jobId}`,
+      );
+      logger.info({ jobId, format }, 'Violation export sent successfully');
+      return;
+    }
 
-// PostgreSQL Connection Pool
-if (!process.env.DATABASE_URL) {
-  logger.error('FATAL: DATABASE_URL environment variable is not set.');
-  process.exit(1);
-}
-const pool = new Pool({
-  connectionString: process.env.DATABASE_URL,
-});
+    if (format === 'sarif') {
+      if (!row.scan_success) {
+        return res
+          .status(409)
+          .send({ message: 'Only successful scans can be exported as SARIF' });
+      }
+      const [scanResult] = await attachViolations(
+        [row],
+        ['violations', 'incomplete'],
+      );
+      const sarifLog = buildSarifLog({
+        jobId: row.job_id ?? jobId,
+        url: row.actual_url || row.submitted_url,
+        normalizedUrl: row.normalized_url,
+        scanTimestamp: row.scan_timestamp,
+        axeVersion: row.axe_options?.axeVersion,
+        score: row.score,
+        violations: scanResult.violations,
+        incomplete: scanResult.incomplete,
+      });
+      res.setHeader('Content-Type', 'application/sarif+json');
+      res.setHeader(
+        'Content-Disposition',
+        `attachment; filename="accessibility-report-${jobId}.sarif"`,
+      );
+      res.send(JSON.stringify(sarifLog, null, 2));
+      logger.info(
+        { jobId, results: sarifLog.runs[0].results.length },
+        'SARIF report sent successfully',
+      );
+      return;
+    }
 
-pool.on('connect', () => {
-  logger.info('API Service connected to PostgreSQL database');
-});
+    // Reports are in the language the scan's rule texts were fetched in unless asked otherwise
+    const scanLocale = row.axe_options?.locale;
+    const localeOptions: ReportLocaleOptions = {
+      locale:
+        locale ?? (isSupportedLocale(scanLocale) ? scanLocale : DEFAULT_LOCALE),
+      timeZone: timeZone ?? DEFAULT_TIME_ZONE,
+    };
 
-pool.on('error', (err: Error) => {
-  logger.error(
-    { error: err.message, stack: err.stack },
-    'API Service PostgreSQL pool error',
-  );
-});
+    if (format === 'pdf') {
+      const scanResultId = Number(row.id);
+      const variant = `${localeOptions.locale}:${localeOptions.timeZone}`;
+      const scanDate = formatReportDate(row.scan_timestamp, localeOptions);
+      const pdfMessages = getReportMessages(localeOptions.locale).pdf;
+      // Cached PDFs are shared by everyone who can read the scan, so they compare with the owner's scans only
+      const pdf =
+        (await reportPdfRenderer.findCached(scanResultId, variant)) ??
+        (await reportPdfRenderer.render(
+          {
+            id: scanResultId,
+            jobId: row.job_id ?? jobId,
+            url: row.actual_url || row.submitted_url,
+            scanDate,
+          },
+          variant,
+          {
+            contents: pdfMessages.contents,
+            generated: formatMessage(pdfMessages.generated, {
+              date: formatReportDate(new Date(), localeOptions),
+            }),
+            scanned: formatMessage(pdfMessages.scanned, { date: scanDate }),
+            pageOf: pdfMessages.pageOf,
+          },
+          () =>
+            buildReportHtml(
+              row,
+              { isAdmin: false, apiKeyId: row.api_key_id ?? null },
+              localeOptions,
+            ),
+          REPORT_PDF_WAIT_MS,
+        ));
+      if (!pdf) {
+        res.setHeader('Retry-After', '5');
+        return res.status(202).send({
+          message: 'The PDF report is being rendered. Try again shortly.',
+          jobId,
+        });
+      }
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader(
+        'Content-Disposition',
+        `attachment; filename="accessibility-report-${jobId}.pdf"`,
+      );
+      res.send(pdf);
+      logger.info({ jobId, bytes: pdf.length }, 'PDF report sent successfully');
+      return;
+    }
 
-// Define Zod schema for URL submission
-const SubmitUrlSchema = z.object({
-  url: z.string().url({ message: 'Invalid URL format' }),
+    const htmlContent = await buildReportHtml(
+      row,
+      { isAdmin: hasScope(apiKey, 'admin'), apiKeyId: apiKey.id },
+      localeOptions,
+    );
+    logger.info(
+      { jobId, htmlLength: htmlContent.length },
+      'Generated HTML content for report',
+    );
+
+    res.setHeader('Content-Type', 'text/html');
+    res.send(htmlContent);
+    logger.info({ jobId }, 'HTML report sent successfully');
+  } catch (error) {
+    logger.error(
+      {
+        jobId,
+        format,
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      },
+      'Error generating report',
+    );
+    res.status(500).send({
+      message: `Internal server error while generating ${format.toUpperCase()} report`,
+    });
+  }
 });
 
-// Middleware to parse JSON bodies
-app.use(express.json());
+/**
+ * @swagger
+ * /api/export-violations:
+ *   get:
+ *     summary: Export the failing elements of one or more scans as CSV, XLSX or JUnit XML
+ *     tags: [Scanning]
+ *     parameters:
+ *       - in: query
+ *         name: jobIds
+ *         schema:
+ *           type: string
+ *         required: true
+ *         description: Comma-separated job IDs, at most 50. The parameter may also be repeated.
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [csv, xlsx, junit]
+ *           default: csv
+ *         description: xlsx adds a summary sheet with each scan's score, health level and counts by impact, and a per-rule pivot. junit is a JUnit XML report for CI with one testsuite per page and one testcase per axe rule.
+ *     responses:
+ *       200:
+ *         description: One row per failing element, for every scan in the order requested.
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *           application/vnd.openxmlformats-officedocument.spreadsheetml.sheet:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *           application/xml:
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: Invalid query parameters.
+ *       404:
+ *         description: Some of the scans were not found.
+ */
+app.get('/api/export-violations', async (req: Request, res: Response) => {
+  const queryResult = violationExportQuerySchema.safeParse(req.query);
+  if (!queryResult.success) {
+    return res.status(400).send({
+      message: 'Invalid query parameters',
+      errors: queryResult.error.issues,
+    });
+  }
+  const { jobIds, format } = queryResult.data;
+  logger.info(
+    { jobCount: jobIds.length, format },
+    'Received request to export violations',
+  );
 
-// Enable CORS for all routes and origins
-// For production, you should restrict this to your frontend's actual origin:
-// app.use(cors({ origin: 'http://localhost:5173' })); // Replace with your SvelteKit frontend's actual origin
-app.use(cors());
+  try {
+    const rowsByJobId = await findScanResultsForKeyByJobIds(
+      jobIds,
+      getApiKey(res),
+    );
+    const missing = jobIds.filter((jobId) => !rowsByJobId.has(jobId));
+    if (missing.length > 0) {
+      return res
+        .status(404)
+        .send({ message: 'Scan results not found', jobIds: missing });
+    }
 
-// A simple root route
-app.get('/', (req: Request, res: Response) => {
-  res.send('API Service is running!');
+    await sendScanExport(
+      res,
+      jobIds.map((jobId) => rowsByJobId.get(jobId) as ScanResultFromDB),
+      format,
+      jobIds.length === 1
+        ? `accessibility-violations-${jobIds[0]}`
+        : 'accessibility-violations',
+    );
+    logger.info(
+      { jobCount: jobIds.length, format },
+      'Violation export sent successfully',
+    );
+  } catch (error) {
+    logger.error(
+      {
+        jobIds,
+        format,
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      },
+      'Error exporting violations',
+    );
+    res.status(500).send({
+      message: 'Internal server error while exporting violations',
+    });
+  }
 });
 
-// New endpoint for scan-website
 /**
  * @swagger
- * /api/scan-website:
+ * /api/scan-site:
  *   post:
- *     summary: Submit a website for scanning
+ *     summary: Crawl a site from a seed URL and scan every discovered page
  *     tags: [Scanning]
  *     requestBody:
  *       required: true
  *       content:
  *         application/json:
  *           schema:
- *             $ref: '#/components/schemas/ScanRequest'
+ *             $ref: '#/components/schemas/ScanSiteRequest'
  *     responses:
  *       202:
- *         description: Scan request accepted.
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/ScanAcceptedResponse'
+ *         description: Site scan accepted. Pages are discovered and scanned in the background.
  *       400:
- *         description: Bad request, likely an invalid URL.
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/ErrorResponse'
+ *         description: Bad request, likely an invalid URL or option.
+ *       429:
+ *         description: Rate limit hit, or maxPages does not fit in the key's remaining monthly quota.
  */
-app.post('/api/scan-website', async (req: Request, res: Response) => {
-  const validationResult = scanWebsiteSchema.safeParse(req.body);
+app.post('/api/scan-site', async (req: Request, res: Response) => {
+  const validationResult = scanSiteSchema.safeParse(req.body);
 
   if (!validationResult.success) {
     logger.error(
       { error: validationResult.error.issues },
-      'Invalid request body for /api/scan-website',
+      'Invalid request body for /api/scan-site',
     );
     return res.status(400).send({
       message: 'Invalid request body',
@@ -436,548 +3661,957 @@ app.post('/api/scan-website', async (req: Request, res: Response) => {
     });
   }
 
-  const { url } = validationResult.data;
-  const jobId = uuidv4();
+  const {
+    url,
+    maxDepth,
+    maxPages,
+    include,
+    exclude,
+    axeOptions,
+    viewports,
+    auth,
+    locale,
+  } = validationResult.data;
+  const siteScanId = uuidv4();
+  const apiKey = getApiKey(res);
+
+  const unsafeUrl = await findUnsafeUrl([
+    { field: 'url', url },
+    { field: 'auth.login.url', url: auth?.login?.url },
+  ]);
+  if (unsafeUrl) {
+    logger.warn(
+      { seedUrl: url, ...unsafeUrl },
+      'Rejected site scan request for unsafe URL',
+    );
+    return res.status(400).send({
+      message: `URL is not allowed: ${unsafeUrl.reason}`,
+      field: unsafeUrl.field,
+    });
+  }
+
+  if (auth && !scanCredentialsKey) {
+    return res.status(400).send({
+      message: 'Authenticated scanning is not enabled on this server',
+    });
+  }
+  const encryptedAuth =
+    auth && scanCredentialsKey
+      ? encryptScanCredentials(auth, scanCredentialsKey)
+      : undefined;
 
+  let quotaPeriod: string | null;
   try {
-    // Add job to the BullMQ queue
-    await scanQueue.add(
-      'scan-url',
-      { submittedUrl: url, originalJobId: jobId },
-      { jobId: jobId },
+    // Reserve the worst case up front; the worker gives back unused pages after discovery
+    quotaPeriod = await consumeScanQuota(pool, apiKey, maxPages);
+    if (!quotaPeriod) {
+      return res.status(429).send({
+        message: `Monthly scan quota cannot cover ${maxPages} pages for this API key`,
+      });
+    }
+  } catch (error) {
+    logger.error(
+      { err: error, apiKeyId: apiKey.id },
+      'Failed to record scan quota usage',
+    );
+    return res.status(500).send({
+      message: 'Failed to enqueue site scan request. Please try again later.',
+    });
+  }
+
+  try {
+    await pool.query(
+      `INSERT INTO site_scans
+         (id, seed_url, max_depth, max_pages, include_patterns, exclude_patterns, api_key_id)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [siteScanId, url, maxDepth, maxPages, include, exclude, apiKey.id],
+    );
+    if (auth && encryptedAuth) {
+      await storeScanCredentials(pool, { siteScanId }, auth, encryptedAuth);
+    }
+    await siteCrawlQueue.add(
+      'crawl-site',
+      {
+        siteScanId,
+        seedUrl: url,
+        maxDepth,
+        maxPages,
+        include,
+        exclude,
+        axeOptions,
+        viewports,
+        locale,
+        auth: encryptedAuth,
+        apiKeyId: apiKey.id,
+        quotaPeriod,
+      },
+      { jobId: siteScanId },
     );
 
     logger.info(
-      { submittedUrl: url, jobId },
-      `Job enqueued successfully in '${SCAN_QUEUE_NAME}'`,
+      { seedUrl: url, siteScanId, maxDepth, maxPages },
+      `Site crawl enqueued in '${SITE_CRAWL_QUEUE_NAME}'`,
     );
 
     res.status(202).send({
-      message: 'Scan request accepted and enqueued. Job ID: ' + jobId,
-      jobId: jobId,
-      submittedUrl: url,
+      message: 'Site scan accepted. Site scan ID: ' + siteScanId,
+      siteScanId,
+      seedUrl: url,
+      maxDepth,
+      maxPages,
     });
   } catch (error) {
     logger.error(
-      { err: error, submittedUrl: url, jobId },
-      `Failed to enqueue job in '${SCAN_QUEUE_NAME}'`,
+      { err: error, seedUrl: url, siteScanId },
+      'Failed to enqueue site scan',
+    );
+    await releaseScanQuota(pool, apiKey, quotaPeriod, maxPages).catch((err) =>
+      logger.error({ err, apiKeyId: apiKey.id }, 'Failed to release quota'),
     );
     res.status(500).send({
-      message: 'Failed to enqueue scan request. Please try again later.',
+      message: 'Failed to enqueue site scan request. Please try again later.',
     });
   }
 });
 
 /**
  * @swagger
- * /api/scan-results/{jobId}:
+ * /api/site-scan-results/{siteScanId}:
  *   get:
- *     summary: Retrieve scan results
+ *     summary: Aggregate results of a site scan
+ *     description: Per-page scores, the site-wide score and the rules failing on the most pages.
  *     tags: [Scanning]
  *     parameters:
  *       - in: path
- *         name: jobId
+ *         name: siteScanId
  *         schema:
  *           type: string
  *           format: uuid
  *         required: true
- *         description: The ID of the job to retrieve results for.
+ *       - in: query
+ *         name: topRules
+ *         schema:
+ *           type: integer
+ *           default: 10
  *     responses:
  *       200:
- *         description: Scan results returned successfully. The structure of a full result is complex and contains the axe-core violations array.
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 scan_success:
- *                   type: boolean
- *                 # Add other key properties here for documentation clarity
- *                 page_title:
- *                   type: string
- *                 violations:
- *                   type: array
- *                   items:
- *                     type: object
+ *         description: Aggregate results. Pages still being scanned are not yet listed.
  *       404:
- *         description: Scan result not found. The job may still be in progress or the ID is invalid.
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/ErrorResponse'
+ *         description: Site scan not found.
  */
-app.get('/api/scan-results/:jobId', async (req: Request, res: Response) => {
-  const { jobId } = req.params;
-
-  if (!jobId) {
-    return res.status(400).send({ message: 'Job ID is required' });
-  }
-
-  try {
-    logger.info({ jobId }, 'Fetching scan result for Job ID');
-    const query =
-      'SELECT * FROM scan_results WHERE job_id = $1 OR original_job_id = $1';
-    const { rows } = await pool.query(query, [jobId]);
-
-    if (rows.length === 0) {
-      logger.warn({ jobId }, 'Scan result not found for Job ID');
-      return res.status(404).send({ message: 'Scan result not found' });
-    }
-
-    const result: ScanResultFromDB = rows[0] as ScanResultFromDB;
-    if (result.violations && typeof result.violations === 'string') {
-      try {
-        // Attempt to parse if it's a string, but expect it to be AxeViolation[]
-        result.violations = JSON.parse(
-          result.violations as unknown as string,
-        ) as AxeViolation[];
-      } catch (parseError) {
-        logger.warn(
-          { jobId, error: parseError },
-          'Failed to parse violations JSON string from DB',
-        );
-      }
-    }
-
-    logger.info(
-      { jobId, resultId: result.id },
-      'Scan result retrieved successfully',
-    );
-    res.status(200).send(result);
-  } catch (error) {
-    let errorMessage = 'Failed to fetch scan result';
-    if (error instanceof Error) {
-      errorMessage = error.message;
-    }
-    logger.error(
-      {
-        jobId,
-        error: errorMessage,
-        stack: error instanceof Error ? error.stack : undefined,
-      },
-      'Error fetching scan result from database',
+app.get(
+  '/api/site-scan-results/:siteScanId',
+  async (req: Request, res: Response) => {
+    const { siteScanId } = req.params;
+    const apiKey = getApiKey(res);
+    const topRulesLimit = Math.min(
+      Math.max(
+        Number.parseInt(String(req.query.topRules ?? '10'), 10) || 10,
+        1,
+      ),
+      100,
     );
-    res
-      .status(500)
-      .send({ message: 'Internal server error while fetching scan result' });
-  }
-});
 
-// Endpoint to submit a URL for scanning
-app.post('/api/submit-url', (req: Request, res: Response) => {
-  try {
-    // Validate request body
-    const validatedData = SubmitUrlSchema.parse(req.body);
-    const { url } = validatedData;
+    try {
+      const { rows: siteRows } = await pool.query(
+        'SELECT * FROM site_scans WHERE id = $1 AND ($2::boolean OR api_key_id = $3)',
+        [siteScanId, hasScope(apiKey, 'admin'), apiKey.id],
+      );
+      if (siteRows.length === 0) {
+        return res.status(404).send({ message: 'Site scan not found' });
+      }
+      const siteScan = siteRows[0];
 
-    logger.info({ submittedUrl: url }, 'Received URL for scanning');
+      const [{ rows: scanRows }, { rows: ruleRows }] = await Promise.all([
+        pool.query(
+          `SELECT job_id, submitted_url, actual_url, page_title, scan_timestamp, scan_success, error_message,
+             ${STORED_SCORE_COLUMNS}
+           FROM scan_results WHERE site_scan_id = $1 ORDER BY scan_timestamp`,
+          [siteScanId],
+        ),
+        // Rules are described as on the first page that failed them
+        pool.query(
+          `SELECT sv.rule_id,
+             (array_agg(sv.impact ORDER BY sv.id))[1] AS impact,
+             (array_agg(sv.help ORDER BY sv.id))[1] AS help,
+             (array_agg(sv.help_url ORDER BY sv.id))[1] AS help_url,
+             count(DISTINCT sv.scan_result_id)::integer AS page_count,
+             COALESCE(sum(nodes.count), 0)::integer AS node_count
+           FROM scan_violations sv
+           JOIN scan_results sr ON sr.id = sv.scan_result_id
+           CROSS JOIN LATERAL (
+             SELECT count(*) AS count FROM scan_violation_nodes svn WHERE svn.violation_id = sv.id
+           ) nodes
+           WHERE sr.site_scan_id = $1 AND sv.result_type = 'violations'
+           GROUP BY sv.rule_id
+           ORDER BY page_count DESC, node_count DESC
+           LIMIT $2`,
+          [siteScanId, topRulesLimit],
+        ),
+      ]);
 
-    // TODO: Add URL to Redis queue for the worker (Task 3.2)
+      const pages = scanRows.map((row) => {
+        const { score, healthLevel, violationCounts } = readStoredScore(row);
+        return {
+          jobId: row.job_id,
+          url: row.actual_url || row.submitted_url,
+          pageTitle: row.page_title,
+          scanTimestamp: row.scan_timestamp,
+          scanSuccess: row.scan_success,
+          score,
+          healthLevel,
+          violationCount: violationCounts?.total ?? null,
+          errorMessage: row.error_message,
+        };
+      });
 
-    res.status(200).send({ message: 'URL received successfully', url });
-  } catch (error) {
-    if (error instanceof z.ZodError) {
+      // The site-wide score is the mean of the successfully scanned pages
+      const scoredPages = pages.filter((page) => page.score !== null);
+      const siteScore =
+        scoredPages.length > 0
+          ? Math.round(
+              scoredPages.reduce((sum, page) => sum + (page.score ?? 0), 0) /
+                scoredPages.length,
+            )
+          : null;
+
+      const topFailingRules = ruleRows.map((row) => ({
+        ruleId: row.rule_id,
+        impact: row.impact ?? undefined,
+        help: row.help ?? '',
+        helpUrl: row.help_url ?? '',
+        pageCount: row.page_count,
+        nodeCount: row.node_count,
+      }));
+
+      res.status(200).send({
+        siteScanId,
+        status: siteScan.status,
+        seedUrl: siteScan.seed_url,
+        options: {
+          maxDepth: siteScan.max_depth,
+          maxPages: siteScan.max_pages,
+          include: siteScan.include_patterns,
+          exclude: siteScan.exclude_patterns,
+        },
+        createdAt: siteScan.created_at,
+        completedAt: siteScan.completed_at,
+        errorMessage: siteScan.error_message,
+        pagesDiscovered: siteScan.page_count,
+        pagesScanned: pages.length,
+        siteScore,
+        pages,
+        topFailingRules,
+      });
+    } catch (error) {
       logger.error(
-        { error: error.issues },
-        'Invalid request body for URL submission',
+        {
+          siteScanId,
+          error: error instanceof Error ? error.message : String(error),
+          stack: error instanceof Error ? error.stack : undefined,
+        },
+        'Error aggregating site scan results',
       );
-      return res
-        .status(400)
-        .send({ message: 'Invalid request body', errors: error.issues });
-    }
-    logger.error({ errorDetails: error }, 'Error processing URL submission');
-    res.status(500).send({ message: 'Internal server error' });
-  }
-});
-
-// Helper functions (to be added in accessibility-scanner-backend/apps/api/src/index.ts)
-
-function calculateAccessibilityScoreReport(
-  axeViolations: AxeViolation[],
-): number {
-  let score = 100;
-  (axeViolations || []).forEach((violation) => {
-    const numFails = violation.nodes?.length || 0;
-    switch (violation.impact) {
-      case 'critical':
-        score -= numFails * 10;
-        break;
-      case 'serious':
-        score -= numFails * 5;
-        break;
-      case 'moderate':
-        score -= numFails * 2;
-        break;
-      case 'minor':
-        score -= numFails * 1;
-        break;
-      default:
-        score -= numFails * 1;
+      res.status(500).send({
+        message: 'Internal server error while fetching site scan results',
+      });
     }
-  });
-  return Math.max(0, Math.min(100, Math.round(score)));
-}
+  },
+);
 
-function calculatePageHealthReport(
-  violations: AxeViolation[] | undefined,
-  score: number,
-): PageHealthStatusReport {
-  const v = violations || [];
-  if (v.some((item) => item.impact === 'critical')) {
-    return {
-      level: 'Critical Issues',
-      description:
-        'Critical accessibility barriers found that severely impact usability. Urgent attention required.',
-    };
-  }
-  if (v.some((item) => item.impact === 'serious')) {
-    return {
-      level: 'Serious Concerns',
-      description:
-        'Serious accessibility issues identified. These likely create significant barriers for some users.',
-    };
+/**
+ * @swagger
+ * /api/scans:
+ *   get:
+ *     summary: Browse scans with filters and cursor pagination
+ *     description: Compact summaries without screenshots or violation details. Scores are the ones stored at scan time; failed scans, and older scans not yet recomputed, have no score and sort below every scored scan.
+ *     tags: [Scanning]
+ *     parameters:
+ *       - in: query
+ *         name: domain
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [success, failure]
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: minScore
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: maxScore
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: healthLevel
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: ruleId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           enum: [scanTimestamp, score]
+ *       - in: query
+ *         name: order
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 25
+ *           maximum: 100
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: One page of scan summaries and the nextCursor for the next page.
+ *       400:
+ *         description: Invalid query parameters or cursor.
+ */
+app.get('/api/scans', async (req: Request, res: Response) => {
+  const queryResult = scanListQuerySchema.safeParse(req.query);
+  if (!queryResult.success) {
+    return res.status(400).send({
+      message: 'Invalid query parameters',
+      errors: queryResult.error.issues,
+    });
   }
-  if (score < 85 || v.some((item) => item.impact === 'moderate')) {
-    return {
-      level: 'Needs Improvement',
-      description:
-        'Moderate or multiple minor issues found. Site is usable but could be improved for better accessibility.',
-    };
+  const query = queryResult.data;
+  const cursor = query.cursor
+    ? decodeScanListCursor(query.cursor, query)
+    : null;
+  if (query.cursor && !cursor) {
+    return res.status(400).send({
+      message:
+        'Invalid cursor. Cursors only work with the sort they came from.',
+      field: 'cursor',
+    });
   }
-  return {
-    level: 'Good Shape',
-    description:
-      'Looking good! Only minor or no significant accessibility issues detected by automated checks.',
-  };
-}
+  const apiKey = getApiKey(res);
 
-function formatTimestampReport(timestamp: string | Date | undefined): string {
-  if (!timestamp) return 'N/A';
   try {
-    return new Date(timestamp).toLocaleString();
-  } catch {
-    // Removed '_error' as it's unused
-    // Attempt to provide a more consistent string representation if it's already a string
-    return typeof timestamp === 'string' ? timestamp : String(timestamp);
-  }
-}
-
-// Function to generate HTML for the PDF report
-function generateReportHtml(dbResult: ScanResultFromDB): string {
-  // Escape HTML characters
-  const escapeHtml = (unsafe: string | undefined | null): string => {
-    if (unsafe === null || typeof unsafe === 'undefined') return '';
-    return unsafe
-      .replace(/&/g, '&amp;')
-      .replace(/</g, '&lt;')
-      .replace(/>/g, '&gt;')
-      .replace(/"/g, '&quot;')
-      .replace(/'/g, '&#039;');
-  };
-
-  // Prepare UI data based on dbResult
-  const axeViolations = dbResult.violations || [];
-  const accessibilityScore = calculateAccessibilityScoreReport(axeViolations);
-  const pageHealthStatus = calculatePageHealthReport(
-    axeViolations,
-    accessibilityScore,
-  );
-  const totalViolations = axeViolations.reduce(
-    (sum: number, v: AxeViolation) => sum + (v.nodes?.length || 0),
-    0,
-  );
-  const pageScreenshotBase64 = dbResult.page_screenshot;
-
-  const violationsHtml =
-    axeViolations && axeViolations.length > 0
-      ? axeViolations
-          .map(
-            (violation: AxeViolation) => `
-      <div class="violation-item impact-${violation.impact || 'unknown'}">
-        <h3>${escapeHtml(violation.id)}</h3>
-        <div class="violation-meta">
-          <span class="impact">Impact: ${escapeHtml(violation.impact || 'N/A')}</span>
-          ${violation.tags && violation.tags.length > 0 ? `<span class="tags">Tags: ${escapeHtml(violation.tags.join(', '))}</span>` : ''}
-        </div>
-        <p class="description">${escapeHtml(violation.description)}</p>
-        <p class="help"><a href="${escapeHtml(violation.helpUrl)}" target="_blank" rel="noopener noreferrer">Learn more: ${escapeHtml(violation.help)}</a></p>
-
-        ${
-          violation.nodes && violation.nodes.length > 0
-            ? `
-          <h4>Affected Elements (${violation.nodes.length}):</h4>
-          <ul class="nodes-list">
-            ${violation.nodes
-              .map(
-                (node: AxeNode, index: number) => `
-              <li class="node-item">
-                <p class="node-heading"><strong>Element ${index + 1}</strong></p>
-                ${node.target && node.target.length > 0 ? `<p class="target-selector"><strong>Selector:</strong> <code>${escapeHtml(node.target.join(', '))}</code></p>` : ''}
-                <p class="html-snippet-label"><strong>HTML Snippet:</strong></p>
-                <pre class="html-snippet"><code>${escapeHtml(node.html)}</code></pre>
-                ${
-                  node.failureSummary
-                    ? `
-                  <div class="failure-summary">
-                     <p><strong>Failure Summary:</strong></p>
-                     <p>${escapeHtml(
-                       node.failureSummary
-                         .replace(/^Fix all of the following:/, '')
-                         .replace(/^Fix any of the following:/, '')
-                         .trim(),
-                     )}</p>
-                  </div>`
-                    : ''
-                }
-                ${
-                  (node.any && node.any.length > 0) ||
-                  (node.all && node.all.length > 0)
-                    ? `
-                  <div class="specific-checks">
-                    <p><strong>Specific Checks:</strong></p>
-                    <ul>
-                      ${[...(node.any || []), ...(node.all || [])]
-                        .map(
-                          (check: AxeCheck) => `
-                        <li>
-                          <p><strong>${escapeHtml(check.id)} (${escapeHtml(check.impact || 'N/A')}):</strong> ${escapeHtml(check.message)}</p>
-                          ${check.data ? `<p class="check-data">Data: ${escapeHtml(JSON.stringify(check.data))}</p>` : ''}
-                        </li>
-                      `,
-                        )
-                        .join('')}
-                    </ul>
-                  </div>`
-                    : ''
-                }
-              </li>
-            `,
-              )
-              .join('')}
-          </ul>
-        `
-            : ''
-        }
-      </div>
-    `,
-          )
-          .join('')
-      : '<p>No violations found, or data is not available for detailed violations.</p>';
-
-  return `
-    <!DOCTYPE html>
-    <html lang="en">
-    <head>
-      <meta charset="UTF-8">
-      <meta name="viewport" content="width=device-width, initial-scale=1.0">
-      <title>Accessibility Scan Report</title>
-      <style>
-        body { font-family: Arial, sans-serif; margin: 20px; }
-        h1, h2, h3, h4 { color: #333; }
-        .violation-item { border: 1px solid #ccc; padding: 10px; margin-bottom: 10px; page-break-inside: avoid; }
-        .impact-critical { border-left: 5px solid red; }
-        .impact-serious { border-left: 5px solid orange; }
-        .impact-moderate { border-left: 5px solid gold; }
-        .impact-minor { border-left: 5px solid lightblue; }
-        .html-snippet { background-color: #f0f0f0; padding: 5px; overflow-x: auto; white-space: pre-wrap; word-break: break-all; }
-        /* Most styles commented out for debugging PDF corruption */
-        /*
-        body { font-family: Arial, sans-serif; color: #333; line-height: 1.6; margin: 0; padding: 0; }
-        .scan-report-pdf { width: 100%; max-width: 210mm; margin: 0 auto; padding: 15mm; box-sizing: border-box; }
-        header h1 { font-size: 28px; color: #1a237e; margin-bottom: 10px; text-align: center; border-bottom: 2px solid #3949ab; padding-bottom: 10px; }
-        .meta-info { font-size: 12px; margin-bottom: 20px; text-align: center; }
-        .meta-info p { margin: 2px 0; }
-        .summary-section h2, .violations-section h2 { font-size: 20px; color: #283593; margin-top: 30px; margin-bottom: 15px; border-bottom: 1px solid #c5cae9; padding-bottom: 5px; }
-        .summary-grid { display: grid; grid-template-columns: 1fr 1fr 1fr; gap: 20px; margin-bottom: 20px; padding: 15px; background-color: #f3f4f6; border-radius: 8px; }
-        .summary-grid > div { text-align: center; padding: 10px; box-sizing: border-box; }
-        .summary-grid .label { font-size: 12px; font-weight: bold; color: #555; margin-bottom: 5px; }
-        .summary-grid .value { font-size: 24px; font-weight: bold; }
-        .summary-grid .description { font-size: 11px; color: #666; }
-        .score-low, .health-critical-issues { color: #d32f2f; }
-        .score-medium, .health-serious-concerns { color: #f57c00; }
-        .health-needs-improvement { color: #fbc02d; }
-        .score-high, .health-good-shape { color: #388e3c; }
-        .violation-item { margin-bottom: 20px; padding: 15px; border: 1px solid #e0e0e0; border-radius: 6px; background-color: #fff; page-break-inside: avoid; }
-        .violation-item h3 { font-size: 16px; color: #3f51b5; margin-top: 0; margin-bottom: 8px; word-break: break-all; }
-        .violation-meta { font-size: 11px; margin-bottom: 8px; color: #424242; }
-        .violation-meta .impact { font-weight: bold; padding: 2px 6px; border-radius: 4px; color: white; display: inline-block; margin-right: 5px; }
-        .impact-critical { background-color: #c62828; }
-        .impact-serious { background-color: #ef6c00; }
-        .impact-moderate { background-color: #f9a825; }
-        .impact-minor { background-color: #1565c0; }
-        .impact-unknown { background-color: #616161; }
-        .violation-meta .tags { font-style: italic; }
-        .violation-item .description { font-size: 13px; margin-bottom: 8px; }
-        .violation-item .help a { font-size: 12px; color: #1976d2; text-decoration: none; word-break: break-all; }
-        .violation-item .help a:hover { text-decoration: underline; }
-        .violation-item h4 { font-size: 14px; color: #455a64; margin-top: 15px; margin-bottom: 5px; }
-        .nodes-list { list-style-type: none; padding-left: 0; }
-        .node-item { background-color: #fafafa; padding: 10px; margin-bottom: 10px; border-radius: 4px; border: 1px solid #eeeeee; font-size: 12px; }
-        .node-heading { margin-top: 0; margin-bottom: 5px; }
-        .target-selector { margin-bottom: 5px; }
-        .target-selector code { background-color: #e8eaf6; padding: 2px 4px; border-radius: 3px; font-family: 'Courier New', Courier, monospace; word-break: break-all; }
-        .html-snippet-label { margin-bottom: 3px; }
-        .html-snippet { background-color: #263238; color: #eceff1; padding: 8px; border-radius: 4px; overflow-x: auto; font-size: 11px; white-space: pre-wrap; word-break: break-all; }
-        .failure-summary { background-color: #ffebee; border: 1px solid #ffcdd2; padding: 8px; margin-top: 8px; margin-bottom: 8px; border-radius: 4px; font-size: 12px; }
-        .failure-summary p { margin: 3px 0; }
-        .specific-checks { margin-top: 8px; }
-        .specific-checks ul { list-style-type: disc; padding-left: 20px; font-size: 11px; }
-        .specific-checks li { margin-bottom: 4px; }
-        .check-data { font-style: italic; color: #757575; padding-left: 10px; font-size: 10px; word-break: break-all; }
-        footer { margin-top: 40px; text-align: center; font-size: 10px; color: #777; border-top: 1px solid #e0e0e0; padding-top: 10px; }
-        */
-      </style>
-    </head>
-    <body>
-      <div class="scan-report-pdf">
-        <header>
-          <h1>Accessibility Scan Report</h1>
-          <div class="meta-info">
-            <p><strong>Scanned URL:</strong> ${escapeHtml(dbResult?.actual_url || dbResult?.submitted_url)}</p>
-            <p><strong>Page Title:</strong> ${escapeHtml(dbResult?.page_title)}</p>
-            <p><strong>Scan Date:</strong> ${escapeHtml(formatTimestampReport(dbResult?.scan_timestamp))}</p>
-          </div>
-        </header>
-        <section class="summary-section">
-          <h2>Scan Summary</h2>
-          <div class="summary-grid">
-            <div>
-              <p class="label">Accessibility Score</p>
-              <p class="value score-${accessibilityScore < 50 ? 'low' : accessibilityScore < 75 ? 'medium' : 'high'}">
-                ${accessibilityScore}%
-              </p>
-            </div>
-            <div>
-              <p class="label">Page Health</p>
-              <p class="value health-${pageHealthStatus?.level.toLowerCase().replace(/\s+/g, '-') || 'unknown'}">
-                ${escapeHtml(pageHealthStatus?.level)}
-              </p>
-              <p class="description">${escapeHtml(pageHealthStatus?.description)}</p>
-            </div>
-            <div>
-              <p class="label">Total Violations Found</p>
-              <p class="value">${totalViolations}</p>
-            </div>
-          </div>
-        </section>
-        ${
-          pageScreenshotBase64
-            ? `
-        <section class="screenshot-section">
-          <h2>Page Screenshot</h2>
-          <img src="data:image/jpeg;base64,${pageScreenshotBase64}" alt="Screenshot of the scanned page" style="width: 100%; max-width: 600px; height: auto; border: 1px solid #ccc; margin-top: 10px;" />
-        </section>
-        `
-            : ''
-        }
-        <section class="violations-section">
-          <h2>Detailed Violations</h2>
-          ${violationsHtml}
-        </section>
-        <footer>
-          <p>Report generated by Digital Accessibility Centre Scan Tool &copy; ${new Date().getFullYear()}</p>
-        </footer>
-      </div>
-    </body>
-    </html>
-  `;
-}
+    res.status(200).send(
+      await listScans(pool, query, cursor, {
+        isAdmin: hasScope(apiKey, 'admin'),
+        apiKeyId: apiKey.id,
+      }),
+    );
+  } catch (error) {
+    logger.error(
+      {
+        query: req.query,
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      },
+      'Error listing scans',
+    );
+    res
+      .status(500)
+      .send({ message: 'Internal server error while listing scans' });
+  }
+});
 
-// API Endpoint for HTML Export (previously PDF Export)
-app.get('/api/export-report/:jobId', async (req: Request, res: Response) => {
-  const { jobId } = req.params;
-  logger.info(
-    { jobId },
-    'Received request to export report as HTML for Job ID',
-  );
+/**
+ * @swagger
+ * /api/history:
+ *   get:
+ *     summary: Scan history and score trend of a URL
+ *     description: Scans of the URL, oldest first, matched after normalizing trailing slashes, default ports and tracking parameters.
+ *     tags: [Scanning]
+ *     parameters:
+ *       - in: query
+ *         name: url
+ *         schema:
+ *           type: string
+ *           format: uri
+ *         required: true
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 100
+ *           maximum: 500
+ *     responses:
+ *       200:
+ *         description: The most recent scans in the range, each with its score, health level and violation counts, and a summary of the trend.
+ *       400:
+ *         description: Missing or invalid query parameters.
+ */
+app.get('/api/history', async (req: Request, res: Response) => {
+  const queryResult = historyQuerySchema.safeParse(req.query);
+  if (!queryResult.success) {
+    return res.status(400).send({
+      message: 'Invalid query parameters',
+      errors: queryResult.error.issues,
+    });
+  }
+  const { url, from, to, limit } = queryResult.data;
+  const normalizedUrl = normalizeScanUrl(url);
+  if (!normalizedUrl) {
+    return res.status(400).send({ message: 'URL must use http or https' });
+  }
+  const apiKey = getApiKey(res);
 
-  if (!jobId) {
-    return res.status(400).send({ message: 'Job ID is required' });
+  try {
+    // One extra row tells whether older scans were cut off by the limit
+    const { rows: scanRows } = await pool.query(
+      `SELECT * FROM (
+         SELECT id, job_id, submitted_url, actual_url, page_title, scan_timestamp, scan_success, error_message,
+           ${STORED_SCORE_COLUMNS}
+         FROM scan_results
+         WHERE normalized_url = $1
+           AND ($2::boolean OR api_key_id = $3)
+           AND ($4::timestamptz IS NULL OR scan_timestamp >= $4)
+           AND ($5::timestamptz IS NULL OR scan_timestamp <= $5)
+         ORDER BY scan_timestamp DESC
+         LIMIT $6
+       ) recent
+       ORDER BY scan_timestamp`,
+      [
+        normalizedUrl,
+        hasScope(apiKey, 'admin'),
+        apiKey.id,
+        from ?? null,
+        to ?? null,
+        limit + 1,
+      ],
+    );
+    const truncated = scanRows.length > limit;
+    const shownRows = truncated ? scanRows.slice(1) : scanRows;
+    const scans = shownRows.map((row) => {
+      const { score, healthLevel, violationCounts, needsReviewCount } =
+        readStoredScore(row);
+      return {
+        jobId: row.job_id,
+        submittedUrl: row.submitted_url,
+        actualUrl: row.actual_url,
+        pageTitle: row.page_title,
+        scanTimestamp: row.scan_timestamp,
+        scanSuccess: row.scan_success,
+        score,
+        healthLevel,
+        violationCounts,
+        needsReviewCount,
+        errorMessage: row.error_message,
+      };
+    });
+
+    res.status(200).send({
+      url,
+      normalizedUrl,
+      from: from ?? null,
+      to: to ?? null,
+      truncated,
+      trend: summarizeScoreTrend(scans.map((scan) => scan.score)),
+      scans,
+    });
+  } catch (error) {
+    logger.error(
+      {
+        normalizedUrl,
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      },
+      'Error fetching scan history',
+    );
+    res.status(500).send({
+      message: 'Internal server error while fetching scan history',
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/scan-diff:
+ *   get:
+ *     summary: New, fixed and unchanged violations between two scans
+ *     description: Nodes are matched by rule ID and a fingerprint of their selector and HTML.
+ *     tags: [Scanning]
+ *     parameters:
+ *       - in: query
+ *         name: base
+ *         description: Job ID of the earlier scan
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         required: true
+ *       - in: query
+ *         name: head
+ *         description: Job ID of the later scan
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         required: true
+ *     responses:
+ *       200:
+ *         description: Both scores, the score change and the violations grouped by whether they are new, fixed or unchanged.
+ *       400:
+ *         description: Missing or invalid job IDs.
+ *       404:
+ *         description: One of the scans was not found.
+ *       409:
+ *         description: One of the scans did not succeed.
+ */
+app.get('/api/scan-diff', async (req: Request, res: Response) => {
+  const queryResult = scanDiffQuerySchema.safeParse(req.query);
+  if (!queryResult.success) {
+    return res.status(400).send({
+      message: 'Invalid query parameters',
+      errors: queryResult.error.issues,
+    });
   }
+  const { base, head } = queryResult.data;
+  const apiKey = getApiKey(res);
 
   try {
-    const query =
-      'SELECT * FROM scan_results WHERE job_id = $1 OR original_job_id = $1';
-    const { rows } = await pool.query(query, [jobId]);
+    const [baseRows, headRows] = await Promise.all([
+      findScanResultsForKey(base, apiKey),
+      findScanResultsForKey(head, apiKey),
+    ]);
+    if (baseRows.length === 0 || headRows.length === 0) {
+      return res.status(404).send({
+        message: 'Scan result not found',
+        field: baseRows.length === 0 ? 'base' : 'head',
+      });
+    }
 
-    if (rows.length === 0) {
-      logger.warn(
-        { jobId },
-        'Scan result not found for Job ID for HTML export',
-      );
-      return res.status(404).send({ message: 'Scan result not found' });
+    const [baseScan, headScan]: ScanResultFromDB[] = await attachViolations([
+      baseRows[0] as ScanResultFromDB,
+      headRows[0] as ScanResultFromDB,
+    ]);
+    if (!baseScan.scan_success || !headScan.scan_success) {
+      return res.status(409).send({
+        message: 'Only successful scans can be compared',
+        field: baseScan.scan_success ? 'head' : 'base',
+      });
     }
 
-    const dbResult: ScanResultFromDB = rows[0] as ScanResultFromDB;
-
-    // Ensure violations is an object/array
-    if (dbResult.violations && typeof dbResult.violations === 'string') {
-      try {
-        // Attempt to parse if it's a string, but expect it to be AxeViolation[]
-        dbResult.violations = JSON.parse(
-          dbResult.violations as unknown as string,
-        ) as AxeViolation[];
-      } catch (parseError) {
-        logger.error(
-          { jobId, error: parseError },
-          'Failed to parse violations JSON for HTML export',
-        );
-        dbResult.violations = []; // Set to empty array to prevent further errors
-      }
-    } else if (!dbResult.violations) {
-      dbResult.violations = []; // Ensure it's an array if null/undefined
+    res.status(200).send(compareScans(baseScan, headScan));
+  } catch (error) {
+    logger.error(
+      {
+        base,
+        head,
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      },
+      'Error comparing scans',
+    );
+    res.status(500).send({
+      message: 'Internal server error while comparing scans',
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/webhook-deliveries:
+ *   get:
+ *     summary: List the callback deliveries of a scan and their attempts
+ *     tags: [Webhooks]
+ *     parameters:
+ *       - in: query
+ *         name: jobId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         required: true
+ *     responses:
+ *       200:
+ *         description: Deliveries, newest first, each with its attempts.
+ *       400:
+ *         description: Missing or invalid jobId.
+ */
+app.get(
+  '/api/webhook-deliveries',
+  requireScope('read'),
+  async (req: Request, res: Response) => {
+    const queryResult = webhookDeliveryListQuerySchema.safeParse(req.query);
+    if (!queryResult.success) {
+      return res.status(400).send({
+        message: 'Invalid query parameters',
+        errors: queryResult.error.issues,
+      });
     }
+    const { jobId } = queryResult.data;
+    const apiKey = getApiKey(res);
 
-    if (!dbResult.scan_success) {
-      logger.warn(
-        { jobId },
-        'Scan was not successful or is still in progress. HTML report might be incomplete or erroneous.',
+    try {
+      const { rows: deliveries } = await pool.query(
+        `SELECT id, event, callback_url, status, attempt_count, last_response_status, last_error, created_at, delivered_at
+         FROM webhook_deliveries
+         WHERE job_id = $1 AND ($2::boolean OR api_key_id = $3)
+         ORDER BY created_at DESC`,
+        [jobId, hasScope(apiKey, 'admin'), apiKey.id],
+      );
+      const { rows: attempts } = await pool.query(
+        `SELECT delivery_id, attempt_number, response_status, error_message, duration_ms, attempted_at
+         FROM webhook_delivery_attempts
+         WHERE delivery_id = ANY($1)
+         ORDER BY attempt_number`,
+        [deliveries.map((delivery) => delivery.id)],
+      );
+
+      res.status(200).send({
+        jobId,
+        deliveries: deliveries.map((delivery) => ({
+          id: delivery.id,
+          event: delivery.event,
+          callbackUrl: delivery.callback_url,
+          status: delivery.status,
+          attemptCount: delivery.attempt_count,
+          lastResponseStatus: delivery.last_response_status,
+          lastError: delivery.last_error,
+          createdAt: delivery.created_at,
+          deliveredAt: delivery.delivered_at,
+          attempts: attempts
+            .filter((attempt) => attempt.delivery_id === delivery.id)
+            .map((attempt) => ({
+              attemptNumber: attempt.attempt_number,
+              responseStatus: attempt.response_status,
+              errorMessage: attempt.error_message,
+              durationMs: attempt.duration_ms,
+              attemptedAt: attempt.attempted_at,
+            })),
+        })),
+      });
+    } catch (error) {
+      logger.error(
+        {
+          jobId,
+          error: error instanceof Error ? error.message : String(error),
+          stack: error instanceof Error ? error.stack : undefined,
+        },
+        'Error fetching webhook deliveries',
       );
+      res.status(500).send({
+        message: 'Internal server error while fetching webhook deliveries',
+      });
+    }
+  },
+);
+
+/**
+ * @swagger
+ * /api/webhook-deliveries/{deliveryId}/redeliver:
+ *   post:
+ *     summary: Send a callback again with its original payload
+ *     tags: [Webhooks]
+ *     parameters:
+ *       - in: path
+ *         name: deliveryId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         required: true
+ *     responses:
+ *       202:
+ *         description: Redelivery queued.
+ *       404:
+ *         description: Delivery not found.
+ *       409:
+ *         description: The delivery is still being attempted.
+ */
+app.post(
+  '/api/webhook-deliveries/:deliveryId/redeliver',
+  requireScope('submit'),
+  async (req: Request, res: Response) => {
+    const idResult = webhookDeliveryIdParamSchema.safeParse(
+      req.params.deliveryId,
+    );
+    if (!idResult.success) {
+      return res.status(400).send({ message: 'Invalid delivery ID' });
     }
+    const deliveryId = idResult.data;
+    const apiKey = getApiKey(res);
 
-    logger.info({ jobId }, 'Generating HTML for report');
-    const htmlContent = generateReportHtml(dbResult);
+    try {
+      // Only finished deliveries are reset, so a delivery is never in the queue twice
+      const { rows } = await pool.query(
+        `UPDATE webhook_deliveries
+         SET status = 'PENDING', updated_at = current_timestamp
+         WHERE id = $1 AND ($2::boolean OR api_key_id = $3)
+           AND status IN ('DELIVERED', 'FAILED')
+         RETURNING id`,
+        [deliveryId, hasScope(apiKey, 'admin'), apiKey.id],
+      );
+      if (rows.length === 0) {
+        const { rows: existing } = await pool.query(
+          'SELECT status FROM webhook_deliveries WHERE id = $1 AND ($2::boolean OR api_key_id = $3)',
+          [deliveryId, hasScope(apiKey, 'admin'), apiKey.id],
+        );
+        if (existing.length === 0) {
+          return res.status(404).send({ message: 'Delivery not found' });
+        }
+        return res
+          .status(409)
+          .send({ message: 'Delivery is still being attempted' });
+      }
 
-    // Log the generated HTML (or a snippet if it's too long)
-    if (htmlContent.length < 2000) {
-      // Log short HTMLs fully
-      logger.info({ jobId, htmlContent }, 'Generated HTML content for report');
-    } else {
+      await webhookQueue.add(
+        'deliver-webhook',
+        { deliveryId },
+        { jobId: `${deliveryId}-redeliver-${Date.now()}` },
+      );
       logger.info(
+        { deliveryId, apiKeyId: apiKey.id },
+        'Webhook redelivery queued',
+      );
+      res.status(202).send({ deliveryId, status: 'PENDING' });
+    } catch (error) {
+      logger.error(
         {
-          jobId,
-          htmlSnippet:
-            htmlContent.substring(0, 500) +
-            '...' +
-            htmlContent.substring(htmlContent.length - 500),
-          htmlLength: htmlContent.length,
+          deliveryId,
+          error: error instanceof Error ? error.message : String(error),
+          stack: error instanceof Error ? error.stack : undefined,
         },
-        'Generated HTML content for report (snippet)',
+        'Failed to queue webhook redelivery',
       );
+      res.status(500).send({
+        message: 'Internal server error while queueing redelivery',
+      });
     }
-    // For more thorough debugging, you could write htmlContent to a temporary file:
-    // fs.writeFileSync(`/tmp/report-${jobId}.html`, htmlContent);
-    // logger.info({ jobId }, `HTML content saved to /tmp/report-${jobId}.html`);
+  },
+);
 
-    res.setHeader('Content-Type', 'text/html');
-    res.send(htmlContent);
-    logger.info({ jobId }, 'HTML report sent successfully');
+// Shapes an api_keys row (joined with this month's usage) for admin responses
+function toApiKeySummary(row: {
+  id: number;
+  name: string;
+  key_prefix: string;
+  scopes: string[];
+  monthly_scan_quota: number | null;
+  created_at: Date;
+  rotated_at: Date | null;
+  revoked_at: Date | null;
+  last_used_at: Date | null;
+  scans_this_month?: number | null;
+}) {
+  return {
+    id: row.id,
+    name: row.name,
+    keyPrefix: row.key_prefix,
+    scopes: row.scopes,
+    monthlyScanQuota: row.monthly_scan_quota,
+    scansThisMonth: row.scans_this_month ?? 0,
+    createdAt: row.created_at,
+    rotatedAt: row.rotated_at,
+    revokedAt: row.revoked_at,
+    lastUsedAt: row.last_used_at,
+  };
+}
+
+/**
+ * @swagger
+ * /api/admin/api-keys:
+ *   get:
+ *     summary: List API keys with their usage for the current month
+ *     tags: [Admin]
+ *   post:
+ *     summary: Create an API key. The plaintext key is only returned once.
+ *     tags: [Admin]
+ */
+app.get('/api/admin/api-keys', async (req: Request, res: Response) => {
+  try {
+    const { rows } = await pool.query(
+      `SELECT k.*, u.scan_count AS scans_this_month
+       FROM api_keys k
+       LEFT JOIN api_key_usage u
+         ON u.api_key_id = k.id
+        AND u.period_start = date_trunc('month', current_timestamp)::date
+       ORDER BY k.created_at DESC`,
+    );
+    res.status(200).send({ apiKeys: rows.map(toApiKeySummary) });
   } catch (error) {
-    let errorMessage = 'Failed to generate HTML report';
-    if (error instanceof Error) {
-      errorMessage = error.message;
+    logger.error({ err: error }, 'Failed to list API keys');
+    res
+      .status(500)
+      .send({ message: 'Internal server error while listing API keys' });
+  }
+});
+
+app.post('/api/admin/api-keys', async (req: Request, res: Response) => {
+  const validationResult = createApiKeySchema.safeParse(req.body);
+  if (!validationResult.success) {
+    return res.status(400).send({
+      message: 'Invalid request body',
+      errors: validationResult.error.issues,
+    });
+  }
+
+  const { name, scopes, monthlyScanQuota } = validationResult.data;
+  const { apiKey, keyPrefix, keyHash } = generateApiKey();
+
+  try {
+    const { rows } = await pool.query(
+      `INSERT INTO api_keys (name, key_prefix, key_hash, scopes, monthly_scan_quota)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING *`,
+      [name, keyPrefix, keyHash, scopes, monthlyScanQuota],
+    );
+    logger.info(
+      { apiKeyId: rows[0].id, createdBy: getApiKey(res).id },
+      'API key created',
+    );
+    res.status(201).send({ ...toApiKeySummary(rows[0]), apiKey });
+  } catch (error) {
+    logger.error({ err: error }, 'Failed to create API key');
+    res
+      .status(500)
+      .send({ message: 'Internal server error while creating API key' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/api-keys/{id}/rotate:
+ *   post:
+ *     summary: Replace the secret of an API key, keeping its scopes, quota and scans
+ *     tags: [Admin]
+ */
+app.post(
+  '/api/admin/api-keys/:id/rotate',
+  async (req: Request, res: Response) => {
+    const idResult = apiKeyIdParamSchema.safeParse(req.params.id);
+    if (!idResult.success) {
+      return res.status(400).send({ message: 'Invalid API key ID' });
+    }
+
+    const { apiKey, keyPrefix, keyHash } = generateApiKey();
+
+    try {
+      const { rows } = await pool.query(
+        `UPDATE api_keys
+         SET key_prefix = $2, key_hash = $3, rotated_at = current_timestamp
+         WHERE id = $1 AND revoked_at IS NULL
+         RETURNING *`,
+        [idResult.data, keyPrefix, keyHash],
+      );
+      if (rows.length === 0) {
+        return res
+          .status(404)
+          .send({ message: 'API key not found or already revoked' });
+      }
+      logger.info(
+        { apiKeyId: idResult.data, rotatedBy: getApiKey(res).id },
+        'API key rotated',
+      );
+      res.status(200).send({ ...toApiKeySummary(rows[0]), apiKey });
+    } catch (error) {
+      logger.error(
+        { err: error, apiKeyId: idResult.data },
+        'Failed to rotate API key',
+      );
+      res
+        .status(500)
+        .send({ message: 'Internal server error while rotating API key' });
+    }
+  },
+);
+
+/**
+ * @swagger
+ * /api/admin/api-keys/{id}:
+ *   delete:
+ *     summary: Revoke an API key. Its scan results are kept.
+ *     tags: [Admin]
+ */
+app.delete('/api/admin/api-keys/:id', async (req: Request, res: Response) => {
+  const idResult = apiKeyIdParamSchema.safeParse(req.params.id);
+  if (!idResult.success) {
+    return res.status(400).send({ message: 'Invalid API key ID' });
+  }
+
+  try {
+    const { rows } = await pool.query(
+      `UPDATE api_keys SET revoked_at = current_timestamp
+       WHERE id = $1 AND revoked_at IS NULL
+       RETURNING *`,
+      [idResult.data],
+    );
+    if (rows.length === 0) {
+      return res
+        .status(404)
+        .send({ message: 'API key not found or already revoked' });
     }
+    logger.info(
+      { apiKeyId: idResult.data, revokedBy: getApiKey(res).id },
+      'API key revoked',
+    );
+    res.status(200).send(toApiKeySummary(rows[0]));
+  } catch (error) {
     logger.error(
-      {
-        jobId,
-        error: errorMessage,
-        stack: error instanceof Error ? error.stack : undefined,
-      },
-      'Error generating HTML report',
+      { err: error, apiKeyId: idResult.data },
+      'Failed to revoke API key',
     );
     res
       .status(500)
-      .send({ message: 'Internal server error while generating HTML report' });
+      .send({ message: 'Internal server error while revoking API key' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/retention/preview:
+ *   get:
+ *     summary: Report what the retention policy would delete, without deleting anything
+ *     tags: [Admin]
+ */
+app.get('/api/admin/retention/preview', async (req: Request, res: Response) => {
+  const queryResult = retentionPreviewQuerySchema.safeParse(req.query);
+  if (!queryResult.success) {
+    return res.status(400).send({
+      message: 'Invalid query parameters',
+      errors: queryResult.error.issues,
+    });
+  }
+  const { limit, ...overrides } = queryResult.data;
+  const policy: RetentionPolicy = {
+    screenshotMaxAgeDays:
+      overrides.screenshotDays ?? retentionPolicy.screenshotMaxAgeDays,
+    resultMaxAgeDays: overrides.resultDays ?? retentionPolicy.resultMaxAgeDays,
+    maxScansPerUrl: overrides.maxScansPerUrl ?? retentionPolicy.maxScansPerUrl,
+    keepLatestPerUrl:
+      overrides.keepLatestPerUrl ?? retentionPolicy.keepLatestPerUrl,
+  };
+
+  try {
+    res.status(200).send(await previewRetention(pool, policy, limit));
+  } catch (error) {
+    logger.error({ err: error, policy }, 'Failed to preview retention policy');
+    res.status(500).send({
+      message: 'Internal server error while previewing retention policy',
+    });
   }
 });
 
@@ -1012,6 +4646,47 @@ async function shutdown(signal: keyof typeof signals, value: number) {
     logger.error({ err }, `Error closing BullMQ queue '${SCAN_QUEUE_NAME}'.`);
   }
 
+  try {
+    await scanQueueEvents.close();
+    logger.info(`BullMQ queue events for '${SCAN_QUEUE_NAME}' closed.`);
+  } catch (err) {
+    logger.error(
+      { err },
+      `Error closing BullMQ queue events for '${SCAN_QUEUE_NAME}'.`,
+    );
+  }
+
+  try {
+    await reportPdfQueue.close();
+    await reportPdfQueueEvents.close();
+    logger.info(`BullMQ queue '${REPORT_PDF_QUEUE_NAME}' closed.`);
+  } catch (err) {
+    logger.error(
+      { err },
+      `Error closing BullMQ queue '${REPORT_PDF_QUEUE_NAME}'.`,
+    );
+  }
+
+  try {
+    await siteCrawlQueue.close();
+    logger.info(`BullMQ queue '${SITE_CRAWL_QUEUE_NAME}' closed.`);
+  } catch (err) {
+    logger.error(
+      { err },
+      `Error closing BullMQ queue '${SITE_CRAWL_QUEUE_NAME}'.`,
+    );
+  }
+
+  try {
+    await webhookQueue.close();
+    logger.info(`BullMQ queue '${WEBHOOK_QUEUE_NAME}' closed.`);
+  } catch (err) {
+    logger.error(
+      { err },
+      `Error closing BullMQ queue '${WEBHOOK_QUEUE_NAME}'.`,
+    );
+  }
+
   // Close PostgreSQL pool
   try {
     await pool.end();
@@ -0,0 +1,128 @@
+import { Request, Response } from 'express';
+import IORedis from 'ioredis';
+import { Logger } from 'pino';
+import { createRateLimiter } from './rateLimiter';
+
+const config = { windowMs: 60000, maxPerIp: 3, maxPerKey: 5 };
+
+function setup() {
+  const counters = new Map<string, number>();
+  const redis = {
+    eval: jest.fn(async (_script: string, _keys: number, key: string) => {
+      const count = (counters.get(key) ?? 0) + 1;
+      counters.set(key, count);
+      return [count, 30000];
+    }),
+  };
+  const logger = { warn: jest.fn(), error: jest.fn() };
+  const limiter = createRateLimiter(
+    redis as unknown as IORedis,
+    'scan',
+    config,
+    logger as unknown as Logger,
+  );
+  return { redis, logger, limiter };
+}
+
+function request(headers: Record<string, string> = {}, ip = '203.0.113.7') {
+  return {
+    ip,
+    path: '/api/scan-website',
+    header: (name: string) => headers[name.toLowerCase()],
+  } as unknown as Request;
+}
+
+async function send(
+  limiter: ReturnType<typeof createRateLimiter>,
+  req: Request,
+) {
+  const headers: Record<string, string> = {};
+  const res = {
+    statusCode: 200,
+    body: undefined as unknown,
+    setHeader: jest.fn((name: string, value: string) => {
+      headers[name] = value;
+    }),
+    status: jest.fn(function (this: { statusCode: number }, code: number) {
+      this.statusCode = code;
+      return this;
+    }),
+    send: jest.fn(function (this: { body: unknown }, body: unknown) {
+      this.body = body;
+      return this;
+    }),
+  };
+  const next = jest.fn();
+  await limiter(req, res as unknown as Response, next);
+  return { res, headers, next };
+}
+
+describe('createRateLimiter', () => {
+  it('sets the rate limit headers on allowed requests', async () => {
+    const { limiter } = setup();
+    const { headers, next } = await send(limiter, request());
+    expect(next).toHaveBeenCalled();
+    expect(headers).toEqual({
+      'RateLimit-Limit': '3',
+      'RateLimit-Remaining': '2',
+      'RateLimit-Reset': '30',
+    });
+  });
+
+  it('answers 429 with Retry-After once the IP is over its limit', async () => {
+    const { limiter, logger } = setup();
+    for (let i = 0; i < 3; i++) await send(limiter, request());
+    const { res, headers, next } = await send(limiter, request());
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(429);
+    expect(res.body).toEqual({
+      message: 'Too many requests. Please try again later.',
+    });
+    expect(headers['RateLimit-Remaining']).toBe('0');
+    expect(headers['Retry-After']).toBe('30');
+    expect(logger.warn).toHaveBeenCalled();
+  });
+
+  it('counts each IP separately', async () => {
+    const { limiter } = setup();
+    for (let i = 0; i < 3; i++) await send(limiter, request());
+    const { next } = await send(limiter, request({}, '198.51.100.1'));
+    expect(next).toHaveBeenCalled();
+  });
+
+  it('limits requests with an API key by key as well as by IP', async () => {
+    const { limiter, redis } = setup();
+    const withKey = request({ 'x-api-key': 'key-1' });
+    const first = await send(limiter, withKey);
+    expect(redis.eval).toHaveBeenCalledTimes(2);
+    expect(redis.eval.mock.calls.map((call) => call[2])).toEqual([
+      expect.stringMatching(/^ratelimit:scan:ip:203\.0\.113\.7:\d+$/),
+      expect.stringMatching(/^ratelimit:scan:key:[0-9a-f]{64}:\d+$/),
+    ]);
+    // The tighter of the two limits is reported
+    expect(first.headers['RateLimit-Limit']).toBe('3');
+
+    // Spread over many IPs, the key still runs into its own limit
+    for (let i = 2; i <= 5; i++) {
+      await send(limiter, request({ 'x-api-key': 'key-1' }, `192.0.2.${i}`));
+    }
+    const { res, headers } = await send(
+      limiter,
+      request({ authorization: 'Bearer key-1' }, '192.0.2.99'),
+    );
+    expect(res.statusCode).toBe(429);
+    expect(headers['RateLimit-Limit']).toBe('5');
+  });
+
+  it('allows requests when Redis fails', async () => {
+    const { limiter, redis, logger } = setup();
+    redis.eval.mockRejectedValueOnce(new Error('connection lost'));
+    const { res, next } = await send(limiter, request());
+    expect(next).toHaveBeenCalled();
+    expect(res.status).not.toHaveBeenCalled();
+    expect(logger.error).toHaveBeenCalledWith(
+      { route: 'scan', error: 'connection lost' },
+      'Rate limiter unavailable, allowing request',
+    );
+  });
+});
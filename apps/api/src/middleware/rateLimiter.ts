@@ -0,0 +1,246 @@
+import { NextFunction, Request, Response } from 'express';
+import IORedis from 'ioredis';
+import { Logger } from 'pino';
+import { extractApiKey, hashApiKey } from '../auth/apiKeys';
+
+const KEY_PREFIX = 'ratelimit';
+
+// Increments a fixed-window counter and returns [count, remaining TTL in ms]
+const INCREMENT_WINDOW_SCRIPT = `
+local current = redis.call('INCR', KEYS[1])
+if current == 1 then
+  redis.call('PEXPIRE', KEYS[1], ARGV[1])
+end
+return { current, redis.call('PTTL', KEYS[1]) }
+`;
+
+export interface RateLimitConfig {
+  windowMs: number;
+  maxPerIp: number;
+  maxPerKey: number;
+}
+
+export interface InFlightLimitConfig {
+  maxInFlight: number;
+  staleAfterMs: number;
+  retryAfterSeconds: number;
+}
+
+interface ClientIdentity {
+  kind: 'ip' | 'key';
+  id: string;
+}
+
+function readIntEnv(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (!raw) return fallback;
+  const parsed = Number.parseInt(raw, 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/**
+ * Reads the limits for a route from RATE_LIMIT_<ROUTE>_WINDOW_MS,
+ * RATE_LIMIT_<ROUTE>_MAX_PER_IP and RATE_LIMIT_<ROUTE>_MAX_PER_KEY.
+ */
+export function loadRateLimitConfig(
+  route: string,
+  defaults: RateLimitConfig,
+): RateLimitConfig {
+  const prefix = `RATE_LIMIT_${route}`;
+  return {
+    windowMs: readIntEnv(`${prefix}_WINDOW_MS`, defaults.windowMs),
+    maxPerIp: readIntEnv(`${prefix}_MAX_PER_IP`, defaults.maxPerIp),
+    maxPerKey: readIntEnv(`${prefix}_MAX_PER_KEY`, defaults.maxPerKey),
+  };
+}
+
+export function loadInFlightLimitConfig(
+  defaults: InFlightLimitConfig,
+): InFlightLimitConfig {
+  return {
+    maxInFlight: readIntEnv('RATE_LIMIT_MAX_IN_FLIGHT', defaults.maxInFlight),
+    staleAfterMs: readIntEnv(
+      'RATE_LIMIT_IN_FLIGHT_STALE_MS',
+      defaults.staleAfterMs,
+    ),
+    retryAfterSeconds: readIntEnv(
+      'RATE_LIMIT_IN_FLIGHT_RETRY_AFTER_S',
+      defaults.retryAfterSeconds,
+    ),
+  };
+}
+
+// Every request is limited by IP; requests carrying an API key are also limited by key
+function getClientIdentities(req: Request): ClientIdentity[] {
+  const identities: ClientIdentity[] = [
+    { kind: 'ip', id: req.ip || 'unknown' },
+  ];
+  const apiKey = extractApiKey(req);
+  if (apiKey) {
+    identities.push({ kind: 'key', id: hashApiKey(apiKey) });
+  }
+  return identities;
+}
+
+function setRateLimitHeaders(
+  res: Response,
+  limit: number,
+  remaining: number,
+  resetSeconds: number,
+) {
+  res.setHeader('RateLimit-Limit', String(limit));
+  res.setHeader('RateLimit-Remaining', String(Math.max(0, remaining)));
+  res.setHeader('RateLimit-Reset', String(resetSeconds));
+}
+
+/**
+ * Fixed-window request limiter. Counters live in Redis so the limits hold
+ * across API replicas. Redis errors fail open so an outage does not take
+ * the API down with it.
+ */
+export function createRateLimiter(
+  redis: IORedis,
+  route: string,
+  config: RateLimitConfig,
+  logger: Logger,
+) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const windowStart = Math.floor(Date.now() / config.windowMs);
+
+    try {
+      let tightest: {
+        limit: number;
+        remaining: number;
+        resetSeconds: number;
+      } | null = null;
+
+      for (const identity of getClientIdentities(req)) {
+        const limit =
+          identity.kind === 'ip' ? config.maxPerIp : config.maxPerKey;
+        const key = `${KEY_PREFIX}:${route}:${identity.kind}:${identity.id}:${windowStart}`;
+        const [count, ttlMs] = (await redis.eval(
+          INCREMENT_WINDOW_SCRIPT,
+          1,
+          key,
+          config.windowMs,
+        )) as [number, number];
+
+        const remaining = limit - count;
+        const resetSeconds = Math.max(
+          1,
+          Math.ceil((ttlMs > 0 ? ttlMs : config.windowMs) / 1000),
+        );
+        if (!tightest || remaining < tightest.remaining) {
+          tightest = { limit, remaining, resetSeconds };
+        }
+      }
+
+      if (tightest) {
+        setRateLimitHeaders(
+          res,
+          tightest.limit,
+          tightest.remaining,
+          tightest.resetSeconds,
+        );
+        if (tightest.remaining < 0) {
+          logger.warn(
+            { route, ip: req.ip, path: req.path },
+            'Rate limit exceeded',
+          );
+          res.setHeader('Retry-After', String(tightest.resetSeconds));
+          return res.status(429).send({
+            message: 'Too many requests. Please try again later.',
+          });
+        }
+      }
+    } catch (error) {
+      logger.error(
+        { route, error: error instanceof Error ? error.message : error },
+        'Rate limiter unavailable, allowing request',
+      );
+    }
+
+    next();
+  };
+}
+
+/**
+ * Limits how many jobs a client may have queued or running at once.
+ * Job IDs are tracked in a sorted set per client; entries are pruned when
+ * `isJobFinished` reports them done or when they are older than
+ * `staleAfterMs`.
+ */
+export function createInFlightLimiter(
+  redis: IORedis,
+  route: string,
+  config: InFlightLimitConfig,
+  isJobFinished: (jobId: string) => Promise<boolean>,
+  logger: Logger,
+) {
+  const keyFor = (identity: ClientIdentity) =>
+    `${KEY_PREFIX}:inflight:${route}:${identity.kind}:${identity.id}`;
+
+  const countInFlight = async (key: string): Promise<number> => {
+    await redis.zremrangebyscore(key, 0, Date.now() - config.staleAfterMs);
+    const jobIds = await redis.zrange(key, 0, -1);
+    const finished: string[] = [];
+    for (const jobId of jobIds) {
+      if (await isJobFinished(jobId)) finished.push(jobId);
+    }
+    if (finished.length > 0) await redis.zrem(key, ...finished);
+    return jobIds.length - finished.length;
+  };
+
+  const middleware = async (
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ) => {
+    try {
+      for (const identity of getClientIdentities(req)) {
+        const inFlight = await countInFlight(keyFor(identity));
+        if (inFlight >= config.maxInFlight) {
+          logger.warn(
+            { route, ip: req.ip, inFlight },
+            'Concurrent in-flight job limit exceeded',
+          );
+          setRateLimitHeaders(
+            res,
+            config.maxInFlight,
+            0,
+            config.retryAfterSeconds,
+          );
+          res.setHeader('Retry-After', String(config.retryAfterSeconds));
+          return res.status(429).send({
+            message: `Too many scans in progress. At most ${config.maxInFlight} may be queued or running at once.`,
+          });
+        }
+      }
+    } catch (error) {
+      logger.error(
+        { route, error: error instanceof Error ? error.message : error },
+        'In-flight limiter unavailable, allowing request',
+      );
+    }
+
+    next();
+  };
+
+  // Records a newly enqueued job against every identity of the requesting client
+  const track = async (req: Request, jobId: string): Promise<void> => {
+    try {
+      for (const identity of getClientIdentities(req)) {
+        const key = keyFor(identity);
+        await redis.zadd(key, Date.now(), jobId);
+        await redis.pexpire(key, config.staleAfterMs);
+      }
+    } catch (error) {
+      logger.error(
+        { route, jobId, error: error instanceof Error ? error.message : error },
+        'Failed to track in-flight job',
+      );
+    }
+  };
+
+  return { middleware, track };
+}
@@ -0,0 +1,164 @@
+import { StoredScore } from '../db/storedScores';
+import { AxeViolation } from '../types/axe';
+import { buildJUnitXml, JUnitScan } from './junit';
+
+const noScore: StoredScore = {
+  score: null,
+  healthLevel: null,
+  violationCounts: null,
+  needsReviewCount: null,
+  scoringModelVersion: null,
+};
+
+const imageAlt: AxeViolation = {
+  id: 'image-alt',
+  description: 'Ensures <img> elements have alternate text',
+  help: 'Images must have alternate text',
+  helpUrl: 'https://dequeuniversity.com/rules/axe/4.9/image-alt',
+  impact: 'critical',
+  nodes: [
+    {
+      html: '<img src="a&b.png">',
+      target: ['header > img'],
+      failureSummary:
+        'Fix any of the following:\n  Element has no alt attribute',
+    },
+    { html: '<img src="hero.png">', target: ['main img'] },
+  ],
+};
+
+const colorContrast: AxeViolation = {
+  id: 'color-contrast',
+  description: 'Ensures sufficient colour contrast',
+  help: 'Elements must have "sufficient" contrast',
+  helpUrl: '',
+  nodes: [{ html: '<p>Note</p>', target: ['p'] }],
+};
+
+const documentTitle: AxeViolation = {
+  id: 'document-title',
+  description: 'Ensures each page has a title',
+  help: 'Documents must have <title> element',
+  helpUrl: '',
+  nodes: [],
+};
+
+const scanned: JUnitScan = {
+  jobId: 'job-1',
+  url: 'https://example.com/?a=1&b=2',
+  scanTimestamp: '2024-05-01T12:00:00.123Z',
+  scanSuccess: true,
+  storedScore: {
+    score: 72,
+    healthLevel: 'Needs Improvement',
+    violationCounts: {
+      critical: 2,
+      serious: 0,
+      moderate: 0,
+      minor: 0,
+      total: 2,
+    },
+    needsReviewCount: 1,
+    scoringModelVersion: 1,
+  },
+  violations: [imageAlt, { ...colorContrast, impact: undefined }],
+  incomplete: [colorContrast],
+  passes: [documentTitle],
+};
+
+const failed: JUnitScan = {
+  jobId: 'job-2',
+  url: 'https://example.com/down',
+  scanSuccess: false,
+  errorMessage: 'net::ERR_NAME_NOT_RESOLVED\u0007',
+  storedScore: noScore,
+  violations: [],
+  incomplete: [],
+  passes: [],
+};
+
+describe('buildJUnitXml', () => {
+  const xml = buildJUnitXml([scanned, failed]);
+
+  it('totals the suites on the root element', () => {
+    expect(xml.startsWith('<?xml version="1.0" encoding="UTF-8"?>\n')).toBe(
+      true,
+    );
+    expect(xml).toContain(
+      '<testsuites name="Accessibility scan" tests="5" failures="2" errors="1" skipped="1">',
+    );
+    expect(xml.endsWith('</testsuites>\n')).toBe(true);
+  });
+
+  it('counts the cases of each scan and carries its score', () => {
+    expect(xml).toContain(
+      [
+        '  <testsuite name="https://example.com/?a=1&amp;b=2" tests="4" failures="2" errors="0" skipped="1" timestamp="2024-05-01T12:00:00">',
+        '    <properties>',
+        '      <property name="jobId" value="job-1"/>',
+        '      <property name="url" value="https://example.com/?a=1&amp;b=2"/>',
+        '      <property name="score" value="72"/>',
+        '      <property name="healthLevel" value="Needs Improvement"/>',
+        '      <property name="scoringModelVersion" value="1"/>',
+        '    </properties>',
+      ].join('\n'),
+    );
+  });
+
+  it('fails a violated rule with its escaped elements', () => {
+    expect(xml).toContain(
+      [
+        '    <testcase name="image-alt" classname="https://example.com/?a=1&amp;b=2">',
+        '      <failure message="Images must have alternate text (2 elements)" type="critical">Ensures &lt;img&gt; elements have alternate text',
+        'Help: https://dequeuniversity.com/rules/axe/4.9/image-alt',
+        '',
+        'Element 1 of 2: header &gt; img',
+        '&lt;img src=&quot;a&amp;b.png&quot;&gt;',
+        'Fix any of the following:',
+        '  Element has no alt attribute',
+        '',
+        'Element 2 of 2: main img',
+        '&lt;img src=&quot;hero.png&quot;&gt;</failure>',
+        '    </testcase>',
+      ].join('\n'),
+    );
+    expect(xml).toContain(
+      '<failure message="Elements must have &quot;sufficient&quot; contrast (1 element)" type="unknown">',
+    );
+  });
+
+  it('skips rules needing review and passes passing rules', () => {
+    expect(xml).toContain(
+      [
+        '    <testcase name="color-contrast" classname="https://example.com/?a=1&amp;b=2">',
+        '      <skipped message="Needs manual review: Elements must have &quot;sufficient&quot; contrast"/>',
+        '    </testcase>',
+      ].join('\n'),
+    );
+    expect(xml).toContain(
+      '    <testcase name="document-title" classname="https://example.com/?a=1&amp;b=2"/>',
+    );
+  });
+
+  it('reports a failed scan as one errored case, without control characters', () => {
+    expect(xml).toContain(
+      [
+        '  <testsuite name="https://example.com/down" tests="1" failures="0" errors="1" skipped="0">',
+        '    <properties>',
+        '      <property name="jobId" value="job-2"/>',
+        '      <property name="url" value="https://example.com/down"/>',
+        '    </properties>',
+        '    <testcase name="scan" classname="https://example.com/down">',
+        '      <error message="net::ERR_NAME_NOT_RESOLVED" type="ScanError"/>',
+        '    </testcase>',
+        '  </testsuite>',
+      ].join('\n'),
+    );
+  });
+
+  it('writes an empty report for no scans', () => {
+    expect(buildJUnitXml([])).toBe(
+      '<?xml version="1.0" encoding="UTF-8"?>\n<testsuites name="Accessibility scan" tests="0" failures="0" errors="0" skipped="0">\n</testsuites>\n',
+    );
+  });
+});
@@ -0,0 +1,165 @@
+import { StoredScore } from '../db/storedScores';
+import { AxeViolation } from '../types/axe';
+import { escapeXml } from './xml';
+
+export interface JUnitScan {
+  jobId: string;
+  url: string;
+  scanTimestamp?: string | Date;
+  scanSuccess: boolean;
+  errorMessage?: string | null;
+  storedScore: StoredScore;
+  violations: AxeViolation[];
+  // Reported as skipped cases, since axe could not decide them
+  incomplete: AxeViolation[];
+  // Empty for scans saved before passing rules were stored
+  passes: AxeViolation[];
+}
+
+interface SuiteCounts {
+  tests: number;
+  failures: number;
+  errors: number;
+  skipped: number;
+}
+
+function attributes(values: Record<string, string | number>): string {
+  return Object.entries(values)
+    .map(([name, value]) => ` ${name}="${escapeXml(String(value))}"`)
+    .join('');
+}
+
+// Lists every failing element with its selector, HTML and axe's summary of the fix
+function failureDetails(violation: AxeViolation): string {
+  const nodes = violation.nodes ?? [];
+  const elements = nodes.map(
+    (node, index) =>
+      `\nElement ${index + 1} of ${nodes.length}: ${(node.target ?? []).join(', ')}\n${node.html}` +
+      (node.failureSummary ? `\n${node.failureSummary}` : ''),
+  );
+  return [
+    violation.description,
+    `Help: ${violation.helpUrl}`,
+    ...elements,
+  ].join('\n');
+}
+
+function testcase(
+  name: string,
+  classname: string,
+  body: string | null,
+): string {
+  const open = `    <testcase${attributes({ name, classname })}`;
+  return body === null ? `${open}/>` : `${open}>\n${body}\n    </testcase>`;
+}
+
+function suiteXml(scan: JUnitScan): { xml: string; counts: SuiteCounts } {
+  const classname = scan.url;
+  const cases: string[] = [];
+  const counts: SuiteCounts = { tests: 0, failures: 0, errors: 0, skipped: 0 };
+  const properties: Record<string, string | number> = {
+    jobId: scan.jobId,
+    url: scan.url,
+  };
+
+  if (!scan.scanSuccess) {
+    cases.push(
+      testcase(
+        'scan',
+        classname,
+        `      <error${attributes({
+          message: scan.errorMessage || 'Scan failed',
+          type: 'ScanError',
+        })}/>`,
+      ),
+    );
+    counts.tests += 1;
+    counts.errors += 1;
+  } else {
+    // Left out for older scans until the recompute command has run
+    const { score, healthLevel, scoringModelVersion } = scan.storedScore;
+    if (score !== null) properties.score = score;
+    if (healthLevel !== null) properties.healthLevel = healthLevel;
+    if (scoringModelVersion !== null) {
+      properties.scoringModelVersion = scoringModelVersion;
+    }
+
+    scan.violations.forEach((violation) => {
+      const elements = violation.nodes?.length ?? 0;
+      cases.push(
+        testcase(
+          violation.id,
+          classname,
+          `      <failure${attributes({
+            message: `${violation.help} (${elements} ${elements === 1 ? 'element' : 'elements'})`,
+            type: violation.impact ?? 'unknown',
+          })}>${escapeXml(failureDetails(violation))}</failure>`,
+        ),
+      );
+    });
+    scan.incomplete.forEach((violation) =>
+      cases.push(
+        testcase(
+          violation.id,
+          classname,
+          `      <skipped${attributes({ message: `Needs manual review: ${violation.help}` })}/>`,
+        ),
+      ),
+    );
+    scan.passes.forEach((violation) =>
+      cases.push(testcase(violation.id, classname, null)),
+    );
+    counts.failures = scan.violations.length;
+    counts.skipped = scan.incomplete.length;
+    counts.tests =
+      scan.violations.length + scan.incomplete.length + scan.passes.length;
+  }
+
+  const suiteAttributes: Record<string, string | number> = {
+    name: scan.url,
+    ...counts,
+  };
+  if (scan.scanTimestamp) {
+    // JUnit timestamps are ISO 8601 without a time zone
+    suiteAttributes.timestamp = new Date(scan.scanTimestamp)
+      .toISOString()
+      .slice(0, 19);
+  }
+  const xml = [
+    `  <testsuite${attributes(suiteAttributes)}>`,
+    '    <properties>',
+    ...Object.entries(properties).map(
+      ([name, value]) => `      <property${attributes({ name, value })}/>`,
+    ),
+    '    </properties>',
+    ...cases,
+    '  </testsuite>',
+  ].join('\n');
+  return { xml, counts };
+}
+
+/**
+ * Maps scans to a JUnit XML report for CI: each page is a testsuite and each
+ * axe rule a testcase. Violated rules fail with their elements, rules needing
+ * review are skipped and passing rules pass. A scan that failed is a suite
+ * with one errored case. Suite properties carry the score and health level.
+ */
+export function buildJUnitXml(scans: JUnitScan[]): string {
+  const suites = scans.map(suiteXml);
+  const totals = suites.reduce<SuiteCounts>(
+    (sum, { counts }) => ({
+      tests: sum.tests + counts.tests,
+      failures: sum.failures + counts.failures,
+      errors: sum.errors + counts.errors,
+      skipped: sum.skipped + counts.skipped,
+    }),
+    { tests: 0, failures: 0, errors: 0, skipped: 0 },
+  );
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites${attributes({ name: 'Accessibility scan', ...totals })}>`,
+    ...suites.map(({ xml }) => xml),
+    '</testsuites>',
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,110 @@
+import { createHash } from 'crypto';
+import { Queue, QueueEvents } from 'bullmq';
+import { Pool } from 'pg';
+import { Logger } from 'pino';
+import { BlobStore } from '@accessibility-scanner-backend/blob-store';
+import {
+  ReportPdfJobData,
+  ReportPdfJobResult,
+  ReportPdfLabels,
+} from '@accessibility-scanner-backend/report-pdf';
+
+const PENDING_STATES = new Set([
+  'waiting',
+  'waiting-children',
+  'prioritized',
+  'delayed',
+  'active',
+]);
+
+/**
+ * PDF reports are printed by the worker and cached per scan and variant
+ * (locale and time zone): the worker stores the PDF in the blob store and
+ * its key in scan_report_pdfs. One render job per scan and variant is queued
+ * at a time; concurrent requests wait on the same job.
+ */
+export function createReportPdfRenderer(
+  pool: Pool,
+  blobStore: BlobStore,
+  queue: Queue<ReportPdfJobData, ReportPdfJobResult>,
+  queueEvents: QueueEvents,
+  logger: Logger,
+) {
+  // Resolves to null when the scan has no cached PDF of this variant yet
+  const findCached = async (
+    scanResultId: number,
+    variant: string,
+  ): Promise<Buffer | null> => {
+    const { rows } = await pool.query(
+      'SELECT pdf_key FROM scan_report_pdfs WHERE scan_result_id = $1 AND variant = $2',
+      [scanResultId, variant],
+    );
+    const key = rows[0]?.pdf_key;
+    if (!key) return null;
+    const blob = await blobStore.get(key);
+    if (!blob) {
+      logger.warn({ scanResultId, key }, 'Cached PDF report is missing');
+      return null;
+    }
+    return blob.body;
+  };
+
+  /**
+   * Queues a render unless one is already pending, then waits up to
+   * `waitMs` for it. Resolves to null while the PDF is still being
+   * rendered. `buildHtml` is only called when a new job is queued.
+   */
+  const render = async (
+    scan: { id: number; jobId: string; url: string; scanDate: string },
+    variant: string,
+    labels: ReportPdfLabels,
+    buildHtml: () => Promise<string>,
+    waitMs: number,
+  ): Promise<Buffer | null> => {
+    // Time zone names contain slashes, which job IDs and blob keys should not
+    const variantId = createHash('sha256')
+      .update(variant)
+      .digest('hex')
+      .slice(0, 16);
+    const queueJobId = `report-pdf-${scan.id}-${variantId}`;
+    let job = await queue.getJob(queueJobId);
+    if (!job) {
+      const htmlKey = `reports/${scan.jobId}/report-${variantId}.html`;
+      await blobStore.put(
+        htmlKey,
+        Buffer.from(await buildHtml(), 'utf8'),
+        'text/html',
+      );
+      job = await queue.add(
+        'render-report-pdf',
+        {
+          scanResultId: scan.id,
+          jobId: scan.jobId,
+          htmlKey,
+          url: scan.url,
+          scanDate: scan.scanDate,
+          variant,
+          labels,
+        },
+        { jobId: queueJobId, removeOnComplete: true, removeOnFail: true },
+      );
+      logger.info({ jobId: scan.jobId }, 'Queued PDF report render');
+    }
+
+    let result: ReportPdfJobResult;
+    try {
+      result = await job.waitUntilFinished(queueEvents, waitMs);
+    } catch (error) {
+      // A timeout leaves the job pending; anything else is a failed render
+      if (PENDING_STATES.has(await job.getState())) return null;
+      const cached = await findCached(scan.id, variant);
+      if (cached) return cached;
+      throw error;
+    }
+    const pdf = await blobStore.get(result.pdfKey);
+    if (!pdf) throw new Error('Rendered PDF report was not stored');
+    return pdf.body;
+  };
+
+  return { findCached, render };
+}
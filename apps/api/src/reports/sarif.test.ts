@@ -0,0 +1,163 @@
+import { fingerprintNode } from '../history/scanDiff';
+import { AxeViolation } from '../types/axe';
+import { buildSarifLog } from './sarif';
+
+const imageAlt: AxeViolation = {
+  id: 'image-alt',
+  description: 'Ensures <img> elements have alternate text',
+  help: 'Images must have alternate text',
+  helpUrl: 'https://dequeuniversity.com/rules/axe/4.9/image-alt',
+  impact: 'critical',
+  tags: ['wcag2a', 'wcag111'],
+  nodes: [
+    {
+      html: '<img src="logo.png">',
+      target: ['header > img'],
+      failureSummary: 'Fix any of the following: Element has no alt attribute',
+      any: [{ id: 'has-alt', message: 'Element has no alt attribute' }],
+    },
+    {
+      html: '<img src="hero.png">',
+      target: ['main img'],
+      impact: 'minor',
+    },
+  ],
+};
+
+const colorContrast: AxeViolation = {
+  id: 'color-contrast',
+  description: 'Ensures sufficient colour contrast',
+  help: 'Elements must meet minimum color contrast ratio thresholds',
+  helpUrl: '',
+  impact: 'serious',
+  nodes: [
+    {
+      html: '<p class="muted">Note</p>',
+      target: ['p.muted'],
+      any: [
+        {
+          id: 'color-contrast',
+          message: 'Element background could not be determined',
+          relatedNodes: [{ target: ['div.overlay'], html: '<div>' }],
+        },
+      ],
+    },
+  ],
+};
+
+describe('buildSarifLog', () => {
+  const log = buildSarifLog({
+    jobId: 'job-1',
+    url: 'https://example.com/page?utm=1',
+    normalizedUrl: 'https://example.com/page',
+    scanTimestamp: '2024-05-01T12:00:00Z',
+    axeVersion: '4.9.1',
+    score: 72,
+    violations: [imageAlt],
+    incomplete: [colorContrast],
+  });
+  const [run] = log.runs;
+
+  it('describes the run', () => {
+    expect(log.version).toBe('2.1.0');
+    expect(run.tool.driver).toMatchObject({
+      name: 'axe-core',
+      version: '4.9.1',
+    });
+    expect(run.automationDetails.id).toBe(
+      'accessibility/https%3A%2F%2Fexample.com%2Fpage/job-1',
+    );
+    expect(run.invocations).toEqual([
+      { executionSuccessful: true, endTimeUtc: '2024-05-01T12:00:00.000Z' },
+    ]);
+    expect(run.properties).toEqual({
+      jobId: 'job-1',
+      url: 'https://example.com/page?utm=1',
+      score: 72,
+    });
+  });
+
+  it('adds one rule per axe rule', () => {
+    expect(run.tool.driver.rules).toEqual([
+      expect.objectContaining({
+        id: 'image-alt',
+        helpUri: imageAlt.helpUrl,
+        defaultConfiguration: { level: 'error' },
+        properties: {
+          tags: ['accessibility', 'wcag2a', 'wcag111'],
+          impact: 'critical',
+        },
+      }),
+      expect.objectContaining({
+        id: 'color-contrast',
+        help: { text: colorContrast.help },
+      }),
+    ]);
+    expect(run.tool.driver.rules[1]).not.toHaveProperty('helpUri');
+  });
+
+  it('adds one result per failing element, rated by its own impact', () => {
+    const failures = run.results.filter((result) => result.kind === 'fail');
+    expect(failures.map((result) => [result.ruleIndex, result.level])).toEqual([
+      [0, 'error'],
+      [0, 'note'],
+    ]);
+    expect(failures[0]).toMatchObject({
+      message: {
+        text: 'Fix any of the following: Element has no alt attribute',
+      },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: 'https://example.com/page?utm=1' },
+            region: { snippet: { text: '<img src="logo.png">' } },
+          },
+          logicalLocations: [
+            { fullyQualifiedName: 'header > img', kind: 'element' },
+          ],
+        },
+      ],
+      relatedLocations: [
+        { id: 0, message: { text: 'Element has no alt attribute' } },
+      ],
+      partialFingerprints: {
+        'axeNodeFingerprint/v1': fingerprintNode(imageAlt.nodes![0]),
+      },
+    });
+    expect(failures[1].message.text).toBe(imageAlt.help);
+    expect(failures[1]).not.toHaveProperty('relatedLocations');
+  });
+
+  it('exports undecided checks as review results of level none', () => {
+    const reviews = run.results.filter((result) => result.kind === 'review');
+    expect(reviews).toHaveLength(1);
+    expect(reviews[0]).toMatchObject({
+      ruleId: 'color-contrast',
+      ruleIndex: 1,
+      level: 'none',
+      relatedLocations: [
+        {
+          message: { text: 'Element background could not be determined' },
+          logicalLocations: [
+            { fullyQualifiedName: 'div.overlay', kind: 'element' },
+          ],
+        },
+      ],
+    });
+  });
+
+  it('shares a rule between violations and review results', () => {
+    const shared = buildSarifLog({
+      jobId: 'job-2',
+      url: 'https://example.com/',
+      violations: [imageAlt],
+      incomplete: [{ ...imageAlt, nodes: [imageAlt.nodes![1]] }],
+    }).runs[0];
+    expect(shared.tool.driver.rules).toHaveLength(1);
+    expect(shared.results.map((result) => result.ruleIndex)).toEqual([0, 0, 0]);
+    expect(shared.invocations).toEqual([{ executionSuccessful: true }]);
+    expect(shared.automationDetails.id).toBe(
+      'accessibility/https%3A%2F%2Fexample.com%2F/job-2',
+    );
+  });
+});
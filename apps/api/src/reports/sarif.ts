@@ -0,0 +1,216 @@
+import { fingerprintNode } from '../history/scanDiff';
+import { AxeCheck, AxeNode, AxeViolation } from '../types/axe';
+
+// A SARIF 2.1.0 log, limited to the properties the export fills in
+
+// `none` is the only level allowed on results whose kind is not `fail`
+type SarifLevel = 'error' | 'warning' | 'note' | 'none';
+
+interface SarifMessage {
+  text: string;
+}
+
+interface SarifLocation {
+  id?: number;
+  message?: SarifMessage;
+  physicalLocation?: {
+    artifactLocation: { uri: string };
+    region: { snippet: { text: string } };
+  };
+  logicalLocations?: { fullyQualifiedName: string; kind: 'element' }[];
+}
+
+interface SarifRule {
+  id: string;
+  shortDescription: SarifMessage;
+  fullDescription: SarifMessage;
+  help: SarifMessage;
+  helpUri?: string;
+  defaultConfiguration: { level: SarifLevel };
+  properties: { tags: string[]; impact?: string };
+}
+
+interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  kind: 'fail' | 'review';
+  level: SarifLevel;
+  message: SarifMessage;
+  locations: SarifLocation[];
+  relatedLocations?: SarifLocation[];
+  partialFingerprints: Record<string, string>;
+}
+
+export interface SarifLog {
+  $schema: string;
+  version: '2.1.0';
+  runs: {
+    tool: {
+      driver: {
+        name: string;
+        version?: string;
+        informationUri: string;
+        rules: SarifRule[];
+      };
+    };
+    automationDetails: { id: string };
+    invocations: { executionSuccessful: boolean; endTimeUtc?: string }[];
+    results: SarifResult[];
+    properties: { jobId: string; url: string; score?: number | null };
+  }[];
+}
+
+export interface SarifScan {
+  jobId: string;
+  url: string;
+  // Groups the runs of one page, so consumers track results across its scans
+  normalizedUrl?: string | null;
+  scanTimestamp?: string | Date;
+  axeVersion?: string;
+  score?: number | null;
+  violations: AxeViolation[];
+  // Checks axe could not decide, exported as results of kind `review`
+  incomplete?: AxeViolation[];
+}
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+// The key of each result's fingerprintNode value; bump it if the fingerprint changes
+const FINGERPRINT_KEY = 'axeNodeFingerprint/v1';
+
+function impactToSarifLevel(impact: string | undefined): SarifLevel {
+  switch (impact) {
+    case 'critical':
+    case 'serious':
+      return 'error';
+    case 'minor':
+      return 'note';
+    default:
+      return 'warning';
+  }
+}
+
+function elementLocation(target: string[]) {
+  return { fullyQualifiedName: target.join(', '), kind: 'element' as const };
+}
+
+// Every check axe ran on the node, with the elements it refers to
+function checkLocations(node: AxeNode): SarifLocation[] {
+  const checks: AxeCheck[] = [
+    ...(node.any ?? []),
+    ...(node.all ?? []),
+    ...(node.none ?? []),
+  ];
+  return checks
+    .filter((check) => check.message)
+    .map((check, index) => {
+      const location: SarifLocation = {
+        id: index,
+        message: { text: check.message },
+      };
+      if (check.relatedNodes && check.relatedNodes.length > 0) {
+        location.logicalLocations = check.relatedNodes.map((related) =>
+          elementLocation(related.target),
+        );
+      }
+      return location;
+    });
+}
+
+/**
+ * Maps a scan to a SARIF log with one run: each rule becomes a reporting
+ * descriptor and each failing element a result, located by its selector
+ * and HTML snippet on the scanned URL. Results carry the node fingerprint
+ * used by GET /api/scan-diff, so the same element matches across scans.
+ */
+export function buildSarifLog(scan: SarifScan): SarifLog {
+  const rules: SarifRule[] = [];
+  const ruleIndexes = new Map<string, number>();
+  const results: SarifResult[] = [];
+
+  const addResults = (violations: AxeViolation[], kind: 'fail' | 'review') =>
+    violations.forEach((violation) => {
+      let ruleIndex = ruleIndexes.get(violation.id);
+      if (ruleIndex === undefined) {
+        ruleIndex = rules.length;
+        ruleIndexes.set(violation.id, ruleIndex);
+        rules.push({
+          id: violation.id,
+          shortDescription: { text: violation.help },
+          fullDescription: { text: violation.description },
+          help: {
+            text: violation.helpUrl
+              ? `${violation.help}. More information: ${violation.helpUrl}`
+              : violation.help,
+          },
+          ...(violation.helpUrl ? { helpUri: violation.helpUrl } : {}),
+          defaultConfiguration: {
+            level: impactToSarifLevel(violation.impact),
+          },
+          properties: {
+            tags: ['accessibility', ...(violation.tags ?? [])],
+            ...(violation.impact ? { impact: violation.impact } : {}),
+          },
+        });
+      }
+
+      (violation.nodes ?? []).forEach((node) => {
+        const relatedLocations = checkLocations(node);
+        results.push({
+          ruleId: violation.id,
+          ruleIndex,
+          kind,
+          level:
+            kind === 'review'
+              ? 'none'
+              : impactToSarifLevel(node.impact ?? violation.impact),
+          message: { text: node.failureSummary || violation.help },
+          locations: [
+            {
+              physicalLocation: {
+                artifactLocation: { uri: scan.url },
+                region: { snippet: { text: node.html } },
+              },
+              logicalLocations: [elementLocation(node.target)],
+            },
+          ],
+          ...(relatedLocations.length > 0 ? { relatedLocations } : {}),
+          partialFingerprints: { [FINGERPRINT_KEY]: fingerprintNode(node) },
+        });
+      });
+    });
+
+  addResults(scan.violations, 'fail');
+  addResults(scan.incomplete ?? [], 'review');
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'axe-core',
+            ...(scan.axeVersion ? { version: scan.axeVersion } : {}),
+            informationUri: 'https://github.com/dequelabs/axe-core',
+            rules,
+          },
+        },
+        // The part before the last slash is the category consumers group runs by
+        automationDetails: {
+          id: `accessibility/${encodeURIComponent(scan.normalizedUrl || scan.url)}/${scan.jobId}`,
+        },
+        invocations: [
+          {
+            executionSuccessful: true,
+            ...(scan.scanTimestamp
+              ? { endTimeUtc: new Date(scan.scanTimestamp).toISOString() }
+              : {}),
+          },
+        ],
+        results,
+        properties: { jobId: scan.jobId, url: scan.url, score: scan.score },
+      },
+    ],
+  };
+}
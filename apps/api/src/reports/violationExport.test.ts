@@ -0,0 +1,182 @@
+import ExcelJS from 'exceljs';
+import { StoredScore } from '../db/storedScores';
+import { AxeViolation } from '../types/axe';
+import {
+  buildViolationsCsv,
+  buildViolationsXlsx,
+  ViolationExportScan,
+} from './violationExport';
+
+const noScore: StoredScore = {
+  score: null,
+  healthLevel: null,
+  violationCounts: null,
+  needsReviewCount: null,
+  scoringModelVersion: null,
+};
+
+const imageAlt: AxeViolation = {
+  id: 'image-alt',
+  description: 'Ensures <img> elements have alternate text',
+  help: 'Images must have alternate text',
+  helpUrl: 'https://dequeuniversity.com/rules/axe/4.9/image-alt',
+  impact: 'critical',
+  tags: ['cat.text-alternatives', 'wcag2a', 'wcag111', 'section508'],
+  nodes: [
+    {
+      html: '<img src="logo.png">',
+      target: ['header > img'],
+      failureSummary:
+        'Fix any of the following:\n  Element has no alt attribute',
+    },
+    { html: '<img src="hero.png">', target: ['main img'], impact: 'minor' },
+  ],
+};
+
+function scanWith(
+  violations: AxeViolation[],
+  overrides: Partial<ViolationExportScan> = {},
+): ViolationExportScan {
+  return {
+    jobId: 'job-1',
+    url: 'https://example.com/',
+    scanTimestamp: '2024-05-01T12:00:00Z',
+    scanSuccess: true,
+    storedScore: noScore,
+    violations,
+    ...overrides,
+  };
+}
+
+// The cell of one snippet, as it appears between the selector and the summary
+function csvHtmlCell(html: string): string {
+  const csv = buildViolationsCsv([
+    scanWith([
+      { ...imageAlt, nodes: [{ html, target: ['img'], failureSummary: 'x' }] },
+    ]),
+  ]);
+  const row = csv.split('\r\n')[1];
+  return row.slice(row.indexOf(',img,') + 5, row.lastIndexOf(',x,'));
+}
+
+describe('buildViolationsCsv', () => {
+  it('writes a header and one row per failing element', () => {
+    const csv = buildViolationsCsv([scanWith([imageAlt])]);
+    expect(csv.startsWith('\uFEFFRule ID,Impact,WCAG tags,')).toBe(true);
+    expect(csv.endsWith('\r\n')).toBe(true);
+
+    const lines = csv.slice(1).split('\r\n');
+    expect(lines).toEqual([
+      'Rule ID,Impact,WCAG tags,Help,Help URL,Selector,HTML snippet,Failure summary,Page URL,Scan date',
+      'image-alt,critical,"wcag2a, wcag111",Images must have alternate text,https://dequeuniversity.com/rules/axe/4.9/image-alt,header > img,"<img src=""logo.png"">","Fix any of the following:\n  Element has no alt attribute",https://example.com/,2024-05-01T12:00:00.000Z',
+      'image-alt,minor,"wcag2a, wcag111",Images must have alternate text,https://dequeuniversity.com/rules/axe/4.9/image-alt,main img,"<img src=""hero.png"">",,https://example.com/,2024-05-01T12:00:00.000Z',
+      '',
+    ]);
+  });
+
+  it('writes only the header when no element fails', () => {
+    expect(buildViolationsCsv([scanWith([{ ...imageAlt, nodes: [] }])])).toBe(
+      '\uFEFFRule ID,Impact,WCAG tags,Help,Help URL,Selector,HTML snippet,Failure summary,Page URL,Scan date\r\n',
+    );
+  });
+
+  it.each([
+    [
+      'an equals sign',
+      '=HYPERLINK("https://evil.test")',
+      `"'=HYPERLINK(""https://evil.test"")"`,
+    ],
+    ['a plus sign', '+1+1', "'+1+1"],
+    ['a minus sign', '-1', "'-1"],
+    ['an at sign', '@SUM(A1)', "'@SUM(A1)"],
+    ['a tab', '\t=1', "'\t=1"],
+    ['a carriage return', '\r=1', `"'\r=1"`],
+  ])('defuses a cell starting with %s', (_label, html, cell) => {
+    expect(csvHtmlCell(html)).toBe(cell);
+  });
+
+  it.each([
+    ['a comma', '<a>x, y</a>', '"<a>x, y</a>"'],
+    ['a quote', '<a title="t">', '"<a title=""t"">"'],
+    ['a line break', '<p>\n</p>', '"<p>\n</p>"'],
+  ])('quotes a cell with %s', (_label, html, cell) => {
+    expect(csvHtmlCell(html)).toBe(cell);
+  });
+
+  it('leaves formula signs after the first character alone', () => {
+    expect(csvHtmlCell('<p>a=b-c</p>')).toBe('<p>a=b-c</p>');
+  });
+});
+
+describe('buildViolationsXlsx', () => {
+  it('summarizes scored and failed scans and pivots the rules', async () => {
+    const scored = scanWith([imageAlt], {
+      storedScore: {
+        score: 72,
+        healthLevel: 'Needs Improvement',
+        violationCounts: {
+          critical: 1,
+          serious: 0,
+          moderate: 0,
+          minor: 1,
+          total: 2,
+        },
+        needsReviewCount: 3,
+        scoringModelVersion: 1,
+      },
+    });
+    const failed = scanWith([], {
+      jobId: 'job-2-failed',
+      url: 'https://example.com/broken',
+      scanSuccess: false,
+    });
+
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(await buildViolationsXlsx([scored, failed]));
+
+    const summary = workbook.getWorksheet('Summary')!;
+    expect(summary.getRow(2).values).toEqual([
+      undefined,
+      'https://example.com/',
+      '2024-05-01T12:00:00.000Z',
+      'job-1',
+      'Succeeded',
+      72,
+      'Needs Improvement',
+      1,
+      0,
+      0,
+      1,
+      2,
+      3,
+    ]);
+    expect(summary.getRow(3).values).toEqual([
+      undefined,
+      'https://example.com/broken',
+      '2024-05-01T12:00:00.000Z',
+      'job-2-failed',
+      'Failed',
+    ]);
+
+    expect(workbook.getWorksheet('Violations')!.rowCount).toBe(3);
+    const rules = workbook.getWorksheet('Rules')!;
+    expect(rules.getRow(1).values).toEqual(
+      expect.arrayContaining([
+        'https://example.com/ (job-1)',
+        'https://example.com/broken (job-2-fa)',
+      ]),
+    );
+    expect(rules.getRow(2).values).toEqual([
+      undefined,
+      'image-alt',
+      'critical',
+      'wcag2a, wcag111',
+      'Images must have alternate text',
+      'https://dequeuniversity.com/rules/axe/4.9/image-alt',
+      1,
+      2,
+      2,
+      0,
+    ]);
+  });
+});
@@ -0,0 +1,190 @@
+import { StoredScore } from '../db/storedScores';
+import { AxeViolation } from '../types/axe';
+import { buildXlsx, XlsxCell } from './xlsx';
+
+export interface ViolationExportScan {
+  jobId: string;
+  url: string;
+  scanTimestamp?: string | Date;
+  scanSuccess: boolean;
+  storedScore: StoredScore;
+  violations: AxeViolation[];
+}
+
+const VIOLATION_HEADER = [
+  'Rule ID',
+  'Impact',
+  'WCAG tags',
+  'Help',
+  'Help URL',
+  'Selector',
+  'HTML snippet',
+  'Failure summary',
+  'Page URL',
+  'Scan date',
+];
+
+const IMPACTS = ['critical', 'serious', 'moderate', 'minor'] as const;
+
+// CSV cells starting with these are run as formulas by spreadsheet apps
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function formatScanDate(timestamp: string | Date | undefined): string {
+  return timestamp ? new Date(timestamp).toISOString() : '';
+}
+
+// axe tags WCAG success criteria and levels as wcag2a, wcag21aa, wcag143 and so on
+function wcagTags(violation: AxeViolation): string {
+  return (violation.tags ?? [])
+    .filter((tag) => tag.startsWith('wcag'))
+    .join(', ');
+}
+
+// One row per failing element, in the order axe reported them
+function violationRows(scans: ViolationExportScan[]): string[][] {
+  return scans.flatMap((scan) =>
+    scan.violations.flatMap((violation) =>
+      (violation.nodes ?? []).map((node) => [
+        violation.id,
+        node.impact ?? violation.impact ?? '',
+        wcagTags(violation),
+        violation.help,
+        violation.helpUrl,
+        (node.target ?? []).join(', '),
+        node.html,
+        node.failureSummary ?? '',
+        scan.url,
+        formatScanDate(scan.scanTimestamp),
+      ]),
+    ),
+  );
+}
+
+function escapeCsvCell(value: string): string {
+  const safe = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * The failing elements of the scans as CSV, one row per element. Starts
+ * with a byte order mark, which spreadsheet apps need to read it as UTF-8.
+ */
+export function buildViolationsCsv(scans: ViolationExportScan[]): string {
+  const lines = [VIOLATION_HEADER, ...violationRows(scans)].map((row) =>
+    row.map(escapeCsvCell).join(','),
+  );
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+}
+
+function summaryRows(scans: ViolationExportScan[]): XlsxCell[][] {
+  return [
+    [
+      'Page URL',
+      'Scan date',
+      'Job ID',
+      'Status',
+      'Score',
+      'Health level',
+      'Critical',
+      'Serious',
+      'Moderate',
+      'Minor',
+      'Total',
+      'Needs review',
+    ],
+    ...scans.map((scan) => {
+      const base = [
+        scan.url,
+        formatScanDate(scan.scanTimestamp),
+        scan.jobId,
+        scan.scanSuccess ? 'Succeeded' : 'Failed',
+      ];
+      // Failed scans, and older ones not yet recomputed, have no stored score
+      const { score, healthLevel, violationCounts, needsReviewCount } =
+        scan.storedScore;
+      if (score === null || !violationCounts) return base;
+      return [
+        ...base,
+        score,
+        healthLevel ?? '',
+        ...IMPACTS.map((impact) => violationCounts[impact]),
+        violationCounts.total,
+        needsReviewCount ?? '',
+      ];
+    }),
+  ];
+}
+
+// Failing elements per rule, in total and on each scan, most elements first
+function rulePivotRows(scans: ViolationExportScan[]): XlsxCell[][] {
+  const rules = new Map<
+    string,
+    { violation: AxeViolation; perScan: number[]; total: number }
+  >();
+  scans.forEach((scan, scanIndex) =>
+    scan.violations.forEach((violation) => {
+      const rule = rules.get(violation.id) ?? {
+        violation,
+        perScan: scans.map(() => 0),
+        total: 0,
+      };
+      const elements = violation.nodes?.length ?? 0;
+      rule.perScan[scanIndex] += elements;
+      rule.total += elements;
+      rules.set(violation.id, rule);
+    }),
+  );
+
+  return [
+    [
+      'Rule ID',
+      'Impact',
+      'WCAG tags',
+      'Help',
+      'Help URL',
+      'Scans affected',
+      'Elements',
+      // Job IDs tell apart two scans of the same page
+      ...scans.map((scan) => `${scan.url} (${scan.jobId.slice(0, 8)})`),
+    ],
+    ...[...rules.values()]
+      .sort((a, b) => b.total - a.total)
+      .map(({ violation, perScan, total }) => [
+        violation.id,
+        violation.impact ?? '',
+        wcagTags(violation),
+        violation.help,
+        violation.helpUrl,
+        perScan.filter((elements) => elements > 0).length,
+        total,
+        ...perScan,
+      ]),
+  ];
+}
+
+/**
+ * The scans as an XLSX workbook: a summary sheet with each scan's score,
+ * health level and counts by impact, the failing elements as in the CSV
+ * export and a per-rule pivot across the scans.
+ */
+export function buildViolationsXlsx(
+  scans: ViolationExportScan[],
+): Promise<Buffer> {
+  return buildXlsx([
+    {
+      name: 'Summary',
+      rows: summaryRows(scans),
+      columnWidths: [50, 24, 38, 10, 8, 20, 9, 9, 10, 8, 8, 13],
+    },
+    {
+      name: 'Violations',
+      rows: [VIOLATION_HEADER, ...violationRows(scans)],
+      columnWidths: [24, 10, 24, 50, 40, 40, 60, 60, 50, 24],
+    },
+    {
+      name: 'Rules',
+      rows: rulePivotRows(scans),
+      columnWidths: [24, 10, 24, 50, 40, 14, 10, ...scans.map(() => 30)],
+    },
+  ]);
+}
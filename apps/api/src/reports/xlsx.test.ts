@@ -0,0 +1,81 @@
+import ExcelJS from 'exceljs';
+import { buildXlsx } from './xlsx';
+
+async function load(buffer: Buffer): Promise<ExcelJS.Workbook> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer);
+  return workbook;
+}
+
+describe('buildXlsx', () => {
+  it('writes a workbook that reads back with the same cells', async () => {
+    const workbook = await load(
+      await buildXlsx([
+        {
+          name: 'Violations',
+          rows: [
+            ['Rule', 'Elements', 'Note'],
+            ['image-alt', 3, 'Quotes " & <tags> & ünïcödé'],
+            ['region', 0, null],
+          ],
+          columnWidths: [30, 12, 40],
+        },
+        { name: 'Summary', rows: [['Score'], [72]] },
+      ]),
+    );
+
+    expect(workbook.worksheets.map((sheet) => sheet.name)).toEqual([
+      'Violations',
+      'Summary',
+    ]);
+    const sheet = workbook.getWorksheet('Violations')!;
+    expect(sheet.getRow(2).values).toEqual([
+      undefined,
+      'image-alt',
+      3,
+      'Quotes " & <tags> & ünïcödé',
+    ]);
+    expect(sheet.getCell('C3').value).toBeNull();
+    expect(sheet.getCell('A1').font?.bold).toBe(true);
+    expect(sheet.getCell('A2').font?.bold).toBeFalsy();
+    expect(sheet.getColumn(1).width).toBe(30);
+    expect(sheet.views[0]).toMatchObject({ state: 'frozen', ySplit: 1 });
+    expect(workbook.getWorksheet('Summary')!.getCell('A2').value).toBe(72);
+  });
+
+  it('makes sheet names valid and unique', async () => {
+    const workbook = await load(
+      await buildXlsx([
+        { name: 'Results: page/1 [desktop]', rows: [['a']] },
+        { name: 'results: page/1 [desktop]', rows: [['b']] },
+        { name: '', rows: [['c']] },
+        { name: 'A sheet name that is far longer than Excel allows', rows: [] },
+      ]),
+    );
+    const names = workbook.worksheets.map((sheet) => sheet.name);
+    expect(names).toEqual([
+      'Results  page 1  desktop',
+      'results  page 1  desktop (2)',
+      'Sheet3',
+      'A sheet name that is far longer',
+    ]);
+    names.forEach((name) => expect(name.length).toBeLessThanOrEqual(31));
+  });
+
+  it('drops values Excel cannot store', async () => {
+    const workbook = await load(
+      await buildXlsx([
+        {
+          name: 'Data',
+          rows: [
+            ['Text', 'Number'],
+            ['x'.repeat(40000), Number.NaN],
+          ],
+        },
+      ]),
+    );
+    const sheet = workbook.getWorksheet('Data')!;
+    expect(String(sheet.getCell('A2').value)).toHaveLength(32767);
+    expect(sheet.getCell('B2').value).toBeNull();
+  });
+});
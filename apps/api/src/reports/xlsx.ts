@@ -0,0 +1,80 @@
+import { PassThrough } from 'stream';
+import ExcelJS from 'exceljs';
+
+// XLSX workbooks of plain strings and numbers, with a bold header row per sheet
+
+export type XlsxCell = string | number | null | undefined;
+
+export interface XlsxSheet {
+  name: string;
+  // The first row is the header; it is bold and stays visible when scrolling
+  rows: XlsxCell[][];
+  columnWidths?: number[];
+}
+
+// Excel rejects longer cell text
+const MAX_CELL_LENGTH = 32767;
+const MAX_SHEET_NAME_LENGTH = 31;
+
+function cellValue(value: XlsxCell): string | number | null {
+  if (value === null || value === undefined || value === '') return null;
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  return value.slice(0, MAX_CELL_LENGTH);
+}
+
+// Sheet names must be unique, at most 31 characters and free of []:*?/\
+function sheetNames(sheets: XlsxSheet[]): string[] {
+  const used = new Set<string>();
+  return sheets.map((sheet, index) => {
+    const base =
+      sheet.name
+        .replace(/[[\]:*?/\\]/g, ' ')
+        .trim()
+        .slice(0, MAX_SHEET_NAME_LENGTH) || `Sheet${index + 1}`;
+    let name = base;
+    for (let n = 2; used.has(name.toLowerCase()); n++) {
+      const suffix = ` (${n})`;
+      name = base.slice(0, MAX_SHEET_NAME_LENGTH - suffix.length) + suffix;
+    }
+    used.add(name.toLowerCase());
+    return name;
+  });
+}
+
+/**
+ * Writes the sheets with the exceljs streaming writer, which commits each
+ * row as it goes and switches the container to ZIP64 when it grows too
+ * large for a plain ZIP file.
+ */
+export async function buildXlsx(sheets: XlsxSheet[]): Promise<Buffer> {
+  const output = new PassThrough();
+  const chunks: Buffer[] = [];
+  const written = new Promise<Buffer>((resolve, reject) => {
+    output.on('data', (chunk: Buffer) => chunks.push(chunk));
+    output.on('end', () => resolve(Buffer.concat(chunks)));
+    output.on('error', reject);
+  });
+
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+    stream: output,
+    useStyles: true,
+    useSharedStrings: false,
+  });
+  const names = sheetNames(sheets);
+  sheets.forEach((sheet, index) => {
+    const worksheet = workbook.addWorksheet(names[index], {
+      views: [{ state: 'frozen', ySplit: 1 }],
+    });
+    if (sheet.columnWidths?.length) {
+      worksheet.columns = sheet.columnWidths.map((width) => ({ width }));
+    }
+    sheet.rows.forEach((row, rowIndex) => {
+      const added = worksheet.addRow(row.map(cellValue));
+      if (rowIndex === 0) added.font = { bold: true };
+      added.commit();
+    });
+    worksheet.commit();
+  });
+  await workbook.commit();
+  return written;
+}
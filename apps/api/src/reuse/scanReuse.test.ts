@@ -0,0 +1,211 @@
+import { Queue } from 'bullmq';
+import IORedis from 'ioredis';
+import { Pool } from 'pg';
+import { Logger } from 'pino';
+import {
+  buildScanReuseKey,
+  canonicalJson,
+  CLAIM_GRACE_MS,
+  createScanReuse,
+  MAX_REUSE_AGE_SECONDS,
+} from './scanReuse';
+
+describe('canonicalJson', () => {
+  it('sorts object keys at every depth', () => {
+    expect(
+      canonicalJson({ b: 1, a: { d: [2, { f: 3, e: 4 }], c: null } }),
+    ).toBe('{"a":{"c":null,"d":[2,{"e":4,"f":3}]},"b":1}');
+  });
+
+  it('leaves out undefined properties and keeps array order', () => {
+    expect(canonicalJson({ a: undefined, b: ['y', 'x'] })).toBe(
+      '{"b":["y","x"]}',
+    );
+    expect(canonicalJson('text')).toBe('"text"');
+  });
+});
+
+describe('buildScanReuseKey', () => {
+  const url = 'https://example.com/';
+
+  it('prefixes the key with the API key', () => {
+    expect(buildScanReuseKey(7, url, { viewports: [] })).toMatch(
+      /^scan-reuse:7:[0-9a-f]{64}$/,
+    );
+  });
+
+  it('ignores option order, viewport order and the default locale', () => {
+    const key = buildScanReuseKey(7, url, {
+      axeOptions: { rules: { 'color-contrast': false, region: true } },
+      viewports: ['desktop', 'mobile'],
+    });
+    expect(
+      buildScanReuseKey(7, url, {
+        axeOptions: { rules: { region: true, 'color-contrast': false } },
+        viewports: ['mobile', 'desktop'],
+        locale: 'en',
+      }),
+    ).toBe(key);
+  });
+
+  it('differs by API key, URL and every option', () => {
+    const options = {
+      axeOptions: { runOnly: { type: 'tag' as const, values: ['wcag2a'] } },
+      viewports: ['desktop'],
+    };
+    const key = buildScanReuseKey(7, url, options);
+    expect(
+      new Set([
+        key,
+        buildScanReuseKey(8, url, options),
+        buildScanReuseKey(7, 'https://example.com/other', options),
+        buildScanReuseKey(7, url, { ...options, axeOptions: undefined }),
+        buildScanReuseKey(7, url, { ...options, viewports: ['mobile'] }),
+        buildScanReuseKey(7, url, { ...options, locale: 'de' }),
+      ]).size,
+    ).toBe(6);
+  });
+});
+
+// Runs the claim, replace and release scripts against an in-memory key space
+function fakeRedis() {
+  const values = new Map<string, { value: string; expiresAt: number }>();
+  const read = (key: string) => {
+    const entry = values.get(key);
+    return entry && entry.expiresAt > Date.now() ? entry : undefined;
+  };
+  const write = (key: string, value: string, seconds: number) =>
+    values.set(key, { value, expiresAt: Date.now() + seconds * 1000 });
+  const evalScript = jest.fn(
+    async (script: string, _keys: number, key: string, ...args: unknown[]) => {
+      const current = read(key);
+      if (script.includes("'NX'")) {
+        if (!current) {
+          write(key, String(args[0]), Number(args[1]));
+          return null;
+        }
+        return [current.value, current.expiresAt - Date.now()];
+      }
+      if (current?.value !== args[0]) return 0;
+      if (script.includes("'DEL'")) {
+        values.delete(key);
+      } else {
+        write(key, String(args[1]), Number(args[2]));
+      }
+      return 1;
+    },
+  );
+  return {
+    redis: { eval: evalScript },
+    values,
+    get: (key: string) => read(key)?.value ?? null,
+    // Makes the key look as if it had been claimed `ms` ago
+    age: (key: string, ms: number) => {
+      values.get(key)!.expiresAt -= ms;
+    },
+  };
+}
+
+describe('createScanReuse', () => {
+  function setup(states: Record<string, string> = {}, rows: unknown[] = []) {
+    const store = fakeRedis();
+    const scanQueue = {
+      getJobState: jest.fn(async (jobId: string) => states[jobId] ?? 'unknown'),
+    };
+    const pool = { query: jest.fn().mockResolvedValue({ rows }) };
+    const logger = { error: jest.fn(), warn: jest.fn() };
+    const reuse = createScanReuse(
+      store.redis as unknown as IORedis,
+      scanQueue as unknown as Queue,
+      pool as unknown as Pool,
+      logger as unknown as Logger,
+    );
+    return { store, scanQueue, pool, logger, ...reuse };
+  }
+
+  it('claims a free key for the new job', async () => {
+    const { store, claim } = setup();
+    await expect(claim('key', 'job-1', undefined)).resolves.toBeNull();
+    expect(store.get('key')).toBe('job-1');
+    expect(store.values.get('key')!.expiresAt).toBeGreaterThan(
+      Date.now() + (MAX_REUSE_AGE_SECONDS - 5) * 1000,
+    );
+  });
+
+  it('reuses a job that is still running', async () => {
+    const { store, claim } = setup({ 'job-1': 'active' });
+    await claim('key', 'job-1', undefined);
+    await expect(claim('key', 'job-2', undefined)).resolves.toEqual({
+      jobId: 'job-1',
+      status: 'in-flight',
+    });
+    expect(store.get('key')).toBe('job-1');
+  });
+
+  it('treats a fresh claim whose job is not enqueued yet as in flight', async () => {
+    const { store, claim } = setup();
+    const [first, second] = await Promise.all([
+      claim('key', 'job-1', undefined),
+      claim('key', 'job-2', undefined),
+    ]);
+    expect(first).toBeNull();
+    expect(second).toEqual({ jobId: 'job-1', status: 'in-flight' });
+    expect(store.get('key')).toBe('job-1');
+  });
+
+  it('replaces a claim whose job never appeared', async () => {
+    const { store, claim } = setup();
+    await claim('key', 'job-1', undefined);
+    store.age('key', CLAIM_GRACE_MS + 1000);
+    await expect(claim('key', 'job-2', undefined)).resolves.toBeNull();
+    expect(store.get('key')).toBe('job-2');
+  });
+
+  it('reuses a recent completed scan only when maxAge is given', async () => {
+    const scanTimestamp = new Date();
+    const { store, pool, claim } = setup({ 'job-1': 'completed' }, [
+      { scan_timestamp: scanTimestamp },
+    ]);
+    await claim('key', 'job-1', undefined);
+    await expect(claim('key', 'job-2', 3600)).resolves.toEqual({
+      jobId: 'job-1',
+      status: 'completed',
+      scanTimestamp,
+    });
+    expect(pool.query.mock.calls[0][1]).toEqual(['job-1', 3600]);
+
+    await expect(claim('key', 'job-3', undefined)).resolves.toBeNull();
+    expect(store.get('key')).toBe('job-3');
+  });
+
+  it('reuses the job of a submission that replaced the key first', async () => {
+    const { store, scanQueue, claim } = setup({ 'job-1': 'failed' });
+    await claim('key', 'job-1', undefined);
+    // While this claim checks job-1, another submission points the key at job-2
+    scanQueue.getJobState.mockImplementationOnce(async () => {
+      store.values.get('key')!.value = 'job-2';
+      return 'failed';
+    });
+    await expect(claim('key', 'job-3', undefined)).resolves.toEqual({
+      jobId: 'job-2',
+      status: 'in-flight',
+    });
+    expect(store.get('key')).toBe('job-2');
+  });
+
+  it('starts a fresh scan when Redis fails', async () => {
+    const { store, logger, claim } = setup();
+    store.redis.eval.mockRejectedValueOnce(new Error('connection lost'));
+    await expect(claim('key', 'job-2', 3600)).resolves.toBeNull();
+    expect(logger.error).toHaveBeenCalled();
+  });
+
+  it('releases the key only while it points at the job', async () => {
+    const { store, claim, release } = setup();
+    await claim('key', 'job-1', undefined);
+    await release('key', 'job-2');
+    expect(store.get('key')).toBe('job-1');
+    await release('key', 'job-1');
+    expect(store.get('key')).toBeNull();
+  });
+});
@@ -0,0 +1,202 @@
+import { createHash } from 'crypto';
+import { Queue } from 'bullmq';
+import IORedis from 'ioredis';
+import { Pool } from 'pg';
+import { Logger } from 'pino';
+import { DEFAULT_LOCALE, Locale } from '../i18n/locales';
+import { ScanAxeOptions } from '../validation/axeOptionsSchema';
+
+const KEY_PREFIX = 'scan-reuse';
+
+// How long a key keeps pointing at its latest job, and so the largest usable maxAge
+export const MAX_REUSE_AGE_SECONDS = 7 * 24 * 60 * 60;
+
+// A claimed job that BullMQ does not know yet counts as in flight this long, since it is enqueued right after the claim
+export const CLAIM_GRACE_MS = 30 * 1000;
+
+// Claiming gives up after this many lost races for the same key
+const MAX_CLAIM_ATTEMPTS = 3;
+
+// Points a free key at the job; otherwise returns the job it points at and its remaining TTL in ms
+const CLAIM_SCRIPT = `
+if redis.call('SET', KEYS[1], ARGV[1], 'EX', ARGV[2], 'NX') then
+  return nil
+end
+return { redis.call('GET', KEYS[1]), redis.call('PTTL', KEYS[1]) }
+`;
+
+// Points the key at a new job only while it still points at the one that was checked
+const REPLACE_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  redis.call('SET', KEYS[1], ARGV[2], 'EX', ARGV[3])
+  return 1
+end
+return 0
+`;
+
+// Deletes the key only while it still points at the job
+const RELEASE_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+// Job states in which a submission can simply wait for the existing job
+const IN_FLIGHT_STATES = new Set([
+  'waiting',
+  'waiting-children',
+  'prioritized',
+  'delayed',
+  'active',
+]);
+
+export type ReusableScan =
+  | { jobId: string; status: 'in-flight' }
+  | { jobId: string; status: 'completed'; scanTimestamp: Date };
+
+// JSON with object keys sorted, so equal options always hash alike
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, entry]) => `${JSON.stringify(key)}:${canonicalJson(entry)}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * The Redis key identical submissions share: the submitting API key, the
+ * normalized URL and every option that changes what the worker does. Keys
+ * are per API key, since only the creator can read a scan's results.
+ */
+export function buildScanReuseKey(
+  apiKeyId: number,
+  normalizedUrl: string,
+  options: {
+    axeOptions?: ScanAxeOptions;
+    viewports: string[];
+    locale?: Locale;
+  },
+): string {
+  const digest = createHash('sha256')
+    .update(
+      canonicalJson({
+        url: normalizedUrl,
+        axeOptions: options.axeOptions,
+        viewports: [...options.viewports].sort(),
+        // English is axe-core's built-in locale, so it hashes like no locale at all
+        locale: options.locale === DEFAULT_LOCALE ? undefined : options.locale,
+      }),
+    )
+    .digest('hex');
+  return `${KEY_PREFIX}:${apiKeyId}:${digest}`;
+}
+
+/**
+ * Each reuse key points at the latest job submitted for it. `claim` either
+ * returns a job the submission can reuse or points the key at the new job
+ * instead. Both steps are compare-and-set scripts, so of two identical
+ * submissions racing for a key only one starts a scan. Redis errors fail
+ * open: the caller then just starts a fresh scan.
+ */
+export function createScanReuse(
+  redis: IORedis,
+  scanQueue: Queue,
+  pool: Pool,
+  logger: Logger,
+) {
+  const findReusable = async (
+    jobId: string,
+    maxAgeSeconds: number | undefined,
+    claimedAgoMs: number,
+  ): Promise<ReusableScan | null> => {
+    const state = await scanQueue.getJobState(jobId);
+    if (IN_FLIGHT_STATES.has(state)) return { jobId, status: 'in-flight' };
+    // The claiming request may not have enqueued its job yet
+    if (state === 'unknown' && claimedAgoMs < CLAIM_GRACE_MS) {
+      return { jobId, status: 'in-flight' };
+    }
+    // The BullMQ job may already be gone, so the stored result decides
+    if (maxAgeSeconds === undefined) return null;
+    const { rows } = await pool.query(
+      `SELECT scan_timestamp FROM scan_results
+       WHERE job_id = $1 AND scan_success
+         AND scan_timestamp >= current_timestamp - make_interval(secs => $2)
+       ORDER BY scan_timestamp DESC
+       LIMIT 1`,
+      [jobId, maxAgeSeconds],
+    );
+    return rows.length > 0
+      ? { jobId, status: 'completed', scanTimestamp: rows[0].scan_timestamp }
+      : null;
+  };
+
+  const claim = async (
+    key: string,
+    jobId: string,
+    maxAgeSeconds: number | undefined,
+  ): Promise<ReusableScan | null> => {
+    try {
+      for (let attempt = 0; attempt < MAX_CLAIM_ATTEMPTS; attempt++) {
+        const existing = (await redis.eval(
+          CLAIM_SCRIPT,
+          1,
+          key,
+          jobId,
+          MAX_REUSE_AGE_SECONDS,
+        )) as [string | null, number] | null;
+        if (!existing) return null;
+        const [existingJobId, ttlMs] = existing;
+        if (!existingJobId) continue;
+
+        const claimedAgoMs = MAX_REUSE_AGE_SECONDS * 1000 - ttlMs;
+        const reusable = await findReusable(
+          existingJobId,
+          maxAgeSeconds,
+          claimedAgoMs,
+        );
+        if (reusable) return reusable;
+        const replaced = await redis.eval(
+          REPLACE_SCRIPT,
+          1,
+          key,
+          existingJobId,
+          jobId,
+          MAX_REUSE_AGE_SECONDS,
+        );
+        if (replaced === 1) return null;
+        // Another submission claimed the key in the meantime; check its job instead
+      }
+      logger.warn(
+        { key },
+        'Scan reuse key kept changing, starting a fresh scan',
+      );
+    } catch (error) {
+      logger.error(
+        { key, error: error instanceof Error ? error.message : error },
+        'Scan reuse unavailable, starting a fresh scan',
+      );
+    }
+    return null;
+  };
+
+  // Frees the key again when the job it was claimed for could not be enqueued
+  const release = async (key: string, jobId: string): Promise<void> => {
+    try {
+      await redis.eval(RELEASE_SCRIPT, 1, key, jobId);
+    } catch (error) {
+      logger.error(
+        { key, error: error instanceof Error ? error.message : error },
+        'Failed to release scan reuse key',
+      );
+    }
+  };
+
+  return { claim, release };
+}
@@ -0,0 +1,66 @@
+// axe sorts every rule it ran into one of these lists
+export type AxeResultType =
+  | 'violations'
+  | 'incomplete'
+  | 'passes'
+  | 'inapplicable';
+
+export const AXE_RESULT_TYPES: AxeResultType[] = [
+  'violations',
+  'incomplete',
+  'passes',
+  'inapplicable',
+];
+
+// The subset of axe-core result types the API reads and returns
+export interface AxeCheck {
+  id: string;
+  impact?: 'minor' | 'moderate' | 'serious' | 'critical';
+  message: string;
+  data?: unknown; // Changed from any to unknown
+  relatedNodes?: AxeRelatedNode[];
+}
+
+export interface AxeRelatedNode {
+  target: string[];
+  html: string;
+}
+
+// Document coordinates in CSS pixels, relative to that viewport's full-page screenshot
+export interface ElementBoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  viewport: string;
+}
+
+export interface AxeNode {
+  html: string;
+  target: string[];
+  failureSummary?: string;
+  impact?: 'minor' | 'moderate' | 'serious' | 'critical';
+  any?: AxeCheck[];
+  all?: AxeCheck[];
+  none?: AxeCheck[];
+  viewports?: string[];
+  viewportSpecific?: boolean;
+  boundingBox?: ElementBoundingBox;
+  elementScreenshotKey?: string;
+  elementScreenshotUrl?: string;
+  // Base64 JPEG of the cropped element, only loaded for reports
+  elementScreenshot?: string | null;
+}
+
+// Also the shape of incomplete, passes and inapplicable entries
+export interface AxeViolation {
+  id: string;
+  description: string;
+  help: string;
+  helpUrl: string;
+  impact?: 'minor' | 'moderate' | 'serious' | 'critical';
+  tags?: string[];
+  nodes?: AxeNode[];
+  viewports?: string[];
+  viewportSpecific?: boolean;
+}
@@ -0,0 +1,12 @@
+import { z } from 'zod';
+import { API_KEY_SCOPES } from '../auth/apiKeys';
+
+export const createApiKeySchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1),
+  monthlyScanQuota: z.number().int().nonnegative().nullable().default(null),
+});
+
+export const apiKeyIdParamSchema = z.coerce.number().int().positive();
+
+export type CreateApiKeyInput = z.infer<typeof createApiKeySchema>;
@@ -0,0 +1,75 @@
+import { z } from 'zod';
+
+const WCAG_VERSIONS = ['2.0', '2.1', '2.2'] as const;
+const WCAG_LEVELS = ['A', 'AA', 'AAA'] as const;
+
+const selectorListSchema = z.array(z.string().trim().min(1).max(500)).max(50);
+const axeIdSchema = z
+  .string()
+  .trim()
+  .regex(/^[a-z0-9-]+$/i, { message: 'Invalid axe rule ID or tag' });
+
+/**
+ * Expands a WCAG version and level into the cumulative axe tags, e.g.
+ * 2.1 AA -> wcag2a, wcag2aa, wcag21a, wcag21aa.
+ */
+export function wcagTags(
+  version: (typeof WCAG_VERSIONS)[number],
+  level: (typeof WCAG_LEVELS)[number],
+): string[] {
+  const versions = WCAG_VERSIONS.slice(0, WCAG_VERSIONS.indexOf(version) + 1);
+  const levels = WCAG_LEVELS.slice(0, WCAG_LEVELS.indexOf(level) + 1);
+  return versions.flatMap((v) => {
+    const prefix = v === '2.0' ? 'wcag2' : `wcag${v.replace('.', '')}`;
+    return levels.map((l) => `${prefix}${l.toLowerCase()}`);
+  });
+}
+
+/**
+ * Options passed through to axe.run(context, options). `wcag` is a shorthand
+ * for `runOnly` tags, so the two cannot be combined. The parsed output only
+ * contains axe-level fields, which is what the worker and the database store.
+ */
+export const axeRunOptionsSchema = z
+  .object({
+    wcag: z
+      .object({
+        version: z.enum(WCAG_VERSIONS),
+        level: z.enum(WCAG_LEVELS),
+      })
+      .optional(),
+    runOnly: z
+      .object({
+        type: z.enum(['tag', 'rule']),
+        values: z.array(axeIdSchema).min(1).max(100),
+      })
+      .optional(),
+    rules: z.record(axeIdSchema, z.boolean()).optional(),
+    include: selectorListSchema.optional(),
+    exclude: selectorListSchema.optional(),
+    resultTypes: z
+      .array(z.enum(['violations', 'incomplete', 'passes', 'inapplicable']))
+      .min(1)
+      .optional(),
+  })
+  .strict()
+  .refine((options) => !(options.wcag && options.runOnly), {
+    message: 'Specify either wcag or runOnly, not both',
+    path: ['runOnly'],
+  })
+  .transform(({ wcag, runOnly, ...rest }) => ({
+    ...rest,
+    ...(wcag
+      ? {
+          runOnly: {
+            type: 'tag' as const,
+            values: wcagTags(wcag.version, wcag.level),
+          },
+        }
+      : runOnly
+        ? { runOnly }
+        : {}),
+  }));
+
+export type AxeRunOptionsInput = z.input<typeof axeRunOptionsSchema>;
+export type ScanAxeOptions = z.output<typeof axeRunOptionsSchema>;
@@ -0,0 +1,31 @@
+import { z } from 'zod';
+import { localeSchema, timeZoneSchema } from './localeSchema';
+
+// One export covers at most this many scans
+export const MAX_EXPORT_JOB_IDS = 50;
+
+export const exportReportQuerySchema = z.object({
+  format: z
+    .enum(['html', 'pdf', 'sarif', 'csv', 'xlsx', 'junit'])
+    .default('html'),
+  // HTML and PDF only; the locale defaults to the scan's
+  locale: localeSchema.optional(),
+  timeZone: timeZoneSchema.optional(),
+});
+
+// Job IDs as a comma-separated list, a repeated parameter or both
+export const violationExportQuerySchema = z.object({
+  jobIds: z
+    .union([z.string(), z.array(z.string())])
+    .transform((value) => [
+      ...new Set(
+        [value]
+          .flat()
+          .flatMap((ids) => ids.split(','))
+          .map((id) => id.trim())
+          .filter(Boolean),
+      ),
+    ])
+    .pipe(z.array(z.string().uuid()).min(1).max(MAX_EXPORT_JOB_IDS)),
+  format: z.enum(['csv', 'xlsx', 'junit']).default('csv'),
+});
@@ -0,0 +1,17 @@
+import { z } from 'zod';
+import { scanUrlSchema } from './scanWebsiteSchema';
+
+export const historyQuerySchema = z
+  .object({
+    url: scanUrlSchema,
+    // ISO 8601 dates or timestamps; both ends of the range are inclusive
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    limit: z.coerce.number().int().min(1).max(500).default(100),
+  })
+  .refine((query) => !query.from || !query.to || query.from <= query.to, {
+    message: '`from` must not be after `to`',
+    path: ['from'],
+  });
+
+export type HistoryQuery = z.infer<typeof historyQuerySchema>;
@@ -0,0 +1,12 @@
+import { z } from 'zod';
+import { isValidTimeZone, SUPPORTED_LOCALES } from '../i18n/locales';
+
+export const localeSchema = z.enum(SUPPORTED_LOCALES);
+
+// An IANA time zone such as Europe/Berlin
+export const timeZoneSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(64)
+  .refine(isValidTimeZone, { message: 'Unknown time zone' });
@@ -0,0 +1,10 @@
+import { z } from 'zod';
+
+// Each limit replaces the configured one for this preview only
+export const retentionPreviewQuerySchema = z.object({
+  screenshotDays: z.coerce.number().int().min(1).optional(),
+  resultDays: z.coerce.number().int().min(1).optional(),
+  maxScansPerUrl: z.coerce.number().int().min(1).optional(),
+  keepLatestPerUrl: z.coerce.number().int().min(0).optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+});
@@ -0,0 +1,67 @@
+import { z } from 'zod';
+
+const selectorSchema = z.string().trim().min(1).max(500);
+
+// RFC 7230 token characters
+const headerNameSchema = z
+  .string()
+  .regex(/^[A-Za-z0-9!#$%&'*+.^_`|~-]+$/, { message: 'Invalid header name' });
+
+const cookieSchema = z
+  .object({
+    name: z.string().min(1).max(256),
+    value: z.string().max(4096),
+    // Without a domain the cookie is set for the scanned URL
+    domain: z.string().max(253).optional(),
+    path: z.string().max(1024).optional(),
+    secure: z.boolean().optional(),
+    httpOnly: z.boolean().optional(),
+    sameSite: z.enum(['Strict', 'Lax', 'None']).optional(),
+  })
+  .strict();
+
+// A login form the worker fills in and submits before scanning
+const loginRecipeSchema = z
+  .object({
+    url: z.string().url(),
+    fields: z
+      .array(
+        z
+          .object({ selector: selectorSchema, value: z.string().max(1024) })
+          .strict(),
+      )
+      .min(1)
+      .max(10),
+    submitSelector: selectorSchema,
+    // An element that only appears once the login has succeeded
+    waitForSelector: selectorSchema,
+    timeoutMs: z.number().int().min(1000).max(60000).default(15000),
+  })
+  .strict();
+
+export const scanAuthSchema = z
+  .object({
+    cookies: z.array(cookieSchema).min(1).max(50).optional(),
+    headers: z
+      .record(headerNameSchema, z.string().max(8192))
+      .refine((headers) => Object.keys(headers).length <= 20, {
+        message: 'At most 20 headers may be set',
+      })
+      .optional(),
+    basicAuth: z
+      .object({
+        username: z.string().min(1).max(256),
+        password: z.string().max(1024),
+      })
+      .strict()
+      .optional(),
+    login: loginRecipeSchema.optional(),
+  })
+  .strict()
+  .refine(
+    (auth) =>
+      Boolean(auth.cookies || auth.headers || auth.basicAuth || auth.login),
+    { message: 'At least one authentication method must be provided' },
+  );
+
+export type ScanAuthInput = z.infer<typeof scanAuthSchema>;
@@ -0,0 +1,11 @@
+import { z } from 'zod';
+
+export const scanDiffQuerySchema = z
+  .object({
+    base: z.string().uuid(),
+    head: z.string().uuid(),
+  })
+  .refine((query) => query.base !== query.head, {
+    message: '`base` and `head` must be different scans',
+    path: ['head'],
+  });
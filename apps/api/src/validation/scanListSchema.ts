@@ -0,0 +1,43 @@
+import { z } from 'zod';
+import { HEALTH_LEVELS } from '@accessibility-scanner-backend/scoring';
+
+export const scanListQuerySchema = z
+  .object({
+    // Matches the scanned page's host exactly, e.g. www.example.com
+    domain: z
+      .string()
+      .trim()
+      .toLowerCase()
+      .regex(/^[a-z0-9.-]+$/, 'Invalid domain')
+      .optional(),
+    status: z.enum(['success', 'failure']).optional(),
+    // ISO 8601 dates or timestamps; both ends of the range are inclusive
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    minScore: z.coerce.number().int().min(0).max(100).optional(),
+    maxScore: z.coerce.number().int().min(0).max(100).optional(),
+    healthLevel: z.enum(HEALTH_LEVELS).optional(),
+    // Scans with at least one violation of this axe rule, e.g. color-contrast
+    ruleId: z
+      .string()
+      .regex(/^[a-z0-9-]+$/i, 'Invalid rule ID')
+      .optional(),
+    sort: z.enum(['scanTimestamp', 'score']).default('scanTimestamp'),
+    order: z.enum(['asc', 'desc']).default('desc'),
+    limit: z.coerce.number().int().min(1).max(100).default(25),
+    // nextCursor of the previous page, used with the same filters and sort
+    cursor: z.string().optional(),
+  })
+  .refine((query) => !query.from || !query.to || query.from <= query.to, {
+    message: '`from` must not be after `to`',
+    path: ['from'],
+  })
+  .refine(
+    (query) =>
+      query.minScore === undefined ||
+      query.maxScore === undefined ||
+      query.minScore <= query.maxScore,
+    { message: '`minScore` must not be above `maxScore`', path: ['minScore'] },
+  );
+
+export type ScanListQuery = z.infer<typeof scanListQuerySchema>;
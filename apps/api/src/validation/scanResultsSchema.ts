@@ -0,0 +1,20 @@
+import { z } from 'zod';
+import { AXE_RESULT_TYPES, AxeResultType } from '../types/axe';
+
+export const scanResultsQuerySchema = z.object({
+  // Comma-separated axe result types, e.g. violations,incomplete
+  types: z
+    .string()
+    .default('violations')
+    .transform((raw) =>
+      raw
+        .split(',')
+        .map((type) => type.trim())
+        .filter(Boolean),
+    )
+    .pipe(
+      z
+        .array(z.enum(AXE_RESULT_TYPES as [AxeResultType, ...AxeResultType[]]))
+        .min(1),
+    ),
+});
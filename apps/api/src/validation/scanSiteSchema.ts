@@ -0,0 +1,23 @@
+import { z } from 'zod';
+import { axeRunOptionsSchema } from './axeOptionsSchema';
+import { localeSchema } from './localeSchema';
+import { scanAuthSchema } from './scanAuthSchema';
+import { scanUrlSchema, viewportsSchema } from './scanWebsiteSchema';
+
+// Globs are matched against the URL path, e.g. "/blog/**"
+const pathGlobSchema = z.string().trim().min(1).max(200);
+
+export const scanSiteSchema = z.object({
+  url: scanUrlSchema,
+  maxDepth: z.number().int().min(0).max(5).default(2),
+  maxPages: z.number().int().min(1).max(200).default(25),
+  include: z.array(pathGlobSchema).max(50).default([]),
+  exclude: z.array(pathGlobSchema).max(50).default([]),
+  axeOptions: axeRunOptionsSchema.optional(),
+  viewports: viewportsSchema,
+  auth: scanAuthSchema.optional(),
+  // Language of axe-core's rule texts, and the default language of the report
+  locale: localeSchema.optional(),
+});
+
+export type ScanSiteInput = z.infer<typeof scanSiteSchema>;
@@ -0,0 +1,33 @@
+import { z } from 'zod';
+
+export const scanStatusEnum = z.enum([
+  'QUEUED',
+  'RUNNING',
+  'COMPLETED',
+  'FAILED',
+]);
+
+export const scanProgressSchema = z.object({
+  stage: z.string(),
+  percent: z.number().min(0).max(100),
+  viewport: z.string().optional(),
+});
+
+export const scanStatusResponseSchema = z.object({
+  jobId: z.string(),
+  status: scanStatusEnum,
+  attemptsMade: z.number().int().nonnegative().nullable(),
+  maxAttempts: z.number().int().positive().nullable(),
+  queuePosition: z.number().int().positive().nullable(),
+  progress: scanProgressSchema.nullable(),
+  timestamps: z.object({
+    createdAt: z.string().datetime().nullable(),
+    startedAt: z.string().datetime().nullable(),
+    finishedAt: z.string().datetime().nullable(),
+  }),
+  failedReason: z.string().nullable(),
+});
+
+export type ScanStatus = z.infer<typeof scanStatusEnum>;
+export type ScanProgress = z.infer<typeof scanProgressSchema>;
+export type ScanStatusResponse = z.infer<typeof scanStatusResponseSchema>;
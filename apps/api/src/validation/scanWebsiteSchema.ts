@@ -1,22 +1,49 @@
 import { z } from 'zod';
+import { MAX_REUSE_AGE_SECONDS } from '../reuse/scanReuse';
+import { axeRunOptionsSchema } from './axeOptionsSchema';
+import { localeSchema } from './localeSchema';
+import { scanAuthSchema } from './scanAuthSchema';
+import { callbackUrlSchema } from './webhookDeliverySchema';
+
+export const scanUrlSchema = z.preprocess(
+  (val) => {
+    if (
+      typeof val === 'string' &&
+      val.trim() !== '' &&
+      !val.startsWith('http://') &&
+      !val.startsWith('https://')
+    ) {
+      return `https://${val.trim()}`;
+    }
+    return val;
+  },
+  z.string().url({
+    message: 'Invalid URL format after attempting to add https:// scheme',
+  }),
+);
+
+// Device profiles the worker can emulate; each one is scanned separately
+export const viewportNameSchema = z.enum(['desktop', 'tablet', 'mobile']);
+
+export const viewportsSchema = z
+  .array(viewportNameSchema)
+  .min(1)
+  .max(3)
+  .default(['desktop'])
+  .transform((viewports) => Array.from(new Set(viewports)));
 
 export const scanWebsiteSchema = z.object({
-  url: z.preprocess(
-    (val) => {
-      if (
-        typeof val === 'string' &&
-        val.trim() !== '' &&
-        !val.startsWith('http://') &&
-        !val.startsWith('https://')
-      ) {
-        return `https://${val.trim()}`;
-      }
-      return val;
-    },
-    z.string().url({
-      message: 'Invalid URL format after attempting to add https:// scheme',
-    }),
-  ),
+  url: scanUrlSchema,
+  axeOptions: axeRunOptionsSchema.optional(),
+  viewports: viewportsSchema,
+  auth: scanAuthSchema.optional(),
+  callbackUrl: callbackUrlSchema.optional(),
+  // Language of axe-core's rule texts, and the default language of the report
+  locale: localeSchema.optional(),
+  // Reuse a successful scan of the same URL and options finished at most this many seconds ago
+  maxAge: z.number().int().min(1).max(MAX_REUSE_AGE_SECONDS).optional(),
+  // Always start a new scan, even if an identical one is queued, running or recent
+  force: z.boolean().default(false),
 });
 
 export type ScanWebsiteInput = z.infer<typeof scanWebsiteSchema>;
@@ -0,0 +1,14 @@
+import { z } from 'zod';
+import { viewportNameSchema } from './scanWebsiteSchema';
+
+// Without a viewport, the scan's main screenshot (its first viewport) is returned
+export const screenshotQuerySchema = z
+  .object({
+    viewport: viewportNameSchema.optional(),
+    // Numbers a cropped element screenshot, as linked from each node's elementScreenshotUrl
+    element: z.coerce.number().int().min(1).optional(),
+  })
+  .refine((query) => query.element === undefined || query.viewport, {
+    message: '`element` requires `viewport`',
+    path: ['viewport'],
+  });
@@ -0,0 +1,14 @@
+import { z } from 'zod';
+
+export const callbackUrlSchema = z
+  .string()
+  .url()
+  .refine((value) => /^https?:\/\//i.test(value), {
+    message: 'Callback URL must use http or https',
+  });
+
+export const webhookDeliveryListQuerySchema = z.object({
+  jobId: z.string().uuid(),
+});
+
+export const webhookDeliveryIdParamSchema = z.string().uuid();
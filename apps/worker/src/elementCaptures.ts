@@ -0,0 +1,83 @@
+import * as axe from 'axe-core';
+import { Page } from 'puppeteer';
+import { Logger } from 'pino';
+
+// Keeps pages with hundreds of failing nodes from stalling the scan
+const MAX_CAPTURED_ELEMENTS = 100;
+// Larger elements, such as whole-page containers, get a bounding box but no crop
+const MAX_CROP_DIMENSION = 2000;
+
+// Document coordinates in CSS pixels, matching the viewport's full-page screenshot
+export interface ElementBoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  viewport: string;
+}
+
+export type CapturedNodeResult = axe.NodeResult & {
+  boundingBox?: ElementBoundingBox;
+  elementScreenshotKey?: string;
+};
+
+/**
+ * Measures each violating node while the page is still open and stores a
+ * cropped screenshot of it through `storeCrop`, which returns the object
+ * key. Results are written onto the axe nodes as `boundingBox` and
+ * `elementScreenshotKey`. Nodes inside iframes or shadow DOM have
+ * multi-part targets and are skipped.
+ */
+export async function captureViolationElements(
+  page: Page,
+  violations: axe.Result[],
+  viewport: string,
+  storeCrop: (index: number, crop: Buffer) => Promise<string | null>,
+  logger: Logger,
+): Promise<number> {
+  let captured = 0;
+  for (const violation of violations) {
+    for (const node of violation.nodes as CapturedNodeResult[]) {
+      if (captured >= MAX_CAPTURED_ELEMENTS) return captured;
+      const [selector, ...nested] = node.target;
+      if (typeof selector !== 'string' || nested.length > 0) continue;
+
+      const handle = await page.$(selector).catch(() => null);
+      if (!handle) continue;
+      try {
+        const box = await handle.boundingBox();
+        if (!box || box.width === 0 || box.height === 0) continue;
+        const scroll = (await page.evaluate(
+          '({ x: window.scrollX, y: window.scrollY })',
+        )) as { x: number; y: number };
+        node.boundingBox = {
+          x: Math.round(box.x + scroll.x),
+          y: Math.round(box.y + scroll.y),
+          width: Math.round(box.width),
+          height: Math.round(box.height),
+          viewport,
+        };
+        captured += 1;
+
+        if (box.width > MAX_CROP_DIMENSION || box.height > MAX_CROP_DIMENSION) {
+          continue;
+        }
+        const crop = await handle.screenshot({ type: 'jpeg', quality: 75 });
+        const key = await storeCrop(captured, crop);
+        if (key) node.elementScreenshotKey = key;
+      } catch (error) {
+        logger.debug(
+          {
+            selector,
+            ruleId: violation.id,
+            error: error instanceof Error ? error.message : String(error),
+          },
+          'Failed to capture violating element',
+        );
+      } finally {
+        await handle.dispose();
+      }
+    }
+  }
+  return captured;
+}
@@ -1,10 +1,63 @@
 import pino from 'pino';
-import { Worker, Job } from 'bullmq';
+import { Worker, Job, FlowProducer, Queue } from 'bullmq';
 import fs from 'fs';
-import puppeteer from 'puppeteer';
+import { randomUUID } from 'crypto';
+import puppeteer, { Browser, Page } from 'puppeteer';
 import * as axe from 'axe-core';
 import { Pool } from 'pg';
 import IORedis from 'ioredis';
+import {
+  HealthLevel,
+  scoreScan,
+  ScanScore,
+  ViolationCounts,
+} from '@accessibility-scanner-backend/scoring';
+import { discoverSitePages, SiteCrawlOptions } from './siteCrawler';
+import {
+  applyViewportProfile,
+  mergeViewportViolations,
+  ViewportProfileName,
+} from './viewports';
+import {
+  applyScanAuth,
+  buildScanAuthHeaders,
+  performLogin,
+  ScanAuth,
+} from './scanAuth';
+import {
+  createWebhookDeliveryProcessor,
+  enqueueWebhookDelivery,
+  WEBHOOK_QUEUE_NAME,
+  WebhookDeliveryJobData,
+} from './webhooks';
+import {
+  BlobStore,
+  createBlobStoreFromEnv,
+} from '@accessibility-scanner-backend/blob-store';
+import {
+  REPORT_PDF_QUEUE_NAME,
+  ReportPdfJobData,
+  ReportPdfJobResult,
+} from '@accessibility-scanner-backend/report-pdf';
+import {
+  isRetentionEnabled,
+  loadRetentionPolicy,
+  RetentionPolicy,
+} from '@accessibility-scanner-backend/retention';
+import {
+  decryptScanCredentials,
+  loadScanCredentialsKey,
+} from '@accessibility-scanner-backend/scan-credentials';
+import { normalizeScanUrl } from '@accessibility-scanner-backend/scan-url';
+import {
+  checkUrlSafety,
+  loadUrlSafetyPolicy,
+} from '@accessibility-scanner-backend/url-safety';
+import { guardPageRequests, RequestGuard } from './urlSafety';
+import { insertViolationRows } from './violationRows';
+import { createReportPdfProcessor } from './reportPdf';
+import { captureViolationElements } from './elementCaptures';
+import { createRetentionProcessor, RETENTION_QUEUE_NAME } from './retention';
 
 // Define an interface for the context where axe.run is called
 interface AxeContext {
@@ -13,6 +66,8 @@ interface AxeContext {
 
 const logger = pino({
   level: process.env.LOG_LEVEL || 'info',
+  // Scan credentials are never logged, not even in encrypted form
+  redact: { paths: ['auth', '*.auth', '*.*.auth'], censor: '[REDACTED]' },
   ...(process.env.NODE_ENV !== 'production' && {
     transport: {
       target: 'pino-pretty',
@@ -26,6 +81,8 @@ const logger = pino({
 });
 
 const SCAN_QUEUE_NAME = 'scan-jobs';
+const SITE_CRAWL_QUEUE_NAME = 'site-crawl-jobs';
+const SITE_SCAN_QUEUE_NAME = 'site-scans';
 if (!process.env.REDIS_URL) {
   logger.error('FATAL: REDIS_URL environment variable is not set.');
   process.exit(1);
@@ -54,12 +111,88 @@ pool.on('error', (err) => {
   );
 });
 
+// Decrypts the credentials of authenticated scans; see scanAuth.ts
+let scanCredentialsKey: Buffer | null = null;
+try {
+  scanCredentialsKey = loadScanCredentialsKey();
+} catch (err) {
+  logger.error({ err }, 'FATAL: SCAN_CREDENTIALS_KEY is invalid.');
+  process.exit(1);
+}
+
+// Applies to every request Chromium makes, not only the submitted URL
+const urlSafetyPolicy = loadUrlSafetyPolicy();
+
+// Screenshots are written here; rows only keep the object key
+let blobStore: BlobStore;
+try {
+  blobStore = createBlobStoreFromEnv();
+} catch (err) {
+  logger.error({ err }, 'FATAL: Blob store configuration is invalid.');
+  process.exit(1);
+}
+
+// Deletes old scans and screenshots on a schedule; off unless a limit is set
+let retentionPolicy: RetentionPolicy;
+try {
+  retentionPolicy = loadRetentionPolicy();
+} catch (err) {
+  logger.error({ err }, 'FATAL: Retention policy configuration is invalid.');
+  process.exit(1);
+}
+// Cron pattern for the scheduled run
+const retentionSchedule = process.env.RETENTION_SCHEDULE || '0 3 * * *';
+
 logger.info('Worker service starting...');
 
 // Define an interface for the job data and result
 interface ScanJobData {
   submittedUrl: string;
   originalJobId: string;
+  apiKeyId?: number;
+  siteScanId?: string;
+  axeOptions?: ScanAxeOptions;
+  viewports?: ViewportProfileName[];
+  // axe-core locale for rule texts, e.g. "de"; English when missing
+  locale?: string;
+  // Encrypted ScanAuth envelope; only decrypted inside processScanJob
+  auth?: string;
+  // Receives a signed POST once the scan has finished or failed permanently
+  callbackUrl?: string;
+}
+
+const DEFAULT_VIEWPORTS: ViewportProfileName[] = ['desktop'];
+
+// axe.run options accepted by the API, already validated there
+interface ScanAxeOptions {
+  runOnly?: { type: 'tag' | 'rule'; values: string[] };
+  rules?: Record<string, boolean>;
+  include?: string[];
+  exclude?: string[];
+  resultTypes?: axe.resultGroups[];
+}
+
+// What is stored in scan_results.axe_options to record how a page was tested
+interface AxeOptionsUsed {
+  context: axe.ContextObject;
+  options: axe.RunOptions;
+  axeVersion?: string;
+  locale?: string;
+}
+
+interface SiteCrawlJobData extends SiteCrawlOptions {
+  siteScanId: string;
+  apiKeyId?: number;
+  axeOptions?: ScanAxeOptions;
+  viewports?: ViewportProfileName[];
+  locale?: string;
+  auth?: string;
+  // The month the API reserved maxPages scans of quota in, as YYYY-MM-DD
+  quotaPeriod?: string;
+}
+
+interface SiteScanJobData {
+  siteScanId: string;
 }
 
 interface ScanJobResult {
@@ -67,90 +200,249 @@ interface ScanJobResult {
   jobId: string | undefined;
   data: ScanJobData | undefined;
   violations?: axe.Result[];
+  // The same values saved with the scan, set when it succeeded
+  score?: number;
+  healthLevel?: HealthLevel;
+  violationCounts?: ViolationCounts;
+  // Rules axe could not decide, which a person has to check
+  needsReviewCount?: number;
+  scoringModelVersion?: number;
   errorMessage?: string;
   pageTitle?: string;
   actualUrl?: string;
 }
 
-// Define the job processing function
-async function processScanJob(
+// Launch Puppeteer with optimizations for containerized environments
+function launchBrowser(): Promise<Browser> {
+  return puppeteer.launch({
+    headless: true,
+    // Recommended args for running in Docker, especially in a constrained environment like Railway
+    args: [
+      '--no-sandbox', // Disables the Chrome sandbox, necessary for many Docker environments
+      '--disable-setuid-sandbox', // Also for sandbox compatibility
+      '--disable-dev-shm-usage', // Writes to /tmp instead of shared memory, preventing crashes
+      '--disable-accelerated-2d-canvas', // Disables GPU hardware acceleration
+      '--disable-gpu', // General GPU disable
+    ],
+    // Increased timeout to prevent ProtocolError on slower server starts
+    protocolTimeout: 90000, // 90 seconds
+  });
+}
+
+// Translates the job's scan options into the arguments for axe.run(context, options)
+function buildAxeRunArgs(axeOptions: ScanAxeOptions = {}): {
+  context: axe.ContextObject;
+  options: axe.RunOptions;
+} {
+  // axe defaults the context to the whole document when include is omitted
+  const context: axe.ContextObject =
+    axeOptions.include && axeOptions.include.length > 0
+      ? { include: axeOptions.include, exclude: axeOptions.exclude ?? [] }
+      : { exclude: axeOptions.exclude ?? [] };
+
+  const options: axe.RunOptions = {};
+  if (axeOptions.runOnly) options.runOnly = axeOptions.runOnly;
+  if (axeOptions.rules) {
+    options.rules = Object.fromEntries(
+      Object.entries(axeOptions.rules).map(([ruleId, enabled]) => [
+        ruleId,
+        { enabled },
+      ]),
+    );
+  }
+  if (axeOptions.resultTypes) options.resultTypes = axeOptions.resultTypes;
+
+  return { context, options };
+}
+
+// Stages reported through job.updateProgress, with the percentage each one marks
+const SCAN_PROGRESS_STAGES = {
+  navigate: 10,
+  title: 25,
+  'axe-inject': 40,
+  screenshot: 55,
+  'axe-run': 70,
+  elements: 78,
+  save: 90,
+} as const;
+
+type ScanStage = keyof typeof SCAN_PROGRESS_STAGES;
+
+// Stages from navigate to axe-run repeat per viewport and share the 10-80% band
+function progressPercent(
+  stage: ScanStage,
+  viewportIndex: number,
+  viewportCount: number,
+): number {
+  if (stage === 'save') return SCAN_PROGRESS_STAGES.save;
+  const stageFraction = (SCAN_PROGRESS_STAGES[stage] - 10) / 70;
+  return Math.round(
+    10 + ((viewportIndex + stageFraction) / viewportCount) * 70,
+  );
+}
+
+async function reportProgress(
   job: Job<ScanJobData, ScanJobResult>,
-): Promise<ScanJobResult> {
-  logger.info(
-    { jobId: job.id, jobName: job.name, data: job.data },
-    'Processing job',
+  stage: ScanStage,
+  viewport?: { name: ViewportProfileName; index: number; count: number },
+): Promise<void> {
+  try {
+    await job.updateProgress({
+      stage,
+      percent: viewport
+        ? progressPercent(stage, viewport.index, viewport.count)
+        : SCAN_PROGRESS_STAGES[stage],
+      ...(viewport && { viewport: viewport.name }),
+    });
+  } catch (progressError: unknown) {
+    // Progress is informational only, so a failed update must not fail the scan
+    logger.warn(
+      {
+        jobId: job.id,
+        stage,
+        error:
+          progressError instanceof Error
+            ? progressError.message
+            : String(progressError),
+      },
+      'Failed to report job progress',
+    );
+  }
+}
+
+interface ViewportScanResult {
+  viewport: ViewportProfileName;
+  width: number;
+  height: number;
+  isMobile: boolean;
+  axeResults: axe.AxeResults;
+  screenshot?: Buffer;
+  // CSS pixel size of the full-page screenshot, which element bounding boxes are relative to
+  screenshotWidth?: number;
+  screenshotHeight?: number;
+}
+
+interface ProcessedScan {
+  actualUrl?: string;
+  pageTitle?: string;
+  scanSucceeded: boolean;
+  // Results of the first viewport, with violations merged across all viewports
+  axeResults?: axe.AxeResults;
+  viewportResults: ViewportScanResult[];
+  processingError?: Error;
+  axeOptionsUsed?: AxeOptionsUsed;
+}
+
+// Every page gets the URL safety guard, plus the scan's credentials when it has any
+async function preparePage(
+  page: Page,
+  targetUrl: string,
+  auth?: ScanAuth,
+): Promise<RequestGuard> {
+  const authHeaders = auth ? buildScanAuthHeaders(auth) : null;
+  const guard = await guardPageRequests(
+    page,
+    urlSafetyPolicy,
+    logger,
+    authHeaders
+      ? { origin: new URL(targetUrl).origin, headers: authHeaders }
+      : undefined,
   );
+  if (auth) {
+    await applyScanAuth(page, auth, targetUrl);
+  }
+  return guard;
+}
 
-  let browser;
-  const scanResult: {
-    actualUrl?: string;
-    pageTitle?: string;
-    scanSucceeded: boolean;
-    axeResults?: axe.AxeResults;
-    processingError?: Error;
-    screenshot?: string;
-  } = {
-    scanSucceeded: false,
-  };
+// axe-core's translated rule texts; null for English, which is built in
+async function loadAxeLocale(
+  locale: string | undefined,
+): Promise<axe.Locale | null> {
+  if (!locale || locale === 'en') return null;
+  // The API only accepts known locales; this keeps the name out of the path either way
+  if (!/^[a-z]{2}(_[A-Z]{2})?$/.test(locale)) {
+    throw new Error(`Unsupported axe-core locale: ${locale}`);
+  }
+  const localePath = require.resolve(`axe-core/locales/${locale}.json`);
+  return JSON.parse(await fs.promises.readFile(localePath, 'utf8'));
+}
 
+// Loads the page at one viewport profile, then screenshots it and runs axe
+async function scanAtViewport(
+  browser: Browser,
+  job: Job<ScanJobData, ScanJobResult>,
+  urlToScan: string,
+  axeScript: string,
+  axeLocale: axe.Locale | null,
+  viewport: { name: ViewportProfileName; index: number; count: number },
+  auth?: ScanAuth,
+): Promise<ViewportScanResult & { actualUrl: string; pageTitle: string }> {
+  const page = await browser.newPage();
   try {
-    // Launch Puppeteer with optimizations for containerized environments
-    browser = await puppeteer.launch({
-      headless: true,
-      // Recommended args for running in Docker, especially in a constrained environment like Railway
-      args: [
-        '--no-sandbox', // Disables the Chrome sandbox, necessary for many Docker environments
-        '--disable-setuid-sandbox', // Also for sandbox compatibility
-        '--disable-dev-shm-usage', // Writes to /tmp instead of shared memory, preventing crashes
-        '--disable-accelerated-2d-canvas', // Disables GPU hardware acceleration
-        '--disable-gpu', // General GPU disable
-      ],
-      // Increased timeout to prevent ProtocolError on slower server starts
-      protocolTimeout: 90000, // 90 seconds
-    });
-    const page = await browser.newPage();
+    const { width, height, isMobile } = await applyViewportProfile(
+      page,
+      viewport.name,
+    );
+    const guard = await preparePage(page, urlToScan, auth);
     await page.setDefaultNavigationTimeout(30000);
 
-    const urlToScan = job.data?.submittedUrl || 'https://example.com';
-    logger.info({ jobId: job.id, url: urlToScan }, 'Navigating to page');
-    const response = await page.goto(urlToScan, { waitUntil: 'networkidle2' });
-    scanResult.actualUrl = response?.url() || urlToScan;
+    await reportProgress(job, 'navigate', viewport);
+    logger.info(
+      { jobId: job.id, url: urlToScan, viewport: viewport.name },
+      'Navigating to page',
+    );
+    const response = await page
+      .goto(urlToScan, { waitUntil: 'networkidle2' })
+      .catch((error: unknown) => {
+        const blockedReason = guard.blockedNavigationReason();
+        throw blockedReason
+          ? new Error(`Blocked by URL safety policy: ${blockedReason}`)
+          : error;
+      });
+    const actualUrl = response?.url() || urlToScan;
 
-    scanResult.pageTitle = await page.title();
+    await reportProgress(job, 'title', viewport);
+    const pageTitle = await page.title();
     logger.info(
-      {
-        jobId: job.id,
-        title: scanResult.pageTitle,
-        actualUrl: scanResult.actualUrl,
-      },
+      { jobId: job.id, title: pageTitle, actualUrl, viewport: viewport.name },
       'Page title retrieved',
     );
 
-    if (!scanResult.pageTitle) {
-      logger.warn(
-        { jobId: job.id, url: scanResult.actualUrl },
-        'Page title is empty',
-      );
+    if (!pageTitle) {
+      logger.warn({ jobId: job.id, url: actualUrl }, 'Page title is empty');
     }
 
-    const axeScript = await fs.promises.readFile(
-      require.resolve('axe-core'),
-      'utf8',
-    );
+    await reportProgress(job, 'axe-inject', viewport);
     await page.evaluate(axeScript);
+    if (axeLocale) {
+      await page.evaluate((locale) => {
+        // @ts-expect-error TS2304: Cannot find name 'window'. 'window' is a browser global.
+        (window as unknown as AxeContext).axe.configure({ locale });
+      }, axeLocale);
+    }
 
     // Capture screenshot after page load and before Axe scan
+    await reportProgress(job, 'screenshot', viewport);
+    let screenshot: Buffer | undefined;
+    let screenshotSize: { width: number; height: number } | undefined;
     try {
-      scanResult.screenshot = await page.screenshot({
-        encoding: 'base64',
+      screenshotSize = (await page.evaluate(
+        '({ width: document.documentElement.scrollWidth, height: document.documentElement.scrollHeight })',
+      )) as { width: number; height: number };
+      screenshot = await page.screenshot({
         type: 'jpeg',
         quality: 75,
+        fullPage: true,
       });
-      logger.info({ jobId: job.id }, 'Page screenshot captured successfully.');
+      logger.info(
+        { jobId: job.id, viewport: viewport.name },
+        'Page screenshot captured successfully.',
+      );
     } catch (screenshotError: unknown) {
       logger.warn(
         {
           jobId: job.id,
+          viewport: viewport.name,
           error:
             screenshotError instanceof Error
               ? screenshotError.message
@@ -161,16 +453,210 @@ async function processScanJob(
       // Not treating screenshot failure as a critical error for the scan itself
     }
 
-    scanResult.axeResults = (await page.evaluate(() => {
-      // @ts-expect-error TS2304: Cannot find name 'window'. 'window' is a browser global.
-      return (window as unknown as AxeContext).axe.run();
-    })) as axe.AxeResults;
+    await reportProgress(job, 'axe-run', viewport);
+    const { context, options } = buildAxeRunArgs(job.data?.axeOptions);
+    const axeResults = (await page.evaluate(
+      (axeContext, axeOptions) => {
+        // @ts-expect-error TS2304: Cannot find name 'window'. 'window' is a browser global.
+        return (window as unknown as AxeContext).axe.run(
+          axeContext,
+          axeOptions,
+        );
+      },
+      context,
+      options,
+    )) as axe.AxeResults;
 
     logger.info(
-      { jobId: job.id, violations: scanResult.axeResults.violations.length },
+      {
+        jobId: job.id,
+        viewport: viewport.name,
+        violations: axeResults.violations.length,
+      },
       'Axe-core scan completed',
     );
 
+    // The page is still open, so violating elements can be measured and cropped
+    await reportProgress(job, 'elements', viewport);
+    const capturedElements = await captureViolationElements(
+      page,
+      axeResults.violations,
+      viewport.name,
+      async (index, crop) => {
+        const key = `screenshots/${job.id}/${viewport.name}/elements/${index}.jpg`;
+        try {
+          await blobStore.put(key, crop, 'image/jpeg');
+          return key;
+        } catch (storeErr: unknown) {
+          logger.warn(
+            {
+              jobId: job.id,
+              key,
+              error:
+                storeErr instanceof Error ? storeErr.message : String(storeErr),
+            },
+            'Failed to store element screenshot',
+          );
+          return null;
+        }
+      },
+      logger,
+    );
+    logger.info(
+      { jobId: job.id, viewport: viewport.name, capturedElements },
+      'Violating elements captured',
+    );
+
+    return {
+      viewport: viewport.name,
+      width,
+      height,
+      isMobile: Boolean(isMobile),
+      axeResults,
+      screenshot,
+      screenshotWidth: screenshot ? screenshotSize?.width : undefined,
+      screenshotHeight: screenshot ? screenshotSize?.height : undefined,
+      actualUrl,
+      pageTitle,
+    };
+  } finally {
+    await page.close();
+  }
+}
+
+// Queues the callback for a finished scan; a failure here must not fail the scan
+async function notifyScanCallback(
+  job: Job<ScanJobData, ScanJobResult>,
+  result: ScanJobResult,
+): Promise<void> {
+  const callbackUrl = job.data?.callbackUrl;
+  if (!callbackUrl || !job.id) return;
+
+  try {
+    const deliveryId = await enqueueWebhookDelivery(pool, webhookQueue, {
+      jobId: job.id,
+      apiKeyId: job.data.apiKeyId,
+      callbackUrl,
+      payload: {
+        event: result.success ? 'scan.completed' : 'scan.failed',
+        jobId: job.id,
+        status: result.success ? 'COMPLETED' : 'FAILED',
+        submittedUrl: job.data.submittedUrl,
+        actualUrl: result.actualUrl ?? null,
+        pageTitle: result.pageTitle ?? null,
+        score: result.score ?? null,
+        healthLevel: result.healthLevel ?? null,
+        violationCounts: result.violationCounts ?? null,
+        needsReviewCount: result.needsReviewCount ?? null,
+        errorMessage: result.errorMessage ?? null,
+        finishedAt: new Date().toISOString(),
+      },
+    });
+    logger.info({ jobId: job.id, deliveryId }, 'Scan callback queued');
+  } catch (error) {
+    logger.error(
+      {
+        jobId: job.id,
+        error: error instanceof Error ? error.message : String(error),
+      },
+      'Failed to queue scan callback',
+    );
+  }
+}
+
+// Define the job processing function
+async function processScanJob(
+  job: Job<ScanJobData, ScanJobResult>,
+): Promise<ScanJobResult> {
+  // job.data.auth is removed from log lines by the logger's redact paths
+  logger.info(
+    {
+      jobId: job.id,
+      jobName: job.name,
+      data: job.data,
+      authenticated: Boolean(job.data?.auth),
+    },
+    'Processing job',
+  );
+
+  let browser: Browser | undefined;
+  const scanResult: ProcessedScan = {
+    scanSucceeded: false,
+    viewportResults: [],
+  };
+
+  try {
+    browser = await launchBrowser();
+
+    const auth = job.data?.auth
+      ? decryptScanCredentials<ScanAuth>(job.data.auth, scanCredentialsKey)
+      : undefined;
+    if (auth) {
+      await performLogin(
+        browser,
+        auth,
+        async (page, url) => {
+          await preparePage(page, url, auth);
+        },
+        logger,
+        job.id,
+      );
+    }
+
+    const urlToScan = job.data?.submittedUrl || 'https://example.com';
+    const viewports = job.data?.viewports?.length
+      ? job.data.viewports
+      : DEFAULT_VIEWPORTS;
+    const axeScript = await fs.promises.readFile(
+      require.resolve('axe-core'),
+      'utf8',
+    );
+    const axeLocale = await loadAxeLocale(job.data?.locale);
+
+    for (const [index, name] of viewports.entries()) {
+      const { actualUrl, pageTitle, ...viewportResult } = await scanAtViewport(
+        browser,
+        job,
+        urlToScan,
+        axeScript,
+        axeLocale,
+        { name, index, count: viewports.length },
+        auth,
+      );
+      // The first viewport provides the page metadata and the main screenshot
+      if (index === 0) {
+        scanResult.actualUrl = actualUrl;
+        scanResult.pageTitle = pageTitle;
+      }
+      scanResult.viewportResults.push(viewportResult);
+    }
+
+    const primaryResults = scanResult.viewportResults[0].axeResults;
+    // Violations and incomplete items list the viewports they were found at.
+    // A single-viewport scan keeps axe's own shape, without viewport tags.
+    const mergeResultType = (
+      resultType: 'violations' | 'incomplete',
+    ): axe.Result[] =>
+      scanResult.viewportResults.length > 1
+        ? mergeViewportViolations(
+            scanResult.viewportResults.map((result) => ({
+              viewport: result.viewport,
+              violations: result.axeResults[resultType] ?? [],
+            })),
+          )
+        : (primaryResults[resultType] ?? []);
+    // Passes and inapplicable rules come from the first viewport and are stored per rule only
+    scanResult.axeResults = {
+      ...primaryResults,
+      violations: mergeResultType('violations'),
+      incomplete: mergeResultType('incomplete'),
+    };
+    scanResult.axeOptionsUsed = {
+      ...buildAxeRunArgs(job.data?.axeOptions),
+      axeVersion: primaryResults.testEngine?.version,
+      ...(axeLocale && { locale: job.data?.locale }),
+    };
+
     if (scanResult.axeResults.violations.length > 0) {
       logger.warn(
         { jobId: job.id, violations: scanResult.axeResults.violations },
@@ -204,19 +690,29 @@ async function processScanJob(
     }
   }
 
+  await reportProgress(job, 'save');
+  const scanScore = scanResult.scanSucceeded
+    ? scoreScan(
+        scanResult.axeResults!.violations,
+        scanResult.axeResults!.incomplete.length,
+      )
+    : null;
   const { dbSaveSuccess, dbErrorMessage } = await saveScanResultToDb(
     job,
     scanResult,
+    scanScore,
   );
 
   const overallJobSuccess = scanResult.scanSucceeded && dbSaveSuccess;
 
+  let result: ScanJobResult;
   if (overallJobSuccess) {
-    return {
+    result = {
       success: true,
       jobId: job.id,
       data: job.data,
       violations: scanResult.axeResults!.violations,
+      ...scanScore,
       pageTitle: scanResult.pageTitle,
       actualUrl: scanResult.actualUrl,
     };
@@ -229,7 +725,7 @@ async function processScanJob(
     if (!finalErrorMessage)
       finalErrorMessage = 'Unknown processing or DB error';
 
-    return {
+    result = {
       success: false,
       jobId: job.id,
       data: job.data,
@@ -238,25 +734,75 @@ async function processScanJob(
       actualUrl: scanResult.actualUrl,
     };
   }
+
+  await notifyScanCallback(job, result);
+  return result;
+}
+
+// Uploads each viewport's screenshot and returns the object keys by viewport; a failed upload only loses that image
+async function storeScreenshots(
+  job: Job<ScanJobData, ScanJobResult>,
+  scanResult: ProcessedScan,
+): Promise<Map<string, string>> {
+  const keys = new Map<string, string>();
+  for (const viewportResult of scanResult.viewportResults) {
+    if (!viewportResult.screenshot) continue;
+    const key = `screenshots/${job.id}/${viewportResult.viewport}.jpg`;
+    try {
+      await blobStore.put(key, viewportResult.screenshot, 'image/jpeg');
+      keys.set(viewportResult.viewport, key);
+    } catch (storeErr: unknown) {
+      logger.warn(
+        {
+          jobId: job.id,
+          viewport: viewportResult.viewport,
+          error:
+            storeErr instanceof Error ? storeErr.message : String(storeErr),
+        },
+        'Failed to store page screenshot',
+      );
+    }
+  }
+  return keys;
 }
 
 async function saveScanResultToDb(
   job: Job<ScanJobData, ScanJobResult>,
-  scanResult: {
-    actualUrl?: string;
-    pageTitle?: string;
-    scanSucceeded: boolean;
-    axeResults?: axe.AxeResults;
-    processingError?: Error;
-    screenshot?: string;
-  },
+  scanResult: ProcessedScan,
+  scanScore: ScanScore | null,
 ): Promise<{ dbSaveSuccess: boolean; dbErrorMessage?: string }> {
+  const client = await pool.connect().catch((connectErr: unknown) => {
+    logger.error(
+      {
+        jobId: job.id,
+        error:
+          connectErr instanceof Error ? connectErr.message : String(connectErr),
+      },
+      'Failed to acquire database client',
+    );
+    return null;
+  });
+  if (!client) {
+    return {
+      dbSaveSuccess: false,
+      dbErrorMessage:
+        'Failed to save scan result to database: no database connection',
+    };
+  }
+
   try {
+    const screenshotKeys = scanResult.scanSucceeded
+      ? await storeScreenshots(job, scanResult)
+      : new Map<string, string>();
+    const primaryViewport = scanResult.viewportResults[0]?.viewport;
+
+    await client.query('BEGIN');
     const insertQuery = `
       INSERT INTO scan_results
-        (job_id, original_job_id, submitted_url, actual_url, page_title, scan_success, violations, error_message, page_screenshot)
+        (job_id, original_job_id, submitted_url, actual_url, page_title, scan_success, violations, error_message, screenshot_key, screenshot_width, screenshot_height, api_key_id, site_scan_id, axe_options, normalized_url,
+         score, health_level, critical_count, serious_count, moderate_count, minor_count, violation_count, needs_review_count, scoring_model_version)
       VALUES
-        ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+        ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24)
       RETURNING id;
     `;
     const values = [
@@ -266,16 +812,62 @@ async function saveScanResultToDb(
       scanResult.actualUrl,
       scanResult.pageTitle,
       scanResult.scanSucceeded,
-      scanResult.scanSucceeded
-        ? JSON.stringify(scanResult.axeResults?.violations)
-        : null,
+      // Violations are stored in scan_violations and scan_violation_nodes instead
+      null,
       scanResult.scanSucceeded ? null : scanResult.processingError?.message,
-      scanResult.screenshot || null,
+      (primaryViewport && screenshotKeys.get(primaryViewport)) || null,
+      scanResult.viewportResults[0]?.screenshotWidth ?? null,
+      scanResult.viewportResults[0]?.screenshotHeight ?? null,
+      job.data?.apiKeyId ?? null,
+      job.data?.siteScanId ?? null,
+      scanResult.axeOptionsUsed
+        ? JSON.stringify(scanResult.axeOptionsUsed)
+        : null,
+      job.data?.submittedUrl ? normalizeScanUrl(job.data.submittedUrl) : null,
+      scanScore?.score ?? null,
+      scanScore?.healthLevel ?? null,
+      scanScore?.violationCounts.critical ?? null,
+      scanScore?.violationCounts.serious ?? null,
+      scanScore?.violationCounts.moderate ?? null,
+      scanScore?.violationCounts.minor ?? null,
+      scanScore?.violationCounts.total ?? null,
+      scanScore?.needsReviewCount ?? null,
+      scanScore?.scoringModelVersion ?? null,
     ];
 
-    const res = await pool.query(insertQuery, values);
+    const res = await client.query(insertQuery, values);
+    const scanResultId = res.rows[0].id;
+
+    if (scanResult.scanSucceeded) {
+      await insertViolationRows(client, scanResultId, {
+        violations: scanResult.axeResults?.violations,
+        incomplete: scanResult.axeResults?.incomplete,
+        passes: scanResult.axeResults?.passes,
+        inapplicable: scanResult.axeResults?.inapplicable,
+      });
+      for (const viewportResult of scanResult.viewportResults) {
+        await client.query(
+          `INSERT INTO scan_viewport_results
+             (scan_result_id, viewport, viewport_width, viewport_height, is_mobile, violations, screenshot_key, screenshot_width, screenshot_height)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+          [
+            scanResultId,
+            viewportResult.viewport,
+            viewportResult.width,
+            viewportResult.height,
+            viewportResult.isMobile,
+            JSON.stringify(viewportResult.axeResults.violations),
+            screenshotKeys.get(viewportResult.viewport) ?? null,
+            viewportResult.screenshotWidth ?? null,
+            viewportResult.screenshotHeight ?? null,
+          ],
+        );
+      }
+    }
+    await client.query('COMMIT');
+
     logger.info(
-      { jobId: job.id, dbRecordId: res.rows[0].id },
+      { jobId: job.id, dbRecordId: scanResultId },
       `Scan ${
         scanResult.scanSucceeded ? 'result' : 'failure log'
       } saved to database`,
@@ -283,6 +875,7 @@ async function saveScanResultToDb(
 
     return { dbSaveSuccess: true };
   } catch (dbErr: unknown) {
+    await client.query('ROLLBACK').catch(() => undefined);
     const err =
       dbErr instanceof Error ? dbErr : new Error('Unknown database error');
     const dbErrorMessage = `Failed to save scan result to database: ${err.message}`;
@@ -297,9 +890,229 @@ async function saveScanResultToDb(
     );
 
     return { dbSaveSuccess: false, dbErrorMessage };
+  } finally {
+    client.release();
+  }
+}
+
+const flowProducer = new FlowProducer({ connection });
+
+const webhookQueue = new Queue<WebhookDeliveryJobData>(WEBHOOK_QUEUE_NAME, {
+  connection,
+  defaultJobOptions: {
+    attempts: 6,
+    backoff: { type: 'exponential', delay: 10000 },
+  },
+});
+
+// Only used by the retention job, to remove the BullMQ jobs of deleted scans
+const scanQueue = new Queue(SCAN_QUEUE_NAME, { connection });
+
+const retentionQueue = new Queue(RETENTION_QUEUE_NAME, {
+  connection,
+  defaultJobOptions: { attempts: 1, removeOnComplete: 30, removeOnFail: 30 },
+});
+
+// Replaces any schedule left from an earlier configuration
+async function scheduleRetention(): Promise<void> {
+  const enabled = isRetentionEnabled(retentionPolicy);
+  for (const repeatable of await retentionQueue.getRepeatableJobs()) {
+    if (!enabled || repeatable.pattern !== retentionSchedule) {
+      await retentionQueue.removeRepeatableByKey(repeatable.key);
+    }
+  }
+  if (!enabled) return;
+  await retentionQueue.add(
+    'apply-retention',
+    {},
+    { repeat: { pattern: retentionSchedule } },
+  );
+  logger.info(
+    { policy: retentionPolicy, schedule: retentionSchedule },
+    'Retention job scheduled',
+  );
+}
+
+async function updateSiteScan(
+  siteScanId: string,
+  fields: {
+    status: string;
+    pageCount?: number;
+    errorMessage?: string;
+    completed?: boolean;
+  },
+): Promise<void> {
+  await pool.query(
+    `UPDATE site_scans
+     SET status = $2,
+         page_count = COALESCE($3, page_count),
+         error_message = $4,
+         completed_at = CASE WHEN $5 THEN current_timestamp ELSE completed_at END
+     WHERE id = $1`,
+    [
+      siteScanId,
+      fields.status,
+      fields.pageCount ?? null,
+      fields.errorMessage ?? null,
+      fields.completed ?? false,
+    ],
+  );
+}
+
+// Gives back site scan pages reserved by the API, in the month they were reserved in
+async function releaseSiteScanQuota(
+  apiKeyId: number,
+  quotaPeriod: string | undefined,
+  count: number,
+): Promise<void> {
+  await pool.query(
+    `UPDATE api_key_usage SET scan_count = GREATEST(scan_count - $2, 0)
+     WHERE api_key_id = $1
+       AND period_start = COALESCE($3::date, date_trunc('month', current_timestamp)::date)`,
+    [apiKeyId, count, quotaPeriod ?? null],
+  );
+}
+
+/**
+ * Discovers the pages of a site and fans them out as a BullMQ flow: one
+ * `scan-url` child per page in the scan queue, under a `site-scan` parent
+ * whose job ID is the site scan ID. The parent runs once every child is done.
+ */
+async function processSiteCrawlJob(job: Job<SiteCrawlJobData>) {
+  const {
+    siteScanId,
+    apiKeyId,
+    axeOptions,
+    viewports,
+    locale,
+    auth: encryptedAuth,
+    quotaPeriod,
+    ...crawlOptions
+  } = job.data;
+  logger.info({ jobId: job.id, siteScanId, crawlOptions }, 'Discovering site');
+
+  let browser: Browser | undefined;
+  // Pages of the reservation that are scanned, and so keep their quota
+  let queuedPages = 0;
+  let quotaSettled = false;
+  try {
+    await updateSiteScan(siteScanId, { status: 'DISCOVERING' });
+    browser = await launchBrowser();
+    const auth = encryptedAuth
+      ? decryptScanCredentials<ScanAuth>(encryptedAuth, scanCredentialsKey)
+      : undefined;
+    const preparePageForCrawl = async (page: Page, url: string) => {
+      await preparePage(page, url, auth);
+    };
+    if (auth) {
+      await performLogin(browser, auth, preparePageForCrawl, logger, job.id);
+    }
+    const pages = await discoverSitePages(browser, crawlOptions, logger, {
+      preparePage: preparePageForCrawl,
+      isUrlSafe: async (url) =>
+        (await checkUrlSafety(url, urlSafetyPolicy)) === null,
+    });
+    await browser.close();
+    browser = undefined;
+
+    await flowProducer.add({
+      name: 'site-scan',
+      queueName: SITE_SCAN_QUEUE_NAME,
+      data: { siteScanId },
+      opts: { jobId: siteScanId },
+      children: pages.map((pageUrl) => {
+        const childJobId = randomUUID();
+        return {
+          name: 'scan-url',
+          queueName: SCAN_QUEUE_NAME,
+          data: {
+            submittedUrl: pageUrl,
+            originalJobId: childJobId,
+            apiKeyId,
+            siteScanId,
+            axeOptions,
+            viewports,
+            locale,
+            auth: encryptedAuth,
+          },
+          opts: {
+            jobId: childJobId,
+            attempts: 3,
+            backoff: { type: 'exponential', delay: 1000 },
+            // A page that fails permanently must not block the site scan
+            ignoreDependencyOnFailure: true,
+          },
+        };
+      }),
+    });
+
+    queuedPages = pages.length;
+
+    await updateSiteScan(siteScanId, {
+      status: 'SCANNING',
+      pageCount: pages.length,
+    });
+    if (apiKeyId && pages.length < crawlOptions.maxPages) {
+      // The API reserved maxPages scans of quota; give back what was not used
+      await releaseSiteScanQuota(
+        apiKeyId,
+        quotaPeriod,
+        crawlOptions.maxPages - pages.length,
+      );
+    }
+    quotaSettled = true;
+    logger.info(
+      { jobId: job.id, siteScanId, pages: pages.length },
+      'Site pages enqueued for scanning',
+    );
+    return { siteScanId, pages };
+  } catch (e: unknown) {
+    const err = e instanceof Error ? e : new Error(String(e));
+    logger.error(
+      { jobId: job.id, siteScanId, error: err.message, stack: err.stack },
+      'Site discovery failed',
+    );
+    await updateSiteScan(siteScanId, {
+      status: 'FAILED',
+      errorMessage: err.message,
+      completed: true,
+    }).catch((dbErr) =>
+      logger.error({ siteScanId, err: dbErr }, 'Failed to record site scan'),
+    );
+    // Crawls are not retried, so the pages that were never queued will not use their reservation
+    if (apiKeyId && !quotaSettled && queuedPages < crawlOptions.maxPages) {
+      await releaseSiteScanQuota(
+        apiKeyId,
+        quotaPeriod,
+        crawlOptions.maxPages - queuedPages,
+      ).catch((dbErr) =>
+        logger.error(
+          { siteScanId, apiKeyId, err: dbErr },
+          'Failed to release site scan quota',
+        ),
+      );
+    }
+    throw err;
+  } finally {
+    if (browser) await browser.close();
   }
 }
 
+// Runs after every page of a site scan has finished
+async function processSiteScanJob(job: Job<SiteScanJobData>) {
+  const { siteScanId } = job.data;
+  const childResults = await job.getChildrenValues<ScanJobResult>();
+  const results = Object.values(childResults);
+  const failedPages = results.filter((result) => !result.success).length;
+
+  await updateSiteScan(siteScanId, { status: 'COMPLETED', completed: true });
+  logger.info(
+    { siteScanId, pages: results.length, failedPages },
+    'Site scan completed',
+  );
+  return { siteScanId, pages: results.length, failedPages };
+}
+
 // Initialize the BullMQ Worker
 const worker = new Worker<ScanJobData, ScanJobResult>(
   SCAN_QUEUE_NAME,
@@ -325,6 +1138,15 @@ worker.on(
         { jobId: job.id, error: err.message, stack: err.stack },
         `Job failed`,
       );
+      // Only report the failure once BullMQ has given up on the job
+      if (job.attemptsMade >= (job.opts.attempts ?? 1)) {
+        void notifyScanCallback(job, {
+          success: false,
+          jobId: job.id,
+          data: job.data,
+          errorMessage: err.message,
+        });
+      }
     } else {
       logger.error(
         { error: err.message, stack: err.stack },
@@ -356,11 +1178,112 @@ worker.on('ready', () => {
   }
 });
 
+const siteCrawlWorker = new Worker<SiteCrawlJobData>(
+  SITE_CRAWL_QUEUE_NAME,
+  processSiteCrawlJob,
+  { connection, concurrency: 1 },
+);
+
+const siteScanWorker = new Worker<SiteScanJobData>(
+  SITE_SCAN_QUEUE_NAME,
+  processSiteScanJob,
+  { connection, concurrency: 5 },
+);
+
+[siteCrawlWorker, siteScanWorker].forEach((siteWorker) => {
+  siteWorker.on('failed', (job: Job | undefined, err: Error) => {
+    logger.error(
+      { queue: siteWorker.name, jobId: job?.id, error: err.message },
+      'Site job failed',
+    );
+  });
+  siteWorker.on('error', (err: Error) => {
+    logger.error(
+      { queue: siteWorker.name, error: err.message, stack: err.stack },
+      'BullMQ worker error',
+    );
+  });
+});
+
+const webhookWorker = new Worker<WebhookDeliveryJobData>(
+  WEBHOOK_QUEUE_NAME,
+  createWebhookDeliveryProcessor(
+    pool,
+    process.env.WEBHOOK_SIGNING_SECRET,
+    urlSafetyPolicy,
+    logger,
+  ),
+  { connection, concurrency: 10 },
+);
+
+webhookWorker.on('error', (err: Error) => {
+  logger.error(
+    { queue: WEBHOOK_QUEUE_NAME, error: err.message, stack: err.stack },
+    'BullMQ worker error',
+  );
+});
+
+const retentionWorker = new Worker(
+  RETENTION_QUEUE_NAME,
+  createRetentionProcessor(pool, blobStore, scanQueue, retentionPolicy, logger),
+  { connection, concurrency: 1 },
+);
+
+retentionWorker.on('failed', (job: Job | undefined, err: Error) => {
+  logger.error(
+    { queue: RETENTION_QUEUE_NAME, jobId: job?.id, error: err.message },
+    'Retention job failed',
+  );
+});
+
+retentionWorker.on('error', (err: Error) => {
+  logger.error(
+    { queue: RETENTION_QUEUE_NAME, error: err.message, stack: err.stack },
+    'BullMQ worker error',
+  );
+});
+
+// Each job launches its own browser, so PDFs are rendered one at a time
+const reportPdfWorker = new Worker<ReportPdfJobData, ReportPdfJobResult>(
+  REPORT_PDF_QUEUE_NAME,
+  createReportPdfProcessor(pool, blobStore, launchBrowser, logger),
+  { connection, concurrency: 1 },
+);
+
+reportPdfWorker.on('failed', (job: Job | undefined, err: Error) => {
+  logger.error(
+    { queue: REPORT_PDF_QUEUE_NAME, jobId: job?.id, error: err.message },
+    'PDF report job failed',
+  );
+});
+
+reportPdfWorker.on('error', (err: Error) => {
+  logger.error(
+    { queue: REPORT_PDF_QUEUE_NAME, error: err.message, stack: err.stack },
+    'BullMQ worker error',
+  );
+});
+
+scheduleRetention().catch((err) =>
+  logger.error({ err }, 'Failed to schedule retention job'),
+);
+
 logger.info('Worker initialized. Waiting for jobs...');
 
 async function shutdown() {
   logger.info('Shutting down worker gracefully...');
-  await worker.close();
+  await Promise.all([
+    worker.close(),
+    siteCrawlWorker.close(),
+    siteScanWorker.close(),
+    webhookWorker.close(),
+    retentionWorker.close(),
+    reportPdfWorker.close(),
+  ]);
+  await flowProducer.close();
+  await webhookQueue.close();
+  await scanQueue.close();
+  await retentionQueue.close();
   await pool.end();
   try {
     if (fs.existsSync('/tmp/healthy_worker')) {
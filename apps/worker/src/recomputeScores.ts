@@ -0,0 +1,154 @@
+import pino from 'pino';
+import { Pool } from 'pg';
+import {
+  calculateAccessibilityScore,
+  calculatePageHealth,
+  SCORING_MODEL_VERSION,
+  ViolationCounts,
+} from '@accessibility-scanner-backend/scoring';
+
+/**
+ * Fills the score columns of successful scans that were saved before the
+ * worker stored them, or with an older SCORING_MODEL_VERSION. With `--all`
+ * every successful scan is rescored. Run it after migrating and after any
+ * change to the scoring model:
+ *
+ *   node dist/recomputeScores.js [--all] [--batch-size=500]
+ */
+
+const logger = pino({ level: process.env.LOG_LEVEL || 'info' });
+
+const DEFAULT_BATCH_SIZE = 500;
+
+interface ScanCounts extends ViolationCounts {
+  id: number;
+  needs_review: number;
+}
+
+function parseArgs(argv: string[]): { all: boolean; batchSize: number } {
+  let all = false;
+  let batchSize = DEFAULT_BATCH_SIZE;
+  for (const arg of argv) {
+    if (arg === '--all') {
+      all = true;
+    } else if (arg.startsWith('--batch-size=')) {
+      batchSize = Number(arg.slice('--batch-size='.length));
+      if (!Number.isInteger(batchSize) || batchSize < 1) {
+        throw new Error('--batch-size must be a positive integer');
+      }
+    } else {
+      throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+  return { all, batchSize };
+}
+
+// Counts come from the normalized violation tables, as loaded for reports
+async function loadScanCounts(
+  pool: Pool,
+  afterId: number,
+  all: boolean,
+  limit: number,
+): Promise<ScanCounts[]> {
+  const { rows } = await pool.query(
+    `SELECT sr.id, counts.*
+     FROM scan_results sr
+     CROSS JOIN LATERAL (
+       SELECT
+         count(n.id) FILTER (WHERE v.result_type = 'violations' AND v.impact = 'critical')::integer AS critical,
+         count(n.id) FILTER (WHERE v.result_type = 'violations' AND v.impact = 'serious')::integer AS serious,
+         count(n.id) FILTER (WHERE v.result_type = 'violations' AND v.impact = 'moderate')::integer AS moderate,
+         count(n.id) FILTER (WHERE v.result_type = 'violations' AND v.impact = 'minor')::integer AS minor,
+         count(n.id) FILTER (WHERE v.result_type = 'violations')::integer AS total,
+         count(DISTINCT v.id) FILTER (WHERE v.result_type = 'incomplete')::integer AS needs_review
+       FROM scan_violations v
+       LEFT JOIN scan_violation_nodes n ON n.violation_id = v.id
+       WHERE v.scan_result_id = sr.id AND v.result_type IN ('violations', 'incomplete')
+     ) counts
+     WHERE sr.scan_success
+       AND sr.id > $1
+       AND ($2::boolean OR sr.scoring_model_version IS DISTINCT FROM $3)
+     ORDER BY sr.id
+     LIMIT $4`,
+    [afterId, all, SCORING_MODEL_VERSION, limit],
+  );
+  return rows;
+}
+
+async function saveScores(pool: Pool, scans: ScanCounts[]): Promise<void> {
+  const scored = scans.map((scan) => {
+    const score = calculateAccessibilityScore(scan);
+    return {
+      ...scan,
+      score,
+      healthLevel: calculatePageHealth(scan, score, scan.needs_review).level,
+    };
+  });
+  await pool.query(
+    `UPDATE scan_results sr SET
+       score = u.score,
+       health_level = u.health_level,
+       critical_count = u.critical,
+       serious_count = u.serious,
+       moderate_count = u.moderate,
+       minor_count = u.minor,
+       violation_count = u.total,
+       needs_review_count = u.needs_review,
+       scoring_model_version = $10
+     FROM unnest(
+       $1::integer[], $2::smallint[], $3::varchar[], $4::integer[],
+       $5::integer[], $6::integer[], $7::integer[], $8::integer[], $9::integer[]
+     ) AS u(id, score, health_level, critical, serious, moderate, minor, total, needs_review)
+     WHERE sr.id = u.id`,
+    [
+      scored.map((scan) => scan.id),
+      scored.map((scan) => scan.score),
+      scored.map((scan) => scan.healthLevel),
+      scored.map((scan) => scan.critical),
+      scored.map((scan) => scan.serious),
+      scored.map((scan) => scan.moderate),
+      scored.map((scan) => scan.minor),
+      scored.map((scan) => scan.total),
+      scored.map((scan) => scan.needs_review),
+      SCORING_MODEL_VERSION,
+    ],
+  );
+}
+
+async function main(): Promise<void> {
+  const { all, batchSize } = parseArgs(process.argv.slice(2));
+  if (!process.env.DATABASE_URL) {
+    throw new Error('DATABASE_URL environment variable is not set.');
+  }
+  const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+
+  let recomputed = 0;
+  let afterId = 0;
+  try {
+    for (;;) {
+      const scans = await loadScanCounts(pool, afterId, all, batchSize);
+      if (scans.length === 0) break;
+      await saveScores(pool, scans);
+      recomputed += scans.length;
+      afterId = scans[scans.length - 1].id;
+      logger.info({ recomputed, afterId }, 'Recomputed a batch of scores');
+    }
+  } finally {
+    await pool.end();
+  }
+  logger.info(
+    { recomputed, scoringModelVersion: SCORING_MODEL_VERSION, all },
+    'Score recompute finished',
+  );
+}
+
+main().catch((error) => {
+  logger.error(
+    {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    },
+    'FATAL: Score recompute failed',
+  );
+  process.exit(1);
+});
@@ -0,0 +1,195 @@
+import { Job } from 'bullmq';
+import { Browser } from 'puppeteer';
+import { Pool } from 'pg';
+import { Logger } from 'pino';
+import { BlobStore } from '@accessibility-scanner-backend/blob-store';
+import {
+  ReportPdfJobData,
+  ReportPdfJobResult,
+} from '@accessibility-scanner-backend/report-pdf';
+
+// A4 with these margins leaves a 180mm x 257mm content box
+const PAGE_MARGIN_MM = { top: 20, bottom: 20, left: 15, right: 15 };
+const MM_TO_PX = 96 / 25.4;
+const CONTENT_WIDTH_PX = Math.floor((210 - 30) * MM_TO_PX);
+const CONTENT_HEIGHT_PX = Math.floor((297 - 40) * MM_TO_PX);
+
+const RENDER_TIMEOUT_MS = 120000;
+
+// Every top-level section starts a new page, after the cover and the contents page
+const PRINT_CSS = `
+  body { margin: 0; }
+  .report-cover { height: ${CONTENT_HEIGHT_PX}px; display: flex; flex-direction: column; justify-content: center; break-after: page; }
+  .report-cover h1 { font-size: 32px; }
+  .report-toc { break-after: page; }
+  .report-toc ol { padding-left: 20px; }
+  .report-toc li { display: flex; gap: 8px; margin-bottom: 6px; }
+  .report-toc .toc-title { flex: 1; border-bottom: 1px dotted #999; }
+  .report-toc a { color: #333; text-decoration: none; }
+  .scan-report-pdf > section { break-before: page; }
+  img, .annotated-screenshot, .change-item { break-inside: avoid; }
+`;
+
+/*
+ * Runs in the page: moves the report header onto a cover page and adds a
+ * contents page linking every section. Page numbers are estimated from each
+ * section's height, which holds because every section starts a new page.
+ */
+const PRINT_LAYOUT_SCRIPT = `(({ contentHeight, labels }) => {
+  const report = document.querySelector('.scan-report-pdf');
+  if (!report) return;
+  const header = report.querySelector(':scope > header');
+  const cover = document.createElement('div');
+  cover.className = 'report-cover';
+  if (header) cover.appendChild(header);
+  const generated = document.createElement('p');
+  generated.textContent = labels.generated;
+  cover.appendChild(generated);
+
+  const toc = document.createElement('nav');
+  toc.className = 'report-toc';
+  const tocHeading = document.createElement('h2');
+  tocHeading.textContent = labels.contents;
+  const list = document.createElement('ol');
+  toc.append(tocHeading, list);
+  report.prepend(cover, toc);
+
+  let page = 3;
+  report.querySelectorAll(':scope > section').forEach((section, index) => {
+    const heading = section.querySelector('h2');
+    if (!heading) return;
+    section.id = section.id || 'report-section-' + (index + 1);
+    const item = document.createElement('li');
+    const link = document.createElement('a');
+    link.href = '#' + section.id;
+    link.className = 'toc-title';
+    link.textContent = heading.textContent;
+    const pageNumber = document.createElement('span');
+    pageNumber.textContent = String(page);
+    item.append(link, pageNumber);
+    list.appendChild(item);
+    page += Math.max(1, Math.ceil(section.getBoundingClientRect().height / contentHeight));
+  });
+})`;
+
+function escapeHtml(unsafe: string): string {
+  return unsafe
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#039;');
+}
+
+async function renderPdf(
+  browser: Browser,
+  html: string,
+  data: ReportPdfJobData,
+): Promise<Buffer> {
+  const { labels } = data;
+  const page = await browser.newPage();
+  // The report is self-contained; nothing in it may reach the network
+  await page.setRequestInterception(true);
+  page.on('request', (request) => {
+    if (request.url().startsWith('data:')) {
+      request.continue();
+    } else {
+      request.abort();
+    }
+  });
+  await page.setViewport({
+    width: CONTENT_WIDTH_PX,
+    height: CONTENT_HEIGHT_PX,
+  });
+  await page.emulateMediaType('print');
+  await page.setContent(html, {
+    waitUntil: 'load',
+    timeout: RENDER_TIMEOUT_MS,
+  });
+  await page.addStyleTag({ content: PRINT_CSS });
+  await page.evaluate(
+    `${PRINT_LAYOUT_SCRIPT}(${JSON.stringify({ contentHeight: CONTENT_HEIGHT_PX, labels })})`,
+  );
+
+  // Header and footer templates are unstyled by default and need explicit font sizes
+  const marginText = (text: string, align: 'left' | 'right') =>
+    `<span style="font-size: 8px; color: #555; width: 100%; margin: 0 ${PAGE_MARGIN_MM.left}mm; text-align: ${align}; font-family: Arial, sans-serif;">${text}</span>`;
+  const pdf = await page.pdf({
+    format: 'A4',
+    printBackground: true,
+    displayHeaderFooter: true,
+    headerTemplate: marginText(escapeHtml(data.url), 'left'),
+    footerTemplate: marginText(
+      `${escapeHtml(labels.scanned)} &middot; ${escapeHtml(labels.pageOf)
+        .replace('{page}', '<span class="pageNumber"></span>')
+        .replace('{total}', '<span class="totalPages"></span>')}`,
+      'right',
+    ),
+    margin: {
+      top: `${PAGE_MARGIN_MM.top}mm`,
+      bottom: `${PAGE_MARGIN_MM.bottom}mm`,
+      left: `${PAGE_MARGIN_MM.left}mm`,
+      right: `${PAGE_MARGIN_MM.right}mm`,
+    },
+    timeout: RENDER_TIMEOUT_MS,
+  });
+  return Buffer.from(pdf);
+}
+
+/**
+ * Builds the processor for PDF report jobs. It prints the report HTML the
+ * API uploaded, stores the PDF next to it and records its key for the
+ * scan and variant, where the API finds it for later requests.
+ */
+export function createReportPdfProcessor(
+  pool: Pool,
+  blobStore: BlobStore,
+  launchBrowser: () => Promise<Browser>,
+  logger: Logger,
+) {
+  return async (
+    job: Job<ReportPdfJobData, ReportPdfJobResult>,
+  ): Promise<ReportPdfJobResult> => {
+    const { scanResultId, jobId, htmlKey, variant } = job.data;
+    try {
+      const html = await blobStore.get(htmlKey);
+      if (!html) throw new Error(`Report HTML ${htmlKey} not found`);
+
+      const browser = await launchBrowser();
+      let pdf: Buffer;
+      try {
+        pdf = await renderPdf(browser, html.body.toString('utf8'), job.data);
+      } finally {
+        await browser.close();
+      }
+
+      // The key is derived from the variant, so a new render overwrites the old PDF in place
+      const pdfKey = htmlKey.replace(/\.html$/, '.pdf');
+      await blobStore.put(pdfKey, pdf, 'application/pdf');
+      const { rows } = await pool.query(
+        `INSERT INTO scan_report_pdfs (scan_result_id, variant, pdf_key)
+         SELECT id, $2, $1 FROM scan_results WHERE id = $3
+         ON CONFLICT (scan_result_id, variant)
+         DO UPDATE SET pdf_key = EXCLUDED.pdf_key, rendered_at = current_timestamp
+         RETURNING scan_result_id`,
+        [pdfKey, variant, scanResultId],
+      );
+      if (rows.length === 0) {
+        await blobStore.delete(pdfKey);
+        throw new Error('Scan result was deleted while its report rendered');
+      }
+      logger.info({ jobId, pdfKey, bytes: pdf.length }, 'Rendered PDF report');
+      return { pdfKey };
+    } finally {
+      await blobStore.delete(htmlKey).catch((error) =>
+        logger.warn(
+          {
+            htmlKey,
+            error: error instanceof Error ? error.message : String(error),
+          },
+          'Failed to delete report HTML',
+        ),
+      );
+    }
+  };
+}
@@ -0,0 +1,167 @@
+import { Queue } from 'bullmq';
+import { Pool } from 'pg';
+import { Logger } from 'pino';
+import { BlobStore } from '@accessibility-scanner-backend/blob-store';
+import { RetentionCandidate } from '@accessibility-scanner-backend/retention';
+import { createRetentionProcessor } from './retention';
+
+const policy = {
+  screenshotMaxAgeDays: 30,
+  resultMaxAgeDays: 365,
+  maxScansPerUrl: 20,
+  keepLatestPerUrl: 1,
+};
+
+function setup(batches: RetentionCandidate[][], keys: string[]) {
+  const client = {
+    query: jest.fn().mockResolvedValue({ rows: [] }),
+    release: jest.fn(),
+  };
+  const pool = {
+    query: jest.fn(async (sql: string) => {
+      if (sql.includes('WITH ranked')) return { rows: batches.shift() ?? [] };
+      return { rows: keys.map((key) => ({ key })) };
+    }),
+    connect: jest.fn().mockResolvedValue(client),
+  };
+  const blobStore = { delete: jest.fn().mockResolvedValue(undefined) };
+  const scanQueue = { remove: jest.fn().mockResolvedValue(1) };
+  const logger = { info: jest.fn(), warn: jest.fn() };
+  const process = createRetentionProcessor(
+    pool as unknown as Pool,
+    blobStore as unknown as BlobStore,
+    scanQueue as unknown as Queue,
+    policy,
+    logger as unknown as Logger,
+  );
+  return { client, pool, blobStore, scanQueue, logger, process };
+}
+
+function statements(client: { query: jest.Mock }): [string, unknown[]][] {
+  return client.query.mock.calls.map(([sql, params]) => [
+    String(sql).replace(/\s+/g, ' ').trim(),
+    params,
+  ]);
+}
+
+describe('createRetentionProcessor', () => {
+  it('deletes scans past a limit and strips screenshots from the rest', async () => {
+    const { client, blobStore, scanQueue, process } = setup(
+      [
+        [
+          {
+            id: 1,
+            job_id: 'job-1',
+            delete_reason: 'count',
+            purge_screenshots: true,
+          },
+          {
+            id: 2,
+            job_id: null,
+            delete_reason: 'age',
+            purge_screenshots: false,
+          },
+          {
+            id: 3,
+            job_id: 'job-3',
+            delete_reason: null,
+            purge_screenshots: true,
+          },
+        ],
+      ],
+      ['screenshots/1.png', 'screenshots/3.png'],
+    );
+
+    await expect(process()).resolves.toEqual({
+      scansDeleted: 2,
+      screenshotsPurged: 1,
+      blobsDeleted: 2,
+    });
+
+    const executed = statements(client);
+    expect(executed).toContainEqual([
+      'DELETE FROM scan_credentials WHERE job_id = ANY($1::varchar[])',
+      [['job-1']],
+    ]);
+    expect(executed).toContainEqual([
+      'DELETE FROM scan_results WHERE id = ANY($1::integer[])',
+      [[1, 2]],
+    ]);
+    expect(executed).toContainEqual([
+      expect.stringContaining('UPDATE scan_results SET screenshot_key = NULL'),
+      [[3]],
+    ]);
+    expect(executed).toContainEqual([
+      'DELETE FROM scan_report_pdfs WHERE scan_result_id = ANY($1::integer[])',
+      [[3]],
+    ]);
+    expect(executed.filter(([sql]) => sql === 'COMMIT')).toHaveLength(2);
+    expect(scanQueue.remove).toHaveBeenCalledTimes(1);
+    expect(scanQueue.remove).toHaveBeenCalledWith('job-1');
+    expect(blobStore.delete).toHaveBeenCalledWith('screenshots/1.png');
+    expect(blobStore.delete).toHaveBeenCalledWith('screenshots/3.png');
+    expect(client.release).toHaveBeenCalledTimes(2);
+  });
+
+  it('rolls back and keeps the blobs when a delete fails', async () => {
+    const { client, blobStore, process } = setup(
+      [
+        [
+          {
+            id: 1,
+            job_id: 'job-1',
+            delete_reason: 'age',
+            purge_screenshots: false,
+          },
+        ],
+      ],
+      ['screenshots/1.png'],
+    );
+    client.query.mockImplementation(async (sql: string) => {
+      if (sql.startsWith('DELETE FROM scan_results')) throw new Error('boom');
+      return { rows: [] };
+    });
+
+    await expect(process()).rejects.toThrow('boom');
+    expect(statements(client).map(([sql]) => sql)).toContain('ROLLBACK');
+    expect(blobStore.delete).not.toHaveBeenCalled();
+    expect(client.release).toHaveBeenCalled();
+  });
+
+  it('counts only the blobs that were deleted', async () => {
+    const { blobStore, logger, process } = setup(
+      [
+        [
+          {
+            id: 3,
+            job_id: 'job-3',
+            delete_reason: null,
+            purge_screenshots: true,
+          },
+        ],
+      ],
+      ['screenshots/3.png', 'elements/3-1.png'],
+    );
+    blobStore.delete.mockRejectedValueOnce(new Error('gone'));
+
+    await expect(process()).resolves.toEqual({
+      scansDeleted: 0,
+      screenshotsPurged: 1,
+      blobsDeleted: 1,
+    });
+    expect(logger.warn).toHaveBeenCalledWith(
+      { key: 'screenshots/3.png', error: 'gone' },
+      'Failed to delete blob',
+    );
+  });
+
+  it('does nothing when no scan is past a limit', async () => {
+    const { pool, process } = setup([], []);
+    await expect(process()).resolves.toEqual({
+      scansDeleted: 0,
+      screenshotsPurged: 0,
+      blobsDeleted: 0,
+    });
+    expect(pool.connect).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,183 @@
+import { Queue } from 'bullmq';
+import { Pool } from 'pg';
+import { Logger } from 'pino';
+import { BlobStore } from '@accessibility-scanner-backend/blob-store';
+import {
+  findRetentionCandidates,
+  RetentionCandidate,
+  RetentionPolicy,
+} from '@accessibility-scanner-backend/retention';
+
+export const RETENTION_QUEUE_NAME = 'retention-jobs';
+
+// Scans are deleted or stripped this many at a time
+const RETENTION_BATCH_SIZE = 100;
+
+async function findScreenshotKeys(
+  pool: Pool,
+  scanResultIds: number[],
+): Promise<string[]> {
+  const { rows } = await pool.query(
+    `SELECT screenshot_key AS key FROM scan_results
+     WHERE id = ANY($1::integer[]) AND screenshot_key IS NOT NULL
+     UNION
+     SELECT screenshot_key FROM scan_viewport_results
+     WHERE scan_result_id = ANY($1::integer[]) AND screenshot_key IS NOT NULL
+     UNION
+     SELECT element_screenshot_key FROM scan_violation_nodes
+     WHERE scan_result_id = ANY($1::integer[]) AND element_screenshot_key IS NOT NULL
+     UNION
+     SELECT pdf_key FROM scan_report_pdfs
+     WHERE scan_result_id = ANY($1::integer[])`,
+    [scanResultIds],
+  );
+  return rows.map((row) => row.key);
+}
+
+// Rows are changed before the blobs go, so a failed delete only leaves an orphaned object
+async function deleteBlobs(
+  blobStore: BlobStore,
+  keys: string[],
+  logger: Logger,
+): Promise<number> {
+  let deleted = 0;
+  for (const key of keys) {
+    try {
+      await blobStore.delete(key);
+      deleted += 1;
+    } catch (error) {
+      logger.warn(
+        { key, error: error instanceof Error ? error.message : String(error) },
+        'Failed to delete blob',
+      );
+    }
+  }
+  return deleted;
+}
+
+async function deleteScans(
+  pool: Pool,
+  scans: RetentionCandidate[],
+): Promise<void> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const jobIds = scans.flatMap((scan) => (scan.job_id ? [scan.job_id] : []));
+    await client.query(
+      'DELETE FROM webhook_deliveries WHERE job_id = ANY($1::varchar[])',
+      [jobIds],
+    );
+    await client.query(
+      'DELETE FROM scan_credentials WHERE job_id = ANY($1::varchar[])',
+      [jobIds],
+    );
+    // Violations, nodes, viewport results and cached PDF reports cascade
+    await client.query(
+      'DELETE FROM scan_results WHERE id = ANY($1::integer[])',
+      [scans.map((scan) => scan.id)],
+    );
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+async function clearScreenshots(
+  pool: Pool,
+  scanResultIds: number[],
+): Promise<void> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    await client.query(
+      `UPDATE scan_results
+       SET screenshot_key = NULL, page_screenshot = NULL, screenshots_purged_at = current_timestamp
+       WHERE id = ANY($1::integer[])`,
+      [scanResultIds],
+    );
+    // Cached PDF reports embed the screenshots, so they go as well
+    await client.query(
+      'DELETE FROM scan_report_pdfs WHERE scan_result_id = ANY($1::integer[])',
+      [scanResultIds],
+    );
+    await client.query(
+      `UPDATE scan_viewport_results SET screenshot_key = NULL, page_screenshot = NULL
+       WHERE scan_result_id = ANY($1::integer[])`,
+      [scanResultIds],
+    );
+    // Bounding boxes stay, so reports can still say where each element was
+    await client.query(
+      `UPDATE scan_violation_nodes SET element_screenshot_key = NULL
+       WHERE scan_result_id = ANY($1::integer[]) AND element_screenshot_key IS NOT NULL`,
+      [scanResultIds],
+    );
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Builds the processor for the scheduled retention job. It works through
+ * the candidates in batches until none are left: scans past the count or
+ * result age limit are deleted along with their screenshots, webhook
+ * deliveries, stored credentials and BullMQ job, and scans past the
+ * screenshot age limit lose only their images.
+ */
+export function createRetentionProcessor(
+  pool: Pool,
+  blobStore: BlobStore,
+  scanQueue: Queue,
+  policy: RetentionPolicy,
+  logger: Logger,
+) {
+  return async () => {
+    const summary = {
+      scansDeleted: 0,
+      screenshotsPurged: 0,
+      blobsDeleted: 0,
+    };
+
+    for (;;) {
+      const candidates = await findRetentionCandidates(
+        pool,
+        policy,
+        RETENTION_BATCH_SIZE,
+      );
+      if (candidates.length === 0) break;
+
+      const toDelete = candidates.filter((scan) => scan.delete_reason);
+      const toPurge = candidates.filter((scan) => !scan.delete_reason);
+      const keys = await findScreenshotKeys(
+        pool,
+        candidates.map((scan) => scan.id),
+      );
+
+      if (toDelete.length > 0) {
+        await deleteScans(pool, toDelete);
+        for (const scan of toDelete) {
+          if (scan.job_id) await scanQueue.remove(scan.job_id);
+        }
+      }
+      if (toPurge.length > 0) {
+        await clearScreenshots(
+          pool,
+          toPurge.map((scan) => scan.id),
+        );
+      }
+
+      summary.scansDeleted += toDelete.length;
+      summary.screenshotsPurged += toPurge.length;
+      summary.blobsDeleted += await deleteBlobs(blobStore, keys, logger);
+    }
+
+    logger.info({ policy, ...summary }, 'Retention policy applied');
+    return summary;
+  };
+}
@@ -0,0 +1,102 @@
+import { Browser, Page } from 'puppeteer';
+import { Logger } from 'pino';
+
+// Credentials as validated by the API, before encryption
+export interface ScanAuth {
+  cookies?: {
+    name: string;
+    value: string;
+    domain?: string;
+    path?: string;
+    secure?: boolean;
+    httpOnly?: boolean;
+    sameSite?: 'Strict' | 'Lax' | 'None';
+  }[];
+  headers?: Record<string, string>;
+  basicAuth?: { username: string; password: string };
+  login?: {
+    url: string;
+    fields: { selector: string; value: string }[];
+    submitSelector: string;
+    waitForSelector: string;
+    timeoutMs: number;
+  };
+}
+
+/**
+ * The headers the page's request guard adds to requests for the target
+ * origin, see `guardPageRequests`. Basic auth is sent the same way rather
+ * than through `page.authenticate`, which would answer a 401 challenge from
+ * any origin the page loads.
+ */
+export function buildScanAuthHeaders(
+  auth: ScanAuth,
+): Record<string, string> | null {
+  // Lowercase like the request's own headers, so merging them replaces rather than duplicates
+  const headers = Object.fromEntries(
+    Object.entries(auth.headers ?? {}).map(([name, value]) => [
+      name.toLowerCase(),
+      value,
+    ]),
+  );
+  if (auth.basicAuth) {
+    const { username, password } = auth.basicAuth;
+    headers.authorization = `Basic ${Buffer.from(`${username}:${password}`, 'utf8').toString('base64')}`;
+  }
+  return Object.keys(headers).length > 0 ? headers : null;
+}
+
+// Prepares a page to load `targetUrl` with the scan's cookies
+export async function applyScanAuth(
+  page: Page,
+  auth: ScanAuth,
+  targetUrl: string,
+): Promise<void> {
+  if (auth.cookies) {
+    await page.setCookie(
+      ...auth.cookies.map((cookie) => ({
+        ...cookie,
+        url: cookie.domain ? undefined : targetUrl,
+      })),
+    );
+  }
+}
+
+/**
+ * Replays the login recipe in a page of its own. The session cookies it
+ * produces live in the browser, so pages opened afterwards are logged in.
+ * Errors name the failing step but never include field values.
+ */
+export async function performLogin(
+  browser: Browser,
+  auth: ScanAuth,
+  preparePage: (page: Page, url: string) => Promise<void>,
+  logger: Logger,
+  jobId?: string,
+): Promise<void> {
+  const login = auth.login;
+  if (!login) return;
+
+  const page = await browser.newPage();
+  try {
+    await preparePage(page, login.url);
+    page.setDefaultTimeout(login.timeoutMs);
+
+    logger.info({ jobId, loginUrl: login.url }, 'Replaying login recipe');
+    await page.goto(login.url, { waitUntil: 'networkidle2' });
+
+    for (const field of login.fields) {
+      await page.waitForSelector(field.selector);
+      await page.type(field.selector, field.value);
+    }
+
+    await page.click(login.submitSelector);
+    await page.waitForSelector(login.waitForSelector);
+    logger.info({ jobId }, 'Login recipe completed');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Login recipe failed: ${message}`);
+  } finally {
+    await page.close();
+  }
+}
@@ -0,0 +1,121 @@
+import { Logger } from 'pino';
+import { fetchSitemapUrls } from './siteCrawler';
+
+const logger = {
+  warn: jest.fn(),
+  debug: jest.fn(),
+} as unknown as Logger;
+
+function urlset(urls: string[]): string {
+  return `<?xml version="1.0"?><urlset>${urls
+    .map((url) => `<url><loc>${url}</loc></url>`)
+    .join('')}</urlset>`;
+}
+
+// A body of `chunks` megabytes that records whether the reader cancelled it
+function streamedBody(chunks: number) {
+  const state = { sent: 0, cancelled: false };
+  const stream = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (state.sent === chunks) return controller.close();
+      state.sent += 1;
+      controller.enqueue(new Uint8Array(1024 * 1024).fill(32));
+    },
+    cancel() {
+      state.cancelled = true;
+    },
+  });
+  return { stream, state };
+}
+
+describe('fetchSitemapUrls', () => {
+  const fetchMock = jest.spyOn(global, 'fetch');
+
+  afterEach(() => fetchMock.mockReset());
+  afterAll(() => fetchMock.mockRestore());
+
+  it('reads the page URLs of a sitemap', async () => {
+    fetchMock.mockResolvedValue(
+      new Response(
+        urlset(['https://example.com/', 'https://example.com/a?b=1&amp;c=2']),
+      ),
+    );
+    await expect(
+      fetchSitemapUrls('https://example.com', logger),
+    ).resolves.toEqual([
+      'https://example.com/',
+      'https://example.com/a?b=1&c=2',
+    ]);
+    expect(fetchMock.mock.calls[0][0]).toBe('https://example.com/sitemap.xml');
+  });
+
+  it('follows a sitemap index one level deep', async () => {
+    fetchMock.mockImplementation(async (input) =>
+      String(input).endsWith('/sitemap.xml')
+        ? new Response(
+            '<sitemapindex><sitemap><loc>https://example.com/pages.xml</loc></sitemap></sitemapindex>',
+          )
+        : new Response(urlset(['https://example.com/page'])),
+    );
+    await expect(
+      fetchSitemapUrls('https://example.com', logger),
+    ).resolves.toEqual(['https://example.com/page']);
+  });
+
+  it('skips a sitemap that declares an oversized body', async () => {
+    const { stream, state } = streamedBody(1);
+    fetchMock.mockResolvedValue(
+      new Response(stream, {
+        headers: { 'content-length': String(20 * 1024 * 1024) },
+      }),
+    );
+    await expect(
+      fetchSitemapUrls('https://example.com', logger),
+    ).resolves.toEqual([]);
+    expect(state.cancelled).toBe(true);
+    expect(logger.warn).toHaveBeenCalledWith(
+      expect.objectContaining({ url: 'https://example.com/sitemap.xml' }),
+      'Skipped oversized sitemap',
+    );
+  });
+
+  it('stops reading a body once it passes the size limit', async () => {
+    const { stream, state } = streamedBody(50);
+    fetchMock.mockResolvedValue(new Response(stream));
+    await expect(
+      fetchSitemapUrls('https://example.com', logger),
+    ).resolves.toEqual([]);
+    expect(state.cancelled).toBe(true);
+    expect(state.sent).toBeLessThan(50);
+  });
+
+  it('caps the number of entries', async () => {
+    fetchMock.mockResolvedValue(
+      new Response(
+        urlset(
+          Array.from({ length: 50010 }, (_, i) => `https://example.com/${i}`),
+        ),
+      ),
+    );
+    const urls = await fetchSitemapUrls('https://example.com', logger);
+    expect(urls).toHaveLength(50000);
+    expect(urls[49999]).toBe('https://example.com/49999');
+  });
+
+  it('checks every redirect hop', async () => {
+    fetchMock.mockResolvedValue(
+      new Response(null, {
+        status: 302,
+        headers: { location: 'http://169.254.169.254/sitemap.xml' },
+      }),
+    );
+    const isUrlSafe = jest.fn(async (url: string) => !url.includes('169.254'));
+    await expect(
+      fetchSitemapUrls('https://example.com', logger, isUrlSafe),
+    ).resolves.toEqual([]);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(isUrlSafe).toHaveBeenLastCalledWith(
+      'http://169.254.169.254/sitemap.xml',
+    );
+  });
+});
@@ -0,0 +1,244 @@
+import { Browser, Page } from 'puppeteer';
+import { minimatch } from 'minimatch';
+import { Logger } from 'pino';
+
+export interface SiteCrawlOptions {
+  seedUrl: string;
+  maxDepth: number;
+  maxPages: number;
+  include: string[];
+  exclude: string[];
+}
+
+// Links to these resources are never scanned as pages
+const NON_PAGE_EXTENSIONS =
+  /\.(pdf|zip|gz|jpe?g|png|gif|svg|webp|ico|mp3|mp4|webm|avi|mov|css|js|json|xml|txt|docx?|xlsx?|pptx?)$/i;
+
+const MAX_NESTED_SITEMAPS = 10;
+const MAX_SITEMAP_REDIRECTS = 3;
+// Larger sitemap files are skipped rather than read into memory
+const MAX_SITEMAP_BYTES = 10 * 1024 * 1024;
+// Entries beyond this many, across all sitemap files, are ignored
+const MAX_SITEMAP_LOCATIONS = 50000;
+
+export interface SiteCrawlHooks {
+  // Runs on each new page before it navigates, e.g. to apply credentials
+  preparePage?: (page: Page, url: string) => Promise<void>;
+  // Sitemap requests, including each redirect, are skipped when this resolves false
+  isUrlSafe?: (url: string) => Promise<boolean>;
+}
+
+// Resolves a link against its page and strips the fragment; returns null for non-http(s) links
+function normalizeCrawlUrl(raw: string, base?: string): string | null {
+  try {
+    const url = new URL(raw, base);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    url.hash = '';
+    return url.toString();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * A URL is in scope when it shares the seed's origin, is not an obvious
+ * non-page resource, matches at least one include pattern (if any are set)
+ * and matches no exclude pattern. Patterns are globs matched against the path.
+ */
+function isUrlInScope(
+  rawUrl: string,
+  origin: string,
+  options: SiteCrawlOptions,
+): boolean {
+  const url = new URL(rawUrl);
+  if (url.origin !== origin) return false;
+  if (NON_PAGE_EXTENSIONS.test(url.pathname)) return false;
+  if (
+    options.include.length > 0 &&
+    !options.include.some((pattern) => minimatch(url.pathname, pattern))
+  ) {
+    return false;
+  }
+  return !options.exclude.some((pattern) => minimatch(url.pathname, pattern));
+}
+
+function extractSitemapLocations(xml: string, limit: number): string[] {
+  const locations: string[] = [];
+  for (const match of xml.matchAll(/<loc>\s*([^<\s]+)\s*<\/loc>/gi)) {
+    if (locations.length >= limit) break;
+    locations.push(match[1].replace(/&amp;/g, '&'));
+  }
+  return locations;
+}
+
+// The body as text, or null once it grows past MAX_SITEMAP_BYTES
+async function readSitemapBody(response: Response): Promise<string | null> {
+  const declaredLength = Number(response.headers.get('content-length'));
+  if (declaredLength > MAX_SITEMAP_BYTES) {
+    await response.body?.cancel();
+    return null;
+  }
+  if (!response.body) return '';
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    received += value.byteLength;
+    if (received > MAX_SITEMAP_BYTES) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+/**
+ * Reads /sitemap.xml for the origin. A sitemap index is followed one level
+ * deep. A missing, unreadable or oversized sitemap yields an empty list.
+ */
+export async function fetchSitemapUrls(
+  origin: string,
+  logger: Logger,
+  isUrlSafe?: (url: string) => Promise<boolean>,
+): Promise<string[]> {
+  const fetchXml = async (url: string): Promise<string | null> => {
+    try {
+      // Redirects are followed by hand so every hop can be checked
+      let currentUrl = url;
+      for (let hop = 0; hop <= MAX_SITEMAP_REDIRECTS; hop++) {
+        if (isUrlSafe && !(await isUrlSafe(currentUrl))) {
+          logger.warn({ url: currentUrl }, 'Skipped unsafe sitemap URL');
+          return null;
+        }
+        const response = await fetch(currentUrl, {
+          redirect: 'manual',
+          signal: AbortSignal.timeout(10000),
+        });
+        const location = response.headers.get('location');
+        if (response.status >= 300 && response.status < 400 && location) {
+          currentUrl = new URL(location, currentUrl).toString();
+          continue;
+        }
+        if (!response.ok) return null;
+        const xml = await readSitemapBody(response);
+        if (xml === null) {
+          logger.warn(
+            { url: currentUrl, maxBytes: MAX_SITEMAP_BYTES },
+            'Skipped oversized sitemap',
+          );
+        }
+        return xml;
+      }
+      return null;
+    } catch (error) {
+      logger.debug(
+        { url, error: error instanceof Error ? error.message : String(error) },
+        'Failed to fetch sitemap',
+      );
+      return null;
+    }
+  };
+
+  const rootXml = await fetchXml(`${origin}/sitemap.xml`);
+  if (!rootXml) return [];
+
+  if (!/<sitemapindex[\s>]/i.test(rootXml)) {
+    return extractSitemapLocations(rootXml, MAX_SITEMAP_LOCATIONS);
+  }
+
+  const urls: string[] = [];
+  const nestedSitemaps = extractSitemapLocations(rootXml, MAX_NESTED_SITEMAPS);
+  for (const sitemapUrl of nestedSitemaps) {
+    if (urls.length >= MAX_SITEMAP_LOCATIONS) break;
+    const xml = await fetchXml(sitemapUrl);
+    if (xml) {
+      urls.push(
+        ...extractSitemapLocations(xml, MAX_SITEMAP_LOCATIONS - urls.length),
+      );
+    }
+  }
+  return urls;
+}
+
+/**
+ * Breadth-first discovery of same-origin pages, starting at the seed. Pages
+ * shallower than `maxDepth` are rendered to collect their links, and the
+ * site's sitemap entries are queued at depth 1 after the seed's own links.
+ * The seed is always the first page returned.
+ */
+export async function discoverSitePages(
+  browser: Browser,
+  options: SiteCrawlOptions,
+  logger: Logger,
+  hooks: SiteCrawlHooks = {},
+): Promise<string[]> {
+  const seedUrl = normalizeCrawlUrl(options.seedUrl);
+  if (!seedUrl) {
+    throw new Error(`Invalid seed URL: ${options.seedUrl}`);
+  }
+
+  let origin = new URL(seedUrl).origin;
+  const discovered: string[] = [seedUrl];
+  const seen = new Set<string>([seedUrl]);
+  const queue: { url: string; depth: number }[] = [{ url: seedUrl, depth: 0 }];
+  let sitemapQueued = false;
+
+  const enqueue = (rawUrl: string, base: string | undefined, depth: number) => {
+    if (discovered.length >= options.maxPages) return;
+    const url = normalizeCrawlUrl(rawUrl, base);
+    if (!url || seen.has(url)) return;
+    seen.add(url);
+    if (!isUrlInScope(url, origin, options)) return;
+    discovered.push(url);
+    queue.push({ url, depth });
+  };
+
+  while (queue.length > 0 && discovered.length < options.maxPages) {
+    const { url, depth } = queue.shift()!;
+
+    if (depth < options.maxDepth) {
+      const page = await browser.newPage();
+      try {
+        if (hooks.preparePage) await hooks.preparePage(page, url);
+        await page.goto(url, { waitUntil: 'networkidle2', timeout: 30000 });
+        if (depth === 0) {
+          // Follow the seed's redirects, e.g. example.com -> www.example.com
+          origin = new URL(page.url()).origin;
+        }
+        const links = await page.$$eval('a[href]', (anchors) =>
+          anchors.map((anchor) => anchor.getAttribute('href') || ''),
+        );
+        links.forEach((link) => enqueue(link, page.url(), depth + 1));
+      } catch (error) {
+        logger.warn(
+          {
+            url,
+            error: error instanceof Error ? error.message : String(error),
+          },
+          'Failed to collect links from page during site discovery',
+        );
+      } finally {
+        await page.close();
+      }
+    }
+
+    if (!sitemapQueued) {
+      sitemapQueued = true;
+      const sitemapUrls = await fetchSitemapUrls(
+        origin,
+        logger,
+        hooks.isUrlSafe,
+      );
+      logger.info(
+        { origin, sitemapUrls: sitemapUrls.length },
+        'Sitemap entries found',
+      );
+      sitemapUrls.forEach((sitemapUrl) => enqueue(sitemapUrl, undefined, 1));
+    }
+  }
+
+  return discovered;
+}
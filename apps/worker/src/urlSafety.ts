@@ -0,0 +1,95 @@
+import { HTTPRequest, Page } from 'puppeteer';
+import { Logger } from 'pino';
+import {
+  checkUrlSafety,
+  UrlSafetyPolicy,
+} from '@accessibility-scanner-backend/url-safety';
+
+export interface RequestGuard {
+  // The reason the last top-level navigation was blocked, if it was
+  blockedNavigationReason: () => string | null;
+}
+
+/**
+ * Intercepts every request the page makes, including redirects and
+ * subresources, and aborts those that fail `checkUrlSafety`. Top-level
+ * navigations are also held to the domain allowlist. `extraHeaders` are
+ * added to requests for their origin only; the scan's auth headers are
+ * applied here because a page can only have one interception handler
+ * resolving its requests.
+ */
+export async function guardPageRequests(
+  page: Page,
+  policy: UrlSafetyPolicy,
+  logger: Logger,
+  extraHeaders?: { origin: string; headers: Record<string, string> },
+): Promise<RequestGuard> {
+  // Verdicts are cached per page; a page does not outlive one scan
+  const verdicts = new Map<string, Promise<string | null>>();
+  let blockedNavigationReason: string | null = null;
+
+  const handleRequest = async (request: HTTPRequest) => {
+    if (request.isInterceptResolutionHandled()) return;
+    const requestUrl = request.url();
+
+    // Inline resources never touch the network
+    if (/^(data|blob|about):/i.test(requestUrl)) {
+      await request.continue();
+      return;
+    }
+
+    const isTopLevelNavigation =
+      request.isNavigationRequest() && request.frame() === page.mainFrame();
+    let verdictKey: string;
+    let origin: string | null = null;
+    try {
+      origin = new URL(requestUrl).origin;
+      verdictKey = `${isTopLevelNavigation}:${origin}`;
+    } catch {
+      verdictKey = requestUrl;
+    }
+    let verdict = verdicts.get(verdictKey);
+    if (!verdict) {
+      verdict = checkUrlSafety(requestUrl, policy, {
+        applyAllowlist: isTopLevelNavigation,
+      });
+      verdicts.set(verdictKey, verdict);
+    }
+
+    const reason = await verdict;
+    if (request.isInterceptResolutionHandled()) return;
+    if (reason) {
+      if (isTopLevelNavigation) blockedNavigationReason = reason;
+      logger.warn(
+        { url: requestUrl, reason, navigation: isTopLevelNavigation },
+        'Blocked request by URL safety policy',
+      );
+      await request.abort('blockedbyclient');
+      return;
+    }
+
+    if (extraHeaders && origin === extraHeaders.origin) {
+      await request.continue({
+        headers: { ...request.headers(), ...extraHeaders.headers },
+      });
+    } else {
+      await request.continue();
+    }
+  };
+
+  await page.setRequestInterception(true);
+  page.on('request', (request) => {
+    handleRequest(request).catch((error) =>
+      // Usually the page closed while the request was being checked
+      logger.debug(
+        {
+          url: request.url(),
+          error: error instanceof Error ? error.message : String(error),
+        },
+        'Failed to resolve intercepted request',
+      ),
+    );
+  });
+
+  return { blockedNavigationReason: () => blockedNavigationReason };
+}
@@ -0,0 +1,86 @@
+import * as axe from 'axe-core';
+import { mergeViewportViolations } from './viewports';
+
+function node(target: string, html = `<div id="${target}">`): axe.NodeResult {
+  return { target: [target], html, any: [], all: [], none: [] };
+}
+
+function rule(id: string, nodes: axe.NodeResult[]): axe.Result {
+  return {
+    id,
+    impact: 'serious',
+    description: id,
+    help: id,
+    helpUrl: '',
+    tags: [],
+    nodes,
+  };
+}
+
+describe('mergeViewportViolations', () => {
+  const merged = mergeViewportViolations([
+    {
+      viewport: 'desktop',
+      violations: [rule('color-contrast', [node('#a'), node('#b')])],
+    },
+    {
+      viewport: 'mobile',
+      violations: [
+        rule('color-contrast', [node('#a'), node('#c')]),
+        rule('target-size', [node('#menu')]),
+      ],
+    },
+  ]);
+
+  it('lists each rule once with the viewports it failed at', () => {
+    expect(
+      merged.map(({ id, viewports, viewportSpecific }) => ({
+        id,
+        viewports,
+        viewportSpecific,
+      })),
+    ).toEqual([
+      {
+        id: 'color-contrast',
+        viewports: ['desktop', 'mobile'],
+        viewportSpecific: false,
+      },
+      { id: 'target-size', viewports: ['mobile'], viewportSpecific: true },
+    ]);
+  });
+
+  it('matches nodes by selector and HTML', () => {
+    expect(
+      merged[0].nodes.map(({ target, viewports, viewportSpecific }) => ({
+        target,
+        viewports,
+        viewportSpecific,
+      })),
+    ).toEqual([
+      {
+        target: ['#a'],
+        viewports: ['desktop', 'mobile'],
+        viewportSpecific: false,
+      },
+      { target: ['#b'], viewports: ['desktop'], viewportSpecific: true },
+      { target: ['#c'], viewports: ['mobile'], viewportSpecific: true },
+    ]);
+  });
+
+  it('keeps nodes apart when their HTML differs', () => {
+    const [contrast] = mergeViewportViolations([
+      {
+        viewport: 'desktop',
+        violations: [rule('color-contrast', [node('#a', '<p>Wide</p>')])],
+      },
+      {
+        viewport: 'mobile',
+        violations: [rule('color-contrast', [node('#a', '<p>Narrow</p>')])],
+      },
+    ]);
+    expect(contrast.nodes.map((entry) => entry.viewports)).toEqual([
+      ['desktop'],
+      ['mobile'],
+    ]);
+  });
+});
@@ -0,0 +1,115 @@
+import { KnownDevices, Page, Viewport } from 'puppeteer';
+import * as axe from 'axe-core';
+
+export type ViewportProfileName = 'desktop' | 'tablet' | 'mobile';
+
+interface ViewportProfile {
+  viewport: Viewport;
+  // Desktop keeps Chromium's own user agent
+  userAgent?: string;
+}
+
+export const VIEWPORT_PROFILES: Record<ViewportProfileName, ViewportProfile> = {
+  desktop: {
+    viewport: {
+      width: 1366,
+      height: 768,
+      deviceScaleFactor: 1,
+      isMobile: false,
+      hasTouch: false,
+    },
+  },
+  tablet: KnownDevices['iPad Mini'],
+  mobile: KnownDevices['iPhone 13'],
+};
+
+export async function applyViewportProfile(
+  page: Page,
+  name: ViewportProfileName,
+): Promise<Viewport> {
+  const profile = VIEWPORT_PROFILES[name];
+  if (profile.userAgent) {
+    await page.emulate({
+      userAgent: profile.userAgent,
+      viewport: profile.viewport,
+    });
+  } else {
+    await page.setViewport(profile.viewport);
+  }
+  return profile.viewport;
+}
+
+// Violations and nodes are tagged with the viewports they were found at
+interface ViewportTags {
+  viewports: ViewportProfileName[];
+  viewportSpecific: boolean;
+}
+
+export type ViewportNodeResult = axe.NodeResult & ViewportTags;
+
+export type ViewportViolation<T extends axe.Result = axe.Result> = Omit<
+  T,
+  'nodes'
+> &
+  ViewportTags & { nodes: ViewportNodeResult[] };
+
+/**
+ * Merges the violations found at each viewport into one list. Nodes are
+ * matched by selector and HTML; anything not found at every scanned
+ * viewport is marked `viewportSpecific`.
+ */
+export function mergeViewportViolations<T extends axe.Result>(
+  results: { viewport: ViewportProfileName; violations: T[] }[],
+): ViewportViolation<T>[] {
+  const scannedViewports = results.map((result) => result.viewport);
+  const merged = new Map<string, ViewportViolation<T>>();
+  // Each rule's nodes by selector and HTML, so every node is keyed only once
+  const nodesByRule = new Map<string, Map<string, ViewportNodeResult>>();
+
+  for (const { viewport, violations } of results) {
+    for (const violation of violations) {
+      let entry = merged.get(violation.id);
+      let nodes = nodesByRule.get(violation.id);
+      if (!entry || !nodes) {
+        entry = {
+          ...violation,
+          nodes: [],
+          viewports: [],
+          viewportSpecific: false,
+        };
+        nodes = new Map();
+        merged.set(violation.id, entry);
+        nodesByRule.set(violation.id, nodes);
+      }
+      entry.viewports.push(viewport);
+
+      for (const node of violation.nodes) {
+        const nodeKey = JSON.stringify([node.target, node.html]);
+        const existing = nodes.get(nodeKey);
+        if (existing) {
+          existing.viewports.push(viewport);
+        } else {
+          const added: ViewportNodeResult = {
+            ...node,
+            viewports: [viewport],
+            viewportSpecific: false,
+          };
+          nodes.set(nodeKey, added);
+          entry.nodes.push(added);
+        }
+      }
+    }
+  }
+
+  const everywhere = (viewports: ViewportProfileName[]) =>
+    scannedViewports.every((viewport) => viewports.includes(viewport));
+
+  return Array.from(merged.values()).map((violation) => ({
+    ...violation,
+    viewportSpecific: !everywhere(violation.viewports),
+    nodes: violation.nodes.map((node) => ({
+      ...node,
+      viewportSpecific: !everywhere(node.viewports),
+    })),
+  }));
+}
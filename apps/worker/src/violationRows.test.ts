@@ -0,0 +1,37 @@
+import * as axe from 'axe-core';
+import { PoolClient } from 'pg';
+import { insertViolationRows } from './violationRows';
+
+function rule(id: string): axe.Result {
+  return {
+    id,
+    description: id,
+    help: id,
+    helpUrl: '',
+    tags: [],
+    nodes: [{ target: ['#a'], html: '<a>', any: [], all: [], none: [] }],
+  };
+}
+
+describe('insertViolationRows', () => {
+  it('stores violations and incomplete items with their nodes, passes by rule only', async () => {
+    const query = jest.fn().mockResolvedValue({ rows: [] });
+    await insertViolationRows({ query } as unknown as PoolClient, 7, {
+      violations: [rule('image-alt')],
+      incomplete: [rule('color-contrast')],
+      passes: [rule('document-title')],
+      inapplicable: [],
+    });
+
+    const stored = query.mock.calls.map(([, [scanResultId, rules, type]]) => ({
+      scanResultId,
+      type,
+      nodes: JSON.parse(rules).map((entry: axe.Result) => entry.nodes.length),
+    }));
+    expect(stored).toEqual([
+      { scanResultId: 7, type: 'violations', nodes: [1] },
+      { scanResultId: 7, type: 'incomplete', nodes: [1] },
+      { scanResultId: 7, type: 'passes', nodes: [0] },
+    ]);
+  });
+});
@@ -0,0 +1,102 @@
+import * as axe from 'axe-core';
+import { PoolClient } from 'pg';
+
+export type AxeResultType =
+  | 'violations'
+  | 'incomplete'
+  | 'passes'
+  | 'inapplicable';
+
+export const AXE_RESULT_TYPES: AxeResultType[] = [
+  'violations',
+  'incomplete',
+  'passes',
+  'inapplicable',
+];
+
+// Splits one result type into one scan_violations row per rule and one scan_violation_nodes row per node
+const INSERT_VIOLATION_ROWS = `
+  WITH source AS (
+    SELECT $1::integer AS scan_result_id, $2::jsonb AS violations, $3::varchar AS result_type
+  ),
+  inserted AS (
+    INSERT INTO scan_violations
+      (scan_result_id, result_type, position, rule_id, impact, description, help, help_url, tags, viewports, viewport_specific)
+    SELECT
+      s.scan_result_id,
+      s.result_type,
+      v.ordinality - 1,
+      v.value->>'id',
+      v.value->>'impact',
+      v.value->>'description',
+      v.value->>'help',
+      v.value->>'helpUrl',
+      ARRAY(SELECT jsonb_array_elements_text(COALESCE(v.value->'tags', '[]'::jsonb))),
+      CASE WHEN v.value ? 'viewports'
+        THEN ARRAY(SELECT jsonb_array_elements_text(v.value->'viewports'))
+      END,
+      COALESCE((v.value->>'viewportSpecific')::boolean, false)
+    FROM source s
+    CROSS JOIN LATERAL jsonb_array_elements(s.violations) WITH ORDINALITY AS v(value, ordinality)
+    RETURNING id, scan_result_id, position, rule_id
+  )
+  INSERT INTO scan_violation_nodes
+    (violation_id, scan_result_id, result_type, rule_id, position, impact, target, html, failure_summary, checks, viewports, viewport_specific, bounding_box, element_screenshot_key)
+  SELECT
+    i.id,
+    i.scan_result_id,
+    s.result_type,
+    i.rule_id,
+    n.ordinality - 1,
+    n.value->>'impact',
+    COALESCE(n.value->'target', '[]'::jsonb),
+    n.value->>'html',
+    n.value->>'failureSummary',
+    jsonb_build_object(
+      'any', COALESCE(n.value->'any', '[]'::jsonb),
+      'all', COALESCE(n.value->'all', '[]'::jsonb),
+      'none', COALESCE(n.value->'none', '[]'::jsonb)
+    ),
+    CASE WHEN n.value ? 'viewports'
+      THEN ARRAY(SELECT jsonb_array_elements_text(n.value->'viewports'))
+    END,
+    COALESCE((n.value->>'viewportSpecific')::boolean, false),
+    n.value->'boundingBox',
+    n.value->>'elementScreenshotKey'
+  FROM inserted i
+  CROSS JOIN source s
+  CROSS JOIN LATERAL jsonb_array_elements(
+    COALESCE(s.violations -> i.position -> 'nodes', '[]'::jsonb)
+  ) WITH ORDINALITY AS n(value, ordinality)
+`;
+
+// Stored as scan_violations rows without their nodes, which are many and only say what passed
+const RULE_LEVEL_RESULT_TYPES = new Set<AxeResultType>([
+  'passes',
+  'inapplicable',
+]);
+
+/**
+ * Writes a scan's results of each type to the normalized tables, one
+ * statement per type. Runs on the caller's client so it shares the
+ * transaction that inserted the scan_results row.
+ */
+export async function insertViolationRows(
+  client: PoolClient,
+  scanResultId: number,
+  results: Partial<Record<AxeResultType, axe.Result[]>>,
+): Promise<void> {
+  for (const resultType of AXE_RESULT_TYPES) {
+    const rules = results[resultType] ?? [];
+    if (rules.length === 0) continue;
+    await client.query(INSERT_VIOLATION_ROWS, [
+      scanResultId,
+      JSON.stringify(
+        RULE_LEVEL_RESULT_TYPES.has(resultType)
+          ? rules.map((rule) => ({ ...rule, nodes: [] }))
+          : rules,
+      ),
+      resultType,
+    ]);
+  }
+}
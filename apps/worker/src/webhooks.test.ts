@@ -0,0 +1,34 @@
+import { createHmac } from 'crypto';
+import { signWebhookPayload } from './webhooks';
+
+describe('signWebhookPayload', () => {
+  const body = '{"event":"scan.completed","jobId":"42"}';
+
+  it('signs the timestamp and body with HMAC-SHA256', () => {
+    expect(signWebhookPayload(body, 'whsec_test', 1700000000)).toBe(
+      't=1700000000,v1=cad9d150add2a4bd4ba9ff2a61f565e313b43c070676cb1d76d6e22a7342c9fa',
+    );
+  });
+
+  it('verifies the way a receiver would', () => {
+    const header = signWebhookPayload(body, 'whsec_test', 1700000123);
+    const [, timestamp, signature] = header.match(/^t=(\d+),v1=([0-9a-f]+)$/)!;
+    const expected = createHmac('sha256', 'whsec_test')
+      .update(`${timestamp}.${body}`)
+      .digest('hex');
+    expect(signature).toBe(expected);
+  });
+
+  it('changes with the secret, the timestamp and the body', () => {
+    const signature = signWebhookPayload(body, 'whsec_test', 1700000000);
+    expect(signWebhookPayload(body, 'whsec_other', 1700000000)).not.toBe(
+      signature,
+    );
+    expect(
+      signWebhookPayload(body, 'whsec_test', 1700000001).split(',v1=')[1],
+    ).not.toBe(signature.split(',v1=')[1]);
+    expect(signWebhookPayload(`${body} `, 'whsec_test', 1700000000)).not.toBe(
+      signature,
+    );
+  });
+});
@@ -0,0 +1,200 @@
+import { createHmac, randomUUID } from 'crypto';
+import { Job, Queue } from 'bullmq';
+import { Pool } from 'pg';
+import { Logger } from 'pino';
+import {
+  HealthLevel,
+  ViolationCounts,
+} from '@accessibility-scanner-backend/scoring';
+import {
+  checkUrlSafety,
+  UrlSafetyPolicy,
+} from '@accessibility-scanner-backend/url-safety';
+
+export const WEBHOOK_QUEUE_NAME = 'webhook-deliveries';
+
+const DELIVERY_TIMEOUT_MS = 10000;
+
+export interface WebhookDeliveryJobData {
+  deliveryId: string;
+}
+
+export interface ScanCallbackPayload {
+  event: 'scan.completed' | 'scan.failed';
+  jobId: string;
+  status: 'COMPLETED' | 'FAILED';
+  submittedUrl: string;
+  actualUrl: string | null;
+  pageTitle: string | null;
+  score: number | null;
+  healthLevel: HealthLevel | null;
+  violationCounts: ViolationCounts | null;
+  needsReviewCount: number | null;
+  errorMessage: string | null;
+  finishedAt: string;
+}
+
+/**
+ * Signs `<timestamp>.<body>` with HMAC-SHA256. Receivers recompute the
+ * signature over the raw body and should reject stale timestamps to
+ * prevent replays.
+ */
+export function signWebhookPayload(
+  body: string,
+  secret: string,
+  timestamp: number,
+): string {
+  const signature = createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+// Records the delivery, then queues it; the payload is stored so it can be redelivered as-is
+export async function enqueueWebhookDelivery(
+  pool: Pool,
+  queue: Queue<WebhookDeliveryJobData>,
+  delivery: {
+    jobId: string;
+    apiKeyId?: number;
+    callbackUrl: string;
+    payload: ScanCallbackPayload;
+  },
+): Promise<string> {
+  const deliveryId = randomUUID();
+  await pool.query(
+    `INSERT INTO webhook_deliveries (id, job_id, api_key_id, callback_url, event, payload)
+     VALUES ($1, $2, $3, $4, $5, $6)`,
+    [
+      deliveryId,
+      delivery.jobId,
+      delivery.apiKeyId ?? null,
+      delivery.callbackUrl,
+      delivery.payload.event,
+      JSON.stringify(delivery.payload),
+    ],
+  );
+  await queue.add('deliver-webhook', { deliveryId }, { jobId: deliveryId });
+  return deliveryId;
+}
+
+/**
+ * Builds the processor for the webhook queue. Every HTTP attempt is
+ * recorded in webhook_delivery_attempts. A non-2xx response or network
+ * error throws so BullMQ retries with backoff; the delivery is marked
+ * FAILED once the job's attempts are used up.
+ */
+export function createWebhookDeliveryProcessor(
+  pool: Pool,
+  signingSecret: string | undefined,
+  urlSafetyPolicy: UrlSafetyPolicy,
+  logger: Logger,
+) {
+  return async (job: Job<WebhookDeliveryJobData>) => {
+    const { deliveryId } = job.data;
+    const { rows } = await pool.query(
+      'SELECT callback_url, event, payload FROM webhook_deliveries WHERE id = $1',
+      [deliveryId],
+    );
+    if (rows.length === 0) {
+      logger.warn({ deliveryId }, 'Webhook delivery record not found');
+      return { deliveryId, delivered: false };
+    }
+    const { callback_url: callbackUrl, event, payload } = rows[0];
+
+    const body = JSON.stringify(payload);
+    const startedAt = Date.now();
+    let responseStatus: number | null = null;
+    let errorMessage: string | null = null;
+
+    // Checked on every attempt, since the callback host's DNS can change between them
+    const unsafeReason = await checkUrlSafety(callbackUrl, urlSafetyPolicy, {
+      applyAllowlist: false,
+    });
+    if (!signingSecret) {
+      errorMessage = 'WEBHOOK_SIGNING_SECRET is not set';
+    } else if (unsafeReason) {
+      errorMessage = `Callback URL blocked by URL safety policy: ${unsafeReason}`;
+    } else {
+      try {
+        const response = await fetch(callbackUrl, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'User-Agent': 'AccessibilityScanner-Webhook/1.0',
+            'X-Scanner-Event': event,
+            'X-Scanner-Delivery': deliveryId,
+            'X-Scanner-Signature': signWebhookPayload(
+              body,
+              signingSecret,
+              Math.floor(startedAt / 1000),
+            ),
+          },
+          body,
+          // Redirects are not followed; a 3xx counts as a failed attempt
+          redirect: 'manual',
+          signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+        });
+        responseStatus = response.status;
+        if (!response.ok) {
+          errorMessage = `Callback responded with HTTP ${response.status}`;
+        }
+      } catch (error) {
+        errorMessage = error instanceof Error ? error.message : String(error);
+      }
+    }
+
+    const isFinalAttempt = job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+    const status =
+      errorMessage === null
+        ? 'DELIVERED'
+        : isFinalAttempt
+          ? 'FAILED'
+          : 'RETRYING';
+
+    const { rows: updated } = await pool.query(
+      `UPDATE webhook_deliveries
+       SET status = $2,
+           attempt_count = attempt_count + 1,
+           last_response_status = $3,
+           last_error = $4,
+           delivered_at = CASE WHEN $2 = 'DELIVERED' THEN current_timestamp ELSE delivered_at END,
+           updated_at = current_timestamp
+       WHERE id = $1
+       RETURNING attempt_count`,
+      [deliveryId, status, responseStatus, errorMessage],
+    );
+    await pool.query(
+      `INSERT INTO webhook_delivery_attempts
+         (delivery_id, attempt_number, response_status, error_message, duration_ms)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [
+        deliveryId,
+        updated[0]?.attempt_count ?? 1,
+        responseStatus,
+        errorMessage,
+        Date.now() - startedAt,
+      ],
+    );
+
+    if (errorMessage !== null) {
+      logger.warn(
+        {
+          deliveryId,
+          callbackUrl,
+          responseStatus,
+          error: errorMessage,
+          status,
+        },
+        'Webhook delivery attempt failed',
+      );
+      throw new Error(errorMessage);
+    }
+
+    logger.info(
+      { deliveryId, callbackUrl, responseStatus },
+      'Webhook delivered',
+    );
+    return { deliveryId, delivered: true, responseStatus };
+  };
+}
@@ -0,0 +1,50 @@
+exports.shorthands = undefined;
+
+exports.up = (pgm) => {
+  pgm.createTable('api_keys', {
+    id: 'id',
+    name: { type: 'text', notNull: true },
+    key_prefix: { type: 'varchar(16)', notNull: true }, // Non-secret prefix shown in listings
+    key_hash: { type: 'char(64)', notNull: true, unique: true }, // SHA-256 hex digest of the full key
+    scopes: { type: 'text[]', notNull: true, default: '{}' },
+    monthly_scan_quota: { type: 'integer' }, // NULL means unlimited
+    created_at: {
+      type: 'timestamptz',
+      notNull: true,
+      default: pgm.func('current_timestamp'),
+    },
+    rotated_at: { type: 'timestamptz' },
+    revoked_at: { type: 'timestamptz' },
+    last_used_at: { type: 'timestamptz' },
+  });
+
+  pgm.createTable('api_key_usage', {
+    api_key_id: {
+      type: 'integer',
+      notNull: true,
+      references: 'api_keys',
+      onDelete: 'CASCADE',
+    },
+    period_start: { type: 'date', notNull: true }, // First day of the month
+    scan_count: { type: 'integer', notNull: true, default: 0 },
+  });
+  pgm.addConstraint('api_key_usage', 'api_key_usage_pkey', {
+    primaryKey: ['api_key_id', 'period_start'],
+  });
+
+  pgm.addColumn('scan_results', {
+    api_key_id: {
+      type: 'integer',
+      references: 'api_keys',
+      onDelete: 'SET NULL',
+    },
+  });
+  pgm.createIndex('scan_results', 'api_key_id');
+};
+
+exports.down = (pgm) => {
+  pgm.dropIndex('scan_results', 'api_key_id');
+  pgm.dropColumn('scan_results', 'api_key_id');
+  pgm.dropTable('api_key_usage');
+  pgm.dropTable('api_keys');
+};
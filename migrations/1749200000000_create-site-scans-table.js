@@ -0,0 +1,41 @@
+exports.shorthands = undefined;
+
+exports.up = (pgm) => {
+  pgm.createTable('site_scans', {
+    id: { type: 'varchar(255)', primaryKey: true }, // Site scan ID, also the parent BullMQ job ID
+    seed_url: { type: 'text', notNull: true },
+    max_depth: { type: 'integer', notNull: true },
+    max_pages: { type: 'integer', notNull: true },
+    include_patterns: { type: 'text[]', notNull: true, default: '{}' },
+    exclude_patterns: { type: 'text[]', notNull: true, default: '{}' },
+    status: { type: 'varchar(32)', notNull: true, default: 'QUEUED' }, // QUEUED, DISCOVERING, SCANNING, COMPLETED, FAILED
+    page_count: { type: 'integer' }, // Pages discovered and enqueued
+    api_key_id: {
+      type: 'integer',
+      references: 'api_keys',
+      onDelete: 'SET NULL',
+    },
+    error_message: { type: 'text' },
+    created_at: {
+      type: 'timestamptz',
+      notNull: true,
+      default: pgm.func('current_timestamp'),
+    },
+    completed_at: { type: 'timestamptz' },
+  });
+
+  pgm.addColumn('scan_results', {
+    site_scan_id: {
+      type: 'varchar(255)',
+      references: 'site_scans',
+      onDelete: 'SET NULL',
+    },
+  });
+  pgm.createIndex('scan_results', 'site_scan_id');
+};
+
+exports.down = (pgm) => {
+  pgm.dropIndex('scan_results', 'site_scan_id');
+  pgm.dropColumn('scan_results', 'site_scan_id');
+  pgm.dropTable('site_scans');
+};
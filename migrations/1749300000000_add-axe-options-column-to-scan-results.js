@@ -0,0 +1,11 @@
+exports.shorthands = undefined;
+
+exports.up = (pgm) => {
+  pgm.addColumn('scan_results', {
+    axe_options: { type: 'jsonb' }, // Context, run options and axe-core version actually used for the scan
+  });
+};
+
+exports.down = (pgm) => {
+  pgm.dropColumn('scan_results', 'axe_options');
+};
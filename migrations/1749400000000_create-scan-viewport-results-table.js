@@ -0,0 +1,28 @@
+exports.shorthands = undefined;
+
+exports.up = (pgm) => {
+  pgm.createTable('scan_viewport_results', {
+    id: 'id',
+    scan_result_id: {
+      type: 'integer',
+      notNull: true,
+      references: 'scan_results',
+      onDelete: 'CASCADE',
+    },
+    viewport: { type: 'varchar(32)', notNull: true }, // Profile name: desktop, tablet or mobile
+    viewport_width: { type: 'integer', notNull: true },
+    viewport_height: { type: 'integer', notNull: true },
+    is_mobile: { type: 'boolean', notNull: true, default: false },
+    violations: { type: 'jsonb' }, // Violations found at this viewport only
+    page_screenshot: { type: 'text' }, // Base64 encoded screenshot at this viewport
+  });
+  pgm.addConstraint(
+    'scan_viewport_results',
+    'scan_viewport_results_scan_viewport_unique',
+    { unique: ['scan_result_id', 'viewport'] },
+  );
+};
+
+exports.down = (pgm) => {
+  pgm.dropTable('scan_viewport_results');
+};
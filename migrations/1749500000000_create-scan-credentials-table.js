@@ -0,0 +1,29 @@
+exports.shorthands = undefined;
+
+exports.up = (pgm) => {
+  pgm.createTable('scan_credentials', {
+    id: 'id',
+    job_id: { type: 'varchar(255)' }, // Set for single-page scans
+    site_scan_id: {
+      type: 'varchar(255)',
+      references: 'site_scans',
+      onDelete: 'CASCADE',
+    }, // Set for site scans; every page of the site uses these credentials
+    encrypted_auth: { type: 'text', notNull: true }, // AES-256-GCM envelope, never plaintext
+    auth_methods: { type: 'text[]', notNull: true }, // e.g. {cookies,login}
+    created_at: {
+      type: 'timestamptz',
+      notNull: true,
+      default: pgm.func('current_timestamp'),
+    },
+  });
+  pgm.addConstraint('scan_credentials', 'scan_credentials_owner_check', {
+    check: 'job_id IS NOT NULL OR site_scan_id IS NOT NULL',
+  });
+  pgm.createIndex('scan_credentials', 'job_id');
+  pgm.createIndex('scan_credentials', 'site_scan_id');
+};
+
+exports.down = (pgm) => {
+  pgm.dropTable('scan_credentials');
+};
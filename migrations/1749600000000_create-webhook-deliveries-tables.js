@@ -0,0 +1,57 @@
+exports.shorthands = undefined;
+
+exports.up = (pgm) => {
+  pgm.createTable('webhook_deliveries', {
+    id: { type: 'varchar(255)', primaryKey: true }, // Delivery ID, also the first BullMQ job ID
+    job_id: { type: 'varchar(255)', notNull: true }, // The scan job the callback reports on
+    api_key_id: {
+      type: 'integer',
+      references: 'api_keys',
+      onDelete: 'SET NULL',
+    },
+    callback_url: { type: 'text', notNull: true },
+    event: { type: 'varchar(64)', notNull: true }, // scan.completed or scan.failed
+    payload: { type: 'jsonb', notNull: true }, // Sent unchanged on every attempt
+    status: { type: 'varchar(32)', notNull: true, default: 'PENDING' }, // PENDING, RETRYING, DELIVERED, FAILED
+    attempt_count: { type: 'integer', notNull: true, default: 0 },
+    last_response_status: { type: 'integer' },
+    last_error: { type: 'text' },
+    created_at: {
+      type: 'timestamptz',
+      notNull: true,
+      default: pgm.func('current_timestamp'),
+    },
+    updated_at: {
+      type: 'timestamptz',
+      notNull: true,
+      default: pgm.func('current_timestamp'),
+    },
+    delivered_at: { type: 'timestamptz' },
+  });
+  pgm.createIndex('webhook_deliveries', 'job_id');
+
+  pgm.createTable('webhook_delivery_attempts', {
+    id: 'id',
+    delivery_id: {
+      type: 'varchar(255)',
+      notNull: true,
+      references: 'webhook_deliveries',
+      onDelete: 'CASCADE',
+    },
+    attempt_number: { type: 'integer', notNull: true }, // Counts across redeliveries
+    response_status: { type: 'integer' }, // Null when no response was received
+    error_message: { type: 'text' },
+    duration_ms: { type: 'integer', notNull: true },
+    attempted_at: {
+      type: 'timestamptz',
+      notNull: true,
+      default: pgm.func('current_timestamp'),
+    },
+  });
+  pgm.createIndex('webhook_delivery_attempts', 'delivery_id');
+};
+
+exports.down = (pgm) => {
+  pgm.dropTable('webhook_delivery_attempts');
+  pgm.dropTable('webhook_deliveries');
+};
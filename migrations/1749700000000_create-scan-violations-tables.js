@@ -0,0 +1,65 @@
+exports.shorthands = undefined;
+
+// scan_results stays the scan table; its violations are split out into one row per rule and one per failing node
+exports.up = (pgm) => {
+  pgm.createTable('scan_violations', {
+    id: 'id',
+    scan_result_id: {
+      type: 'integer',
+      notNull: true,
+      references: 'scan_results',
+      onDelete: 'CASCADE',
+    },
+    position: { type: 'integer', notNull: true }, // Order in the axe results
+    rule_id: { type: 'varchar(128)', notNull: true }, // axe rule ID, e.g. color-contrast
+    impact: { type: 'varchar(16)' }, // minor, moderate, serious or critical
+    description: { type: 'text' },
+    help: { type: 'text' },
+    help_url: { type: 'text' },
+    tags: { type: 'text[]', notNull: true, default: '{}' },
+    viewports: { type: 'text[]' }, // Viewports the rule failed at; null for single-viewport scans
+    viewport_specific: { type: 'boolean', notNull: true, default: false },
+  });
+  pgm.addConstraint(
+    'scan_violations',
+    'scan_violations_scan_position_unique',
+    { unique: ['scan_result_id', 'position'] },
+  );
+  pgm.createIndex('scan_violations', 'rule_id');
+  pgm.createIndex('scan_violations', 'impact');
+
+  pgm.createTable('scan_violation_nodes', {
+    id: 'id',
+    violation_id: {
+      type: 'integer',
+      notNull: true,
+      references: 'scan_violations',
+      onDelete: 'CASCADE',
+    },
+    // Copied from the parent rows so node-level queries need no joins
+    scan_result_id: {
+      type: 'integer',
+      notNull: true,
+      references: 'scan_results',
+      onDelete: 'CASCADE',
+    },
+    rule_id: { type: 'varchar(128)', notNull: true },
+    position: { type: 'integer', notNull: true }, // Order within the violation
+    impact: { type: 'varchar(16)' },
+    target: { type: 'jsonb', notNull: true }, // axe selector path; nested arrays for iframes and shadow DOM
+    html: { type: 'text' },
+    failure_summary: { type: 'text' },
+    checks: { type: 'jsonb' }, // The node's any, all and none check results
+    viewports: { type: 'text[]' },
+    viewport_specific: { type: 'boolean', notNull: true, default: false },
+  });
+  pgm.createIndex('scan_violation_nodes', 'violation_id');
+  pgm.createIndex('scan_violation_nodes', 'scan_result_id');
+  pgm.createIndex('scan_violation_nodes', ['rule_id', 'impact']);
+  pgm.createIndex('scan_violation_nodes', 'impact');
+};
+
+exports.down = (pgm) => {
+  pgm.dropTable('scan_violation_nodes');
+  pgm.dropTable('scan_violations');
+};
@@ -0,0 +1,112 @@
+exports.shorthands = undefined;
+
+// Copies the violations JSONB of existing scan_results rows into scan_violations and scan_violation_nodes
+exports.up = (pgm) => {
+  pgm.sql(`
+    WITH source AS (
+      SELECT id AS scan_result_id,
+        -- Some early rows hold the array as a JSON-encoded string
+        CASE jsonb_typeof(violations)
+          WHEN 'string' THEN (violations #>> '{}')::jsonb
+          ELSE violations
+        END AS violations
+      FROM scan_results sr
+      WHERE violations IS NOT NULL
+        AND NOT EXISTS (
+          SELECT 1 FROM scan_violations sv WHERE sv.scan_result_id = sr.id
+        )
+    ),
+    arrays AS (
+      SELECT * FROM source WHERE jsonb_typeof(violations) = 'array'
+    ),
+    inserted AS (
+      INSERT INTO scan_violations
+        (scan_result_id, position, rule_id, impact, description, help, help_url, tags, viewports, viewport_specific)
+      SELECT
+        a.scan_result_id,
+        v.ordinality - 1,
+        v.value->>'id',
+        v.value->>'impact',
+        v.value->>'description',
+        v.value->>'help',
+        v.value->>'helpUrl',
+        ARRAY(SELECT jsonb_array_elements_text(COALESCE(v.value->'tags', '[]'::jsonb))),
+        CASE WHEN v.value ? 'viewports'
+          THEN ARRAY(SELECT jsonb_array_elements_text(v.value->'viewports'))
+        END,
+        COALESCE((v.value->>'viewportSpecific')::boolean, false)
+      FROM arrays a
+      CROSS JOIN LATERAL jsonb_array_elements(a.violations) WITH ORDINALITY AS v(value, ordinality)
+      RETURNING id, scan_result_id, position, rule_id
+    )
+    INSERT INTO scan_violation_nodes
+      (violation_id, scan_result_id, rule_id, position, impact, target, html, failure_summary, checks, viewports, viewport_specific)
+    SELECT
+      i.id,
+      i.scan_result_id,
+      i.rule_id,
+      n.ordinality - 1,
+      n.value->>'impact',
+      COALESCE(n.value->'target', '[]'::jsonb),
+      n.value->>'html',
+      n.value->>'failureSummary',
+      jsonb_build_object(
+        'any', COALESCE(n.value->'any', '[]'::jsonb),
+        'all', COALESCE(n.value->'all', '[]'::jsonb),
+        'none', COALESCE(n.value->'none', '[]'::jsonb)
+      ),
+      CASE WHEN n.value ? 'viewports'
+        THEN ARRAY(SELECT jsonb_array_elements_text(n.value->'viewports'))
+      END,
+      COALESCE((n.value->>'viewportSpecific')::boolean, false)
+    FROM inserted i
+    JOIN arrays a ON a.scan_result_id = i.scan_result_id
+    CROSS JOIN LATERAL jsonb_array_elements(
+      COALESCE(a.violations -> i.position -> 'nodes', '[]'::jsonb)
+    ) WITH ORDINALITY AS n(value, ordinality);
+  `);
+};
+
+// Rebuilds the JSONB column for rows written after the switch, which only have normalized rows
+exports.down = (pgm) => {
+  pgm.sql(`
+    UPDATE scan_results sr
+    SET violations = rebuilt.violations
+    FROM (
+      SELECT sv.scan_result_id,
+        jsonb_agg(
+          jsonb_strip_nulls(jsonb_build_object(
+            'id', sv.rule_id,
+            'impact', sv.impact,
+            'description', sv.description,
+            'help', sv.help,
+            'helpUrl', sv.help_url,
+            'tags', to_jsonb(sv.tags),
+            'viewports', to_jsonb(sv.viewports),
+            'viewportSpecific', CASE WHEN sv.viewports IS NOT NULL THEN sv.viewport_specific END,
+            'nodes', COALESCE((
+              SELECT jsonb_agg(
+                jsonb_strip_nulls(jsonb_build_object(
+                  'impact', n.impact,
+                  'target', n.target,
+                  'html', n.html,
+                  'failureSummary', n.failure_summary,
+                  'viewports', to_jsonb(n.viewports),
+                  'viewportSpecific', CASE WHEN n.viewports IS NOT NULL THEN n.viewport_specific END
+                )) || COALESCE(n.checks, '{}'::jsonb)
+                ORDER BY n.position
+              )
+              FROM scan_violation_nodes n WHERE n.violation_id = sv.id
+            ), '[]'::jsonb)
+          ))
+          ORDER BY sv.position
+        ) AS violations
+      FROM scan_violations sv
+      GROUP BY sv.scan_result_id
+    ) rebuilt
+    WHERE sr.id = rebuilt.scan_result_id AND sr.violations IS NULL;
+
+    UPDATE scan_results SET violations = '[]'::jsonb
+    WHERE violations IS NULL AND scan_success;
+  `);
+};
@@ -0,0 +1,13 @@
+exports.shorthands = undefined;
+
+exports.up = (pgm) => {
+  pgm.addColumn('scan_results', {
+    normalized_url: { type: 'text' }, // Groups rescans of the same page, see GET /api/history
+  });
+  pgm.createIndex('scan_results', ['normalized_url', 'scan_timestamp']);
+};
+
+exports.down = (pgm) => {
+  pgm.dropIndex('scan_results', ['normalized_url', 'scan_timestamp']);
+  pgm.dropColumn('scan_results', 'normalized_url');
+};
@@ -0,0 +1,65 @@
+exports.shorthands = undefined;
+
+// Fills scan_results.normalized_url for scans saved before the column existed
+
+const TRACKING_PARAMS = new Set([
+  'gclid',
+  'gclsrc',
+  'dclid',
+  'gbraid',
+  'wbraid',
+  'fbclid',
+  'msclkid',
+  'yclid',
+  'twclid',
+  'igshid',
+  'mc_cid',
+  'mc_eid',
+  '_ga',
+  '_gl',
+  '_hsenc',
+  '_hsmi',
+]);
+
+// Same rules as normalizeScanUrl in packages/scan-url when this was written.
+// Copied rather than imported so the migration does not change if they do.
+function normalizeScanUrl(rawUrl) {
+  let url;
+  try {
+    url = new URL(rawUrl.trim());
+  } catch {
+    return null;
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+
+  const params = Array.from(url.searchParams.entries())
+    .filter(([name]) => {
+      const lower = name.toLowerCase();
+      return !lower.startsWith('utm_') && !TRACKING_PARAMS.has(lower);
+    })
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  const search = new URLSearchParams(params).toString();
+  const pathname = url.pathname.replace(/\/+$/, '');
+  const hostname = url.hostname.replace(/\.$/, '');
+  const port = url.port ? `:${url.port}` : '';
+
+  return `${url.protocol}//${hostname}${port}${pathname}${search ? `?${search}` : ''}`;
+}
+
+exports.up = async (pgm) => {
+  const { rows } = await pgm.db.query(
+    'SELECT id, submitted_url FROM scan_results WHERE normalized_url IS NULL',
+  );
+  for (const row of rows) {
+    const normalizedUrl = normalizeScanUrl(row.submitted_url);
+    if (normalizedUrl) {
+      await pgm.db.query(
+        'UPDATE scan_results SET normalized_url = $2 WHERE id = $1',
+        [row.id, normalizedUrl],
+      );
+    }
+  }
+};
+
+// The column is dropped by the migration that added it
+exports.down = () => {};
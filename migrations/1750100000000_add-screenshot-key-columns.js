@@ -0,0 +1,16 @@
+exports.shorthands = undefined;
+
+exports.up = (pgm) => {
+  // Object keys in the blob store; page_screenshot is only kept for rows not yet moved
+  pgm.addColumn('scan_results', {
+    screenshot_key: { type: 'text' },
+  });
+  pgm.addColumn('scan_viewport_results', {
+    screenshot_key: { type: 'text' },
+  });
+};
+
+exports.down = (pgm) => {
+  pgm.dropColumn('scan_viewport_results', 'screenshot_key');
+  pgm.dropColumn('scan_results', 'screenshot_key');
+};
@@ -0,0 +1,105 @@
+const fs = require('fs/promises');
+const path = require('path');
+
+exports.shorthands = undefined;
+
+// A minimal copy of the apps' blob stores, configured by the same BLOB_STORE variables
+function createBlobStore() {
+  const backend = process.env.BLOB_STORE || 'local';
+  if (backend === 'local') {
+    const rootDir = path.resolve(process.env.BLOB_STORE_PATH || './data/blobs');
+    return {
+      put: async (key, body) => {
+        const filePath = path.join(rootDir, key);
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, body);
+      },
+      get: (key) => fs.readFile(path.join(rootDir, key)),
+    };
+  }
+  if (backend === 's3') {
+    const {
+      GetObjectCommand,
+      PutObjectCommand,
+      S3Client,
+    } = require('@aws-sdk/client-s3');
+    const bucket = process.env.S3_BUCKET;
+    if (!bucket) throw new Error('S3_BUCKET is required when BLOB_STORE=s3');
+    const client = new S3Client({
+      region: process.env.S3_REGION || 'us-east-1',
+      endpoint: process.env.S3_ENDPOINT || undefined,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+    });
+    return {
+      put: (key, body) =>
+        client.send(
+          new PutObjectCommand({
+            Bucket: bucket,
+            Key: key,
+            Body: body,
+            ContentType: 'image/jpeg',
+          }),
+        ),
+      get: async (key) => {
+        const response = await client.send(
+          new GetObjectCommand({ Bucket: bucket, Key: key }),
+        );
+        return Buffer.from(await response.Body.transformToByteArray());
+      },
+    };
+  }
+  throw new Error(`Unknown BLOB_STORE backend: ${backend}`);
+}
+
+// Rows are loaded one at a time so large screenshots are never all in memory
+const TABLES = [
+  {
+    table: 'scan_results',
+    from: 'scan_results t',
+    key: `'screenshots/' || t.job_id || '/page.jpg'`,
+  },
+  {
+    table: 'scan_viewport_results',
+    from: 'scan_viewport_results t JOIN scan_results sr ON sr.id = t.scan_result_id',
+    key: `'screenshots/' || sr.job_id || '/' || t.viewport || '.jpg'`,
+  },
+];
+
+exports.up = async (pgm) => {
+  const store = createBlobStore();
+  for (const { table, from, key: keySql } of TABLES) {
+    const { rows: ids } = await pgm.db.query(
+      `SELECT t.id FROM ${from}
+       WHERE t.page_screenshot IS NOT NULL AND t.screenshot_key IS NULL`,
+    );
+    for (const { id } of ids) {
+      const { rows } = await pgm.db.query(
+        `SELECT t.page_screenshot, ${keySql} AS key FROM ${from} WHERE t.id = $1`,
+        [id],
+      );
+      const [{ page_screenshot: base64, key }] = rows;
+      await store.put(key, Buffer.from(base64, 'base64'));
+      await pgm.db.query(
+        `UPDATE ${table} SET screenshot_key = $2, page_screenshot = NULL WHERE id = $1`,
+        [id, key],
+      );
+    }
+  }
+};
+
+// Copies screenshots back into the rows; the objects are left in the store
+exports.down = async (pgm) => {
+  const store = createBlobStore();
+  for (const { table } of TABLES) {
+    const { rows } = await pgm.db.query(
+      `SELECT id, screenshot_key FROM ${table} WHERE screenshot_key IS NOT NULL`,
+    );
+    for (const { id, screenshot_key: key } of rows) {
+      const body = await store.get(key);
+      await pgm.db.query(
+        `UPDATE ${table} SET page_screenshot = $2, screenshot_key = NULL WHERE id = $1`,
+        [id, body.toString('base64')],
+      );
+    }
+  }
+};
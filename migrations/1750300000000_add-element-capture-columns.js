@@ -0,0 +1,29 @@
+exports.shorthands = undefined;
+
+exports.up = (pgm) => {
+  pgm.addColumns('scan_violation_nodes', {
+    bounding_box: { type: 'jsonb' }, // { x, y, width, height, viewport } in CSS pixels of the full-page screenshot
+    element_screenshot_key: { type: 'text' }, // Blob store key of the cropped element
+  });
+  // CSS pixel size of the full-page screenshots, used to place bounding boxes on them
+  pgm.addColumns('scan_results', {
+    screenshot_width: { type: 'integer' },
+    screenshot_height: { type: 'integer' },
+  });
+  pgm.addColumns('scan_viewport_results', {
+    screenshot_width: { type: 'integer' },
+    screenshot_height: { type: 'integer' },
+  });
+};
+
+exports.down = (pgm) => {
+  pgm.dropColumns('scan_viewport_results', [
+    'screenshot_width',
+    'screenshot_height',
+  ]);
+  pgm.dropColumns('scan_results', ['screenshot_width', 'screenshot_height']);
+  pgm.dropColumns('scan_violation_nodes', [
+    'bounding_box',
+    'element_screenshot_key',
+  ]);
+};
@@ -0,0 +1,34 @@
+exports.shorthands = undefined;
+
+// scan_violations and scan_violation_nodes also hold axe's incomplete, passes and inapplicable results
+exports.up = (pgm) => {
+  pgm.addColumn('scan_violations', {
+    result_type: { type: 'varchar(16)', notNull: true, default: 'violations' }, // violations, incomplete, passes or inapplicable
+  });
+  pgm.addColumn('scan_violation_nodes', {
+    result_type: { type: 'varchar(16)', notNull: true, default: 'violations' },
+  });
+  pgm.dropConstraint('scan_violations', 'scan_violations_scan_position_unique');
+  pgm.addConstraint(
+    'scan_violations',
+    'scan_violations_scan_type_position_unique',
+    { unique: ['scan_result_id', 'result_type', 'position'] },
+  );
+  pgm.createIndex('scan_violation_nodes', ['scan_result_id', 'result_type']);
+};
+
+exports.down = (pgm) => {
+  pgm.sql(`DELETE FROM scan_violations WHERE result_type <> 'violations'`);
+  pgm.dropIndex('scan_violation_nodes', ['scan_result_id', 'result_type']);
+  pgm.dropConstraint(
+    'scan_violations',
+    'scan_violations_scan_type_position_unique',
+  );
+  pgm.addConstraint(
+    'scan_violations',
+    'scan_violations_scan_position_unique',
+    { unique: ['scan_result_id', 'position'] },
+  );
+  pgm.dropColumn('scan_violation_nodes', 'result_type');
+  pgm.dropColumn('scan_violations', 'result_type');
+};
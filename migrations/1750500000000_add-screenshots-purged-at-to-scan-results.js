@@ -0,0 +1,13 @@
+exports.shorthands = undefined;
+
+exports.up = (pgm) => {
+  pgm.addColumn('scan_results', {
+    screenshots_purged_at: { type: 'timestamptz' }, // Set once the retention job has deleted the scan's screenshots
+  });
+  pgm.createIndex('scan_results', 'scan_timestamp');
+};
+
+exports.down = (pgm) => {
+  pgm.dropIndex('scan_results', 'scan_timestamp');
+  pgm.dropColumn('scan_results', 'screenshots_purged_at');
+};
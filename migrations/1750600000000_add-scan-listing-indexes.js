@@ -0,0 +1,22 @@
+exports.shorthands = undefined;
+
+// Supports the filters and keyset pagination of GET /api/scans
+exports.up = (pgm) => {
+  pgm.createIndex('scan_results', ['api_key_id', 'scan_timestamp', 'id']);
+  // Must match the domain expression in apps/api/src/db/scanList.ts
+  pgm.sql(
+    `CREATE INDEX scan_results_domain_index ON scan_results ((substring(normalized_url from '^https?://([^/:?#]+)')), scan_timestamp)`,
+  );
+  pgm.createIndex('scan_violations', ['rule_id', 'scan_result_id'], {
+    name: 'scan_violations_rule_scan_violations_index',
+    where: "result_type = 'violations'",
+  });
+};
+
+exports.down = (pgm) => {
+  pgm.dropIndex('scan_violations', ['rule_id', 'scan_result_id'], {
+    name: 'scan_violations_rule_scan_violations_index',
+  });
+  pgm.sql('DROP INDEX scan_results_domain_index');
+  pgm.dropIndex('scan_results', ['api_key_id', 'scan_timestamp', 'id']);
+};
@@ -0,0 +1,36 @@
+exports.shorthands = undefined;
+
+// Written by the worker from @accessibility-scanner-backend/scoring; older rows stay NULL until `pnpm scores:recompute`
+exports.up = (pgm) => {
+  pgm.addColumn('scan_results', {
+    score: { type: 'smallint' },
+    health_level: { type: 'varchar(32)' },
+    critical_count: { type: 'integer' },
+    serious_count: { type: 'integer' },
+    moderate_count: { type: 'integer' },
+    minor_count: { type: 'integer' },
+    violation_count: { type: 'integer' }, // Failing elements of any impact
+    needs_review_count: { type: 'integer' },
+    scoring_model_version: { type: 'smallint' }, // SCORING_MODEL_VERSION the columns above were computed with
+  });
+  pgm.createIndex('scan_results', ['score', 'id']);
+  pgm.createIndex('scan_results', ['health_level', 'scan_timestamp']);
+  pgm.createIndex('scan_results', 'scoring_model_version');
+};
+
+exports.down = (pgm) => {
+  pgm.dropIndex('scan_results', 'scoring_model_version');
+  pgm.dropIndex('scan_results', ['health_level', 'scan_timestamp']);
+  pgm.dropIndex('scan_results', ['score', 'id']);
+  pgm.dropColumns('scan_results', [
+    'score',
+    'health_level',
+    'critical_count',
+    'serious_count',
+    'moderate_count',
+    'minor_count',
+    'violation_count',
+    'needs_review_count',
+    'scoring_model_version',
+  ]);
+};
@@ -0,0 +1,11 @@
+exports.shorthands = undefined;
+
+exports.up = (pgm) => {
+  pgm.addColumn('scan_results', {
+    report_pdf_key: { type: 'text' }, // Blob store key of the cached PDF report, set by the worker once rendered
+  });
+};
+
+exports.down = (pgm) => {
+  pgm.dropColumn('scan_results', 'report_pdf_key');
+};
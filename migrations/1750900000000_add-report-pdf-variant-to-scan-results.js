@@ -0,0 +1,11 @@
+exports.shorthands = undefined;
+
+exports.up = (pgm) => {
+  pgm.addColumn('scan_results', {
+    report_pdf_variant: { type: 'varchar(100)' }, // Locale and time zone of the cached PDF report, e.g. "de:Europe/Berlin"
+  });
+};
+
+exports.down = (pgm) => {
+  pgm.dropColumn('scan_results', 'report_pdf_variant');
+};
@@ -0,0 +1,48 @@
+exports.shorthands = undefined;
+
+exports.up = (pgm) => {
+  pgm.createTable('scan_report_pdfs', {
+    scan_result_id: {
+      type: 'integer',
+      notNull: true,
+      references: 'scan_results',
+      onDelete: 'CASCADE',
+    },
+    variant: { type: 'varchar(100)', notNull: true }, // Locale and time zone of the PDF, e.g. "de:Europe/Berlin"
+    pdf_key: { type: 'text', notNull: true }, // Blob store key of the PDF, set by the worker once rendered
+    rendered_at: {
+      type: 'timestamptz',
+      notNull: true,
+      default: pgm.func('current_timestamp'),
+    },
+  });
+  pgm.addConstraint('scan_report_pdfs', 'scan_report_pdfs_pkey', {
+    primaryKey: ['scan_result_id', 'variant'],
+  });
+
+  pgm.sql(`
+    INSERT INTO scan_report_pdfs (scan_result_id, variant, pdf_key)
+    SELECT id, report_pdf_variant, report_pdf_key FROM scan_results
+    WHERE report_pdf_key IS NOT NULL AND report_pdf_variant IS NOT NULL
+  `);
+  pgm.dropColumns('scan_results', ['report_pdf_key', 'report_pdf_variant']);
+};
+
+exports.down = (pgm) => {
+  pgm.addColumns('scan_results', {
+    report_pdf_key: { type: 'text' },
+    report_pdf_variant: { type: 'varchar(100)' },
+  });
+  // Only the latest variant of each scan fits the columns
+  pgm.sql(`
+    UPDATE scan_results
+    SET report_pdf_key = latest.pdf_key, report_pdf_variant = latest.variant
+    FROM (
+      SELECT DISTINCT ON (scan_result_id) scan_result_id, variant, pdf_key
+      FROM scan_report_pdfs
+      ORDER BY scan_result_id, rendered_at DESC
+    ) latest
+    WHERE scan_results.id = latest.scan_result_id
+  `);
+  pgm.dropTable('scan_report_pdfs');
+};
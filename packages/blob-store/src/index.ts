@@ -0,0 +1,131 @@
+/**
+ * Storage for screenshots and reports, shared by the API and the worker so
+ * both read and write the same keys in the same place.
+ */
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  NoSuchKey,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+
+export interface StoredBlob {
+  body: Buffer;
+  contentType: string;
+}
+
+// Object keys are paths like `screenshots/<jobId>/desktop.jpg`
+export interface BlobStore {
+  put: (key: string, body: Buffer, contentType: string) => Promise<void>;
+  // Resolves to null when the key does not exist
+  get: (key: string) => Promise<StoredBlob | null>;
+  // Deleting a key that does not exist is not an error
+  delete: (key: string) => Promise<void>;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.pdf': 'application/pdf',
+  '.html': 'text/html',
+};
+
+// Keys come from the database, but are still kept from escaping the root directory
+function resolveKeyPath(rootDir: string, key: string): string {
+  const filePath = path.resolve(rootDir, key);
+  if (!filePath.startsWith(path.resolve(rootDir) + path.sep)) {
+    throw new Error(`Invalid blob key: ${key}`);
+  }
+  return filePath;
+}
+
+export function createLocalBlobStore(rootDir: string): BlobStore {
+  return {
+    put: async (key, body) => {
+      const filePath = resolveKeyPath(rootDir, key);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, body);
+    },
+    get: async (key) => {
+      const filePath = resolveKeyPath(rootDir, key);
+      try {
+        const body = await fs.readFile(filePath);
+        return {
+          body,
+          contentType:
+            CONTENT_TYPES[path.extname(key).toLowerCase()] ??
+            'application/octet-stream',
+        };
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+    delete: async (key) => {
+      await fs.rm(resolveKeyPath(rootDir, key), { force: true });
+    },
+  };
+}
+
+export function createS3BlobStore(client: S3Client, bucket: string): BlobStore {
+  return {
+    put: async (key, body, contentType) => {
+      await client.send(
+        new PutObjectCommand({
+          Bucket: bucket,
+          Key: key,
+          Body: body,
+          ContentType: contentType,
+        }),
+      );
+    },
+    get: async (key) => {
+      try {
+        const response = await client.send(
+          new GetObjectCommand({ Bucket: bucket, Key: key }),
+        );
+        if (!response.Body) return null;
+        return {
+          body: Buffer.from(await response.Body.transformToByteArray()),
+          contentType: response.ContentType ?? 'application/octet-stream',
+        };
+      } catch (error) {
+        if (error instanceof NoSuchKey) return null;
+        throw error;
+      }
+    },
+    delete: async (key) => {
+      await client.send(new DeleteObjectCommand({ Bucket: bucket, Key: key }));
+    },
+  };
+}
+
+/**
+ * Builds the store selected by BLOB_STORE: `local` (default) writes under
+ * BLOB_STORE_PATH, `s3` uses S3_BUCKET and the standard AWS credential
+ * chain. S3_ENDPOINT points it at an S3-compatible service such as MinIO,
+ * which also needs S3_FORCE_PATH_STYLE=true.
+ */
+export function createBlobStoreFromEnv(): BlobStore {
+  const backend = process.env.BLOB_STORE || 'local';
+  if (backend === 'local') {
+    return createLocalBlobStore(
+      path.resolve(process.env.BLOB_STORE_PATH || './data/blobs'),
+    );
+  }
+  if (backend === 's3') {
+    const bucket = process.env.S3_BUCKET;
+    if (!bucket) throw new Error('S3_BUCKET is required when BLOB_STORE=s3');
+    const client = new S3Client({
+      region: process.env.S3_REGION || 'us-east-1',
+      endpoint: process.env.S3_ENDPOINT || undefined,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+    });
+    return createS3BlobStore(client, bucket);
+  }
+  throw new Error(`Unknown BLOB_STORE backend: ${backend}`);
+}
@@ -0,0 +1,31 @@
+/**
+ * The PDF report job contract. The API queues a job for each report it
+ * needs printed and the worker, which has Chromium, renders it.
+ */
+export const REPORT_PDF_QUEUE_NAME = 'report-pdf-jobs';
+
+export interface ReportPdfJobData {
+  scanResultId: number;
+  jobId: string;
+  // The report HTML, uploaded by the API; deleted once the job is done
+  htmlKey: string;
+  // Shown in the header and footer of every page
+  url: string;
+  scanDate: string;
+  // The locale and time zone the report was built for; each is cached separately
+  variant: string;
+  // Printed text in the report's language, dates already filled in
+  labels: ReportPdfLabels;
+}
+
+export interface ReportPdfLabels {
+  contents: string;
+  generated: string;
+  scanned: string;
+  // With {page} and {total} placeholders
+  pageOf: string;
+}
+
+export interface ReportPdfJobResult {
+  pdfKey: string;
+}
@@ -0,0 +1,79 @@
+import { Pool } from 'pg';
+import {
+  findRetentionCandidates,
+  isRetentionEnabled,
+  loadRetentionPolicy,
+} from './index';
+
+const ENV_NAMES = [
+  'RETENTION_SCREENSHOT_DAYS',
+  'RETENTION_RESULT_DAYS',
+  'RETENTION_MAX_SCANS_PER_URL',
+  'RETENTION_KEEP_LATEST_PER_URL',
+];
+
+describe('loadRetentionPolicy', () => {
+  const original = { ...process.env };
+
+  beforeEach(() => ENV_NAMES.forEach((name) => delete process.env[name]));
+  afterEach(() => {
+    process.env = { ...original };
+  });
+
+  it('turns every limit off by default and keeps the latest scan', () => {
+    const policy = loadRetentionPolicy();
+    expect(policy).toEqual({
+      screenshotMaxAgeDays: null,
+      resultMaxAgeDays: null,
+      maxScansPerUrl: null,
+      keepLatestPerUrl: 1,
+    });
+    expect(isRetentionEnabled(policy)).toBe(false);
+  });
+
+  it('reads the limits', () => {
+    process.env.RETENTION_SCREENSHOT_DAYS = '30';
+    process.env.RETENTION_RESULT_DAYS = '365';
+    process.env.RETENTION_MAX_SCANS_PER_URL = '20';
+    process.env.RETENTION_KEEP_LATEST_PER_URL = '0';
+    const policy = loadRetentionPolicy();
+    expect(policy).toEqual({
+      screenshotMaxAgeDays: 30,
+      resultMaxAgeDays: 365,
+      maxScansPerUrl: 20,
+      keepLatestPerUrl: 0,
+    });
+    expect(isRetentionEnabled(policy)).toBe(true);
+  });
+
+  it.each([
+    ['RETENTION_RESULT_DAYS', '0'],
+    ['RETENTION_RESULT_DAYS', '1.5'],
+    ['RETENTION_MAX_SCANS_PER_URL', 'ten'],
+    ['RETENTION_KEEP_LATEST_PER_URL', '-1'],
+  ])('rejects %s=%s', (name, value) => {
+    process.env[name] = value;
+    expect(() => loadRetentionPolicy()).toThrow(name);
+  });
+});
+
+describe('findRetentionCandidates', () => {
+  it('ranks scans per API key and URL and passes the policy in order', async () => {
+    const query = jest.fn().mockResolvedValue({ rows: [] });
+    await findRetentionCandidates(
+      { query } as unknown as Pool,
+      {
+        screenshotMaxAgeDays: 30,
+        resultMaxAgeDays: 365,
+        maxScansPerUrl: 20,
+        keepLatestPerUrl: 2,
+      },
+      100,
+    );
+    const [sql, params] = query.mock.calls[0];
+    expect(sql).toContain(
+      'PARTITION BY api_key_id, COALESCE(normalized_url, submitted_url)',
+    );
+    expect(params).toEqual([2, 20, 365, 30, 100]);
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Retention policy shared by the worker, which applies it on a schedule,
+ * and the API, which previews it. Both pick scans with the same query, so a
+ * preview lists exactly what the next run would touch.
+ */
+import { Pool } from 'pg';
+
+export interface RetentionPolicy {
+  // Screenshots and element crops of older scans are deleted; their results are kept
+  screenshotMaxAgeDays: number | null;
+  // Older scans are deleted with all of their results
+  resultMaxAgeDays: number | null;
+  // Scans beyond this many per URL and API key are deleted, oldest first
+  maxScansPerUrl: number | null;
+  // The newest scans of each URL and API key are never touched by the limits above
+  keepLatestPerUrl: number;
+}
+
+function parseIntegerEnv(name: string, min: number): number | null {
+  const raw = process.env[name];
+  if (!raw) return null;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < min) {
+    throw new Error(`${name} must be an integer of at least ${min}`);
+  }
+  return value;
+}
+
+/**
+ * Reads RETENTION_SCREENSHOT_DAYS, RETENTION_RESULT_DAYS,
+ * RETENTION_MAX_SCANS_PER_URL and RETENTION_KEEP_LATEST_PER_URL
+ * (default 1). Unset limits are off.
+ */
+export function loadRetentionPolicy(): RetentionPolicy {
+  return {
+    screenshotMaxAgeDays: parseIntegerEnv('RETENTION_SCREENSHOT_DAYS', 1),
+    resultMaxAgeDays: parseIntegerEnv('RETENTION_RESULT_DAYS', 1),
+    maxScansPerUrl: parseIntegerEnv('RETENTION_MAX_SCANS_PER_URL', 1),
+    keepLatestPerUrl: parseIntegerEnv('RETENTION_KEEP_LATEST_PER_URL', 0) ?? 1,
+  };
+}
+
+export function isRetentionEnabled(policy: RetentionPolicy): boolean {
+  return (
+    policy.screenshotMaxAgeDays !== null ||
+    policy.resultMaxAgeDays !== null ||
+    policy.maxScansPerUrl !== null
+  );
+}
+
+// Ranks the scans of each URL newest first, separately for every API key
+const RETENTION_CANDIDATES = `
+  WITH ranked AS (
+    SELECT id, job_id, scan_timestamp, screenshots_purged_at,
+      COALESCE(normalized_url, submitted_url) AS url,
+      row_number() OVER (
+        PARTITION BY api_key_id, COALESCE(normalized_url, submitted_url)
+        ORDER BY scan_timestamp DESC NULLS LAST, id DESC
+      ) AS recency
+    FROM scan_results
+  ),
+  candidates AS (
+    SELECT id, job_id, url, scan_timestamp,
+      CASE
+        WHEN $2::integer IS NOT NULL AND recency > $2 THEN 'count'
+        WHEN $3::integer IS NOT NULL AND scan_timestamp < current_timestamp - make_interval(days => $3) THEN 'age'
+      END AS delete_reason,
+      screenshots_purged_at IS NULL
+        AND $4::integer IS NOT NULL
+        AND scan_timestamp < current_timestamp - make_interval(days => $4) AS purge_screenshots
+    FROM ranked
+    WHERE recency > $1
+  )
+`;
+
+function candidateParams(policy: RetentionPolicy): (number | null)[] {
+  return [
+    policy.keepLatestPerUrl,
+    policy.maxScansPerUrl,
+    policy.resultMaxAgeDays,
+    policy.screenshotMaxAgeDays,
+  ];
+}
+
+export interface RetentionCandidate {
+  id: number;
+  job_id: string | null;
+  delete_reason: 'count' | 'age' | null;
+  purge_screenshots: boolean;
+}
+
+// The oldest scans the policy applies to, which a run handles first
+export async function findRetentionCandidates(
+  pool: Pool,
+  policy: RetentionPolicy,
+  limit: number,
+): Promise<RetentionCandidate[]> {
+  const { rows } = await pool.query(
+    `${RETENTION_CANDIDATES}
+     SELECT id, job_id, delete_reason, purge_screenshots FROM candidates
+     WHERE delete_reason IS NOT NULL OR purge_screenshots
+     ORDER BY scan_timestamp
+     LIMIT $5`,
+    [...candidateParams(policy), limit],
+  );
+  return rows;
+}
+
+export interface RetentionPreview {
+  policy: RetentionPolicy;
+  scansToDelete: { total: number; overCount: number; overAge: number };
+  // Scans that keep their results but lose their screenshots
+  scansToPurgeScreenshots: number;
+  // The oldest affected scans, which the next run would handle first
+  sample: {
+    jobId: string | null;
+    url: string;
+    scanTimestamp: Date | null;
+    action: 'delete' | 'purge-screenshots';
+    reason: 'count' | 'age' | 'screenshot-age';
+  }[];
+}
+
+// Reports what applying `policy` now would do, without changing anything
+export async function previewRetention(
+  pool: Pool,
+  policy: RetentionPolicy,
+  sampleSize: number,
+): Promise<RetentionPreview> {
+  const params = candidateParams(policy);
+  const [{ rows: counts }, { rows: sample }] = await Promise.all([
+    pool.query(
+      `${RETENTION_CANDIDATES}
+       SELECT
+         count(*) FILTER (WHERE delete_reason = 'count')::integer AS over_count,
+         count(*) FILTER (WHERE delete_reason = 'age')::integer AS over_age,
+         count(*) FILTER (WHERE delete_reason IS NULL AND purge_screenshots)::integer AS purge_screenshots
+       FROM candidates`,
+      params,
+    ),
+    pool.query(
+      `${RETENTION_CANDIDATES}
+       SELECT job_id, url, scan_timestamp, delete_reason FROM candidates
+       WHERE delete_reason IS NOT NULL OR purge_screenshots
+       ORDER BY scan_timestamp
+       LIMIT $5`,
+      [...params, sampleSize],
+    ),
+  ]);
+  const { over_count: overCount, over_age: overAge } = counts[0];
+  return {
+    policy,
+    scansToDelete: { total: overCount + overAge, overCount, overAge },
+    scansToPurgeScreenshots: counts[0].purge_screenshots,
+    sample: sample.map((row) => ({
+      jobId: row.job_id,
+      url: row.url,
+      scanTimestamp: row.scan_timestamp,
+      action: row.delete_reason ? 'delete' : 'purge-screenshots',
+      reason: row.delete_reason ?? 'screenshot-age',
+    })),
+  };
+}
@@ -0,0 +1,8 @@
+module.exports = {
+  extends: ['../../.eslintrc.js'],
+  parserOptions: {
+    tsconfigRootDir: __dirname,
+    project: ['./tsconfig.json'],
+  },
+  ignorePatterns: ['dist', 'node_modules', '.eslintrc.js'],
+};
@@ -0,0 +1,93 @@
+import { randomBytes } from 'crypto';
+import {
+  decryptScanCredentials,
+  encryptScanCredentials,
+  loadScanCredentialsKey,
+} from './index';
+
+const auth = {
+  headers: { Authorization: 'Bearer top-secret-token' },
+  basicAuth: { username: 'scanner', password: 'correct horse' },
+};
+
+describe('encryptScanCredentials / decryptScanCredentials', () => {
+  const key = randomBytes(32);
+
+  it('round-trips the credentials', () => {
+    const envelope = encryptScanCredentials(auth, key);
+    expect(decryptScanCredentials(envelope, key)).toEqual(auth);
+  });
+
+  it('writes a v1 envelope that does not contain the plaintext', () => {
+    const envelope = encryptScanCredentials(auth, key);
+    expect(envelope.split('.')).toHaveLength(4);
+    expect(envelope.startsWith('v1.')).toBe(true);
+    expect(envelope).not.toContain('top-secret-token');
+  });
+
+  it('uses a fresh IV for every envelope', () => {
+    expect(encryptScanCredentials(auth, key)).not.toEqual(
+      encryptScanCredentials(auth, key),
+    );
+  });
+
+  it('rejects another key', () => {
+    const envelope = encryptScanCredentials(auth, key);
+    expect(() => decryptScanCredentials(envelope, randomBytes(32))).toThrow();
+  });
+
+  it('rejects a tampered ciphertext', () => {
+    const [version, iv, tag, ciphertext] = encryptScanCredentials(
+      auth,
+      key,
+    ).split('.');
+    const bytes = Buffer.from(ciphertext, 'base64url');
+    bytes[0] ^= 1;
+    const tampered = [version, iv, tag, bytes.toString('base64url')].join('.');
+    expect(() => decryptScanCredentials(tampered, key)).toThrow();
+  });
+
+  it('rejects unknown or malformed envelopes', () => {
+    const [, iv, tag, ciphertext] = encryptScanCredentials(auth, key).split(
+      '.',
+    );
+    expect(() =>
+      decryptScanCredentials(['v2', iv, tag, ciphertext].join('.'), key),
+    ).toThrow('Unsupported scan credentials envelope');
+    expect(() => decryptScanCredentials('v1.abc', key)).toThrow(
+      'Unsupported scan credentials envelope',
+    );
+  });
+
+  it('refuses to decrypt without a key', () => {
+    const envelope = encryptScanCredentials(auth, key);
+    expect(() => decryptScanCredentials(envelope, null)).toThrow(
+      'SCAN_CREDENTIALS_KEY is not set',
+    );
+  });
+});
+
+describe('loadScanCredentialsKey', () => {
+  const original = process.env.SCAN_CREDENTIALS_KEY;
+
+  afterEach(() => {
+    if (original === undefined) delete process.env.SCAN_CREDENTIALS_KEY;
+    else process.env.SCAN_CREDENTIALS_KEY = original;
+  });
+
+  it('returns null when the key is unset', () => {
+    delete process.env.SCAN_CREDENTIALS_KEY;
+    expect(loadScanCredentialsKey()).toBeNull();
+  });
+
+  it('decodes a 32-byte base64 key', () => {
+    const key = randomBytes(32);
+    process.env.SCAN_CREDENTIALS_KEY = key.toString('base64');
+    expect(loadScanCredentialsKey()).toEqual(key);
+  });
+
+  it('throws for a key of the wrong length', () => {
+    process.env.SCAN_CREDENTIALS_KEY = randomBytes(16).toString('base64');
+    expect(() => loadScanCredentialsKey()).toThrow('32 bytes');
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * The envelope scan credentials travel and are stored in. The API encrypts
+ * them when a scan is submitted; only the worker decrypts them.
+ */
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+
+const ENVELOPE_VERSION = 'v1';
+
+/**
+ * Reads the AES-256 key for scan credentials from SCAN_CREDENTIALS_KEY
+ * (32 bytes, base64). Returns null when it is unset, which disables
+ * authenticated scanning; a malformed key throws.
+ */
+export function loadScanCredentialsKey(): Buffer | null {
+  const raw = process.env.SCAN_CREDENTIALS_KEY;
+  if (!raw) return null;
+  const key = Buffer.from(raw, 'base64');
+  if (key.length !== 32) {
+    throw new Error('SCAN_CREDENTIALS_KEY must be 32 bytes encoded as base64');
+  }
+  return key;
+}
+
+/**
+ * Encrypts scan credentials with AES-256-GCM. The envelope is
+ * `v1.<iv>.<auth tag>.<ciphertext>` in base64url, and is what travels in
+ * the job payload and is stored in the database.
+ */
+export function encryptScanCredentials<T>(auth: T, key: Buffer): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([
+    cipher.update(JSON.stringify(auth), 'utf8'),
+    cipher.final(),
+  ]);
+  return [
+    ENVELOPE_VERSION,
+    iv.toString('base64url'),
+    cipher.getAuthTag().toString('base64url'),
+    ciphertext.toString('base64url'),
+  ].join('.');
+}
+
+// Opens an envelope from encryptScanCredentials; a tampered one throws
+export function decryptScanCredentials<T>(
+  envelope: string,
+  key: Buffer | null,
+): T {
+  if (!key) {
+    throw new Error(
+      'Job carries scan credentials but SCAN_CREDENTIALS_KEY is not set',
+    );
+  }
+  const [version, iv, authTag, ciphertext] = envelope.split('.');
+  if (version !== ENVELOPE_VERSION || !iv || !authTag || !ciphertext) {
+    throw new Error('Unsupported scan credentials envelope');
+  }
+  const decipher = createDecipheriv(
+    'aes-256-gcm',
+    key,
+    Buffer.from(iv, 'base64url'),
+  );
+  decipher.setAuthTag(Buffer.from(authTag, 'base64url'));
+  const plaintext = Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, 'base64url')),
+    decipher.final(),
+  ]).toString('utf8');
+  return JSON.parse(plaintext) as T;
+}
@@ -0,0 +1,80 @@
+import { normalizeScanUrl } from './index';
+
+describe('normalizeScanUrl', () => {
+  it.each([
+    [
+      'trailing slashes',
+      'https://example.com/docs/',
+      'https://example.com/docs',
+    ],
+    ['a bare origin', 'https://example.com/', 'https://example.com'],
+    [
+      'repeated trailing slashes',
+      'https://example.com/a//',
+      'https://example.com/a',
+    ],
+    [
+      'the default https port',
+      'https://example.com:443/a',
+      'https://example.com/a',
+    ],
+    [
+      'the default http port',
+      'http://example.com:80/a',
+      'http://example.com/a',
+    ],
+    ['fragments', 'https://example.com/a#section', 'https://example.com/a'],
+    [
+      'host and scheme case',
+      'HTTPS://Example.COM/Path',
+      'https://example.com/Path',
+    ],
+    [
+      'a trailing dot in the host',
+      'https://example.com./a',
+      'https://example.com/a',
+    ],
+    [
+      'tracking parameters',
+      'https://example.com/a?utm_source=x&UTM_Medium=y&gclid=1&fbclid=2&id=3',
+      'https://example.com/a?id=3',
+    ],
+    [
+      'surrounding whitespace',
+      '  https://example.com/a  ',
+      'https://example.com/a',
+    ],
+  ])('drops %s', (_, raw, expected) => {
+    expect(normalizeScanUrl(raw)).toBe(expected);
+  });
+
+  it('sorts query parameters by name and keeps repeated values in order', () => {
+    expect(normalizeScanUrl('https://example.com/?b=2&a=1&b=1')).toBe(
+      'https://example.com?a=1&b=2&b=1',
+    );
+    expect(normalizeScanUrl('https://example.com/?a=1&b=2')).toBe(
+      normalizeScanUrl('https://example.com/?b=2&a=1'),
+    );
+  });
+
+  it('keeps what distinguishes pages', () => {
+    expect(normalizeScanUrl('https://example.com:8443/a')).toBe(
+      'https://example.com:8443/a',
+    );
+    expect(normalizeScanUrl('http://example.com/a')).not.toBe(
+      normalizeScanUrl('https://example.com/a'),
+    );
+    expect(normalizeScanUrl('https://example.com/a')).not.toBe(
+      normalizeScanUrl('https://example.com/A'),
+    );
+    expect(normalizeScanUrl('https://www.example.com/')).not.toBe(
+      normalizeScanUrl('https://example.com/'),
+    );
+  });
+
+  it('returns null for anything but http(s) URLs', () => {
+    expect(normalizeScanUrl('not a url')).toBeNull();
+    expect(normalizeScanUrl('ftp://example.com/file')).toBeNull();
+    expect(normalizeScanUrl('javascript:alert(1)')).toBeNull();
+  });
+});
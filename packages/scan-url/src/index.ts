@@ -0,0 +1,52 @@
+// Query parameters added by analytics and ad platforms; they never change the page
+const TRACKING_PARAMS = new Set([
+  'gclid',
+  'gclsrc',
+  'dclid',
+  'gbraid',
+  'wbraid',
+  'fbclid',
+  'msclkid',
+  'yclid',
+  'twclid',
+  'igshid',
+  'mc_cid',
+  'mc_eid',
+  '_ga',
+  '_gl',
+  '_hsenc',
+  '_hsmi',
+]);
+
+function isTrackingParam(name: string): boolean {
+  const lower = name.toLowerCase();
+  return lower.startsWith('utm_') || TRACKING_PARAMS.has(lower);
+}
+
+/**
+ * The key scans of the same page are grouped by. Scheme and host are
+ * lowercased, default ports, fragments, tracking parameters and trailing
+ * slashes are dropped, and the remaining parameters are sorted. Returns
+ * null for strings that are not http(s) URLs. The worker stores the key in
+ * scan_results.normalized_url and the API matches history against it, so
+ * both must use this one function.
+ */
+export function normalizeScanUrl(rawUrl: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(rawUrl.trim());
+  } catch {
+    return null;
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+
+  const params = Array.from(url.searchParams.entries())
+    .filter(([name]) => !isTrackingParam(name))
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  const search = new URLSearchParams(params).toString();
+  const pathname = url.pathname.replace(/\/+$/, '');
+  const hostname = url.hostname.replace(/\.$/, '');
+  const port = url.port ? `:${url.port}` : '';
+
+  return `${url.protocol}//${hostname}${port}${pathname}${search ? `?${search}` : ''}`;
+}
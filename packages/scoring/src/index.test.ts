@@ -0,0 +1,98 @@
+import {
+  calculateAccessibilityScore,
+  countViolationsByImpact,
+  SCORING_MODEL_VERSION,
+  scoreScan,
+  ScorableViolation,
+} from './index';
+
+function violation(impact: string | null, elements: number): ScorableViolation {
+  return { impact, nodes: Array.from({ length: elements }) };
+}
+
+describe('countViolationsByImpact', () => {
+  it('counts failing elements, not rules', () => {
+    expect(
+      countViolationsByImpact([
+        violation('critical', 2),
+        violation('serious', 1),
+        violation('moderate', 3),
+        violation('minor', 4),
+        violation('minor', 1),
+        violation(null, 2),
+        { impact: 'serious' },
+      ]),
+    ).toEqual({ critical: 2, serious: 1, moderate: 3, minor: 5, total: 13 });
+  });
+});
+
+describe('calculateAccessibilityScore', () => {
+  it('deducts per element by impact, unrated ones like minor', () => {
+    expect(
+      calculateAccessibilityScore({
+        critical: 1,
+        serious: 2,
+        moderate: 3,
+        minor: 4,
+        total: 12,
+      }),
+    ).toBe(100 - 10 - 10 - 6 - 4 - 2);
+  });
+
+  it('never goes below 0', () => {
+    expect(
+      calculateAccessibilityScore({
+        critical: 20,
+        serious: 0,
+        moderate: 0,
+        minor: 0,
+        total: 20,
+      }),
+    ).toBe(0);
+  });
+});
+
+describe('scoreScan', () => {
+  it('puts a clean page in good shape', () => {
+    expect(scoreScan([])).toEqual({
+      score: 100,
+      healthLevel: 'Good Shape',
+      violationCounts: {
+        critical: 0,
+        serious: 0,
+        moderate: 0,
+        minor: 0,
+        total: 0,
+      },
+      needsReviewCount: 0,
+      scoringModelVersion: SCORING_MODEL_VERSION,
+    });
+  });
+
+  it('keeps a clean page in manual review while checks are undecided', () => {
+    const result = scoreScan([], 3);
+    expect(result.score).toBe(100);
+    expect(result.healthLevel).toBe('Needs Manual Review');
+    expect(result.needsReviewCount).toBe(3);
+  });
+
+  it.each([
+    ['a critical element', 'Critical Issues', [violation('critical', 1)]],
+    [
+      'a serious element',
+      'Serious Concerns',
+      [violation('serious', 1), violation('minor', 1)],
+    ],
+    ['a moderate element', 'Needs Improvement', [violation('moderate', 1)]],
+    ['a score below 85', 'Needs Improvement', [violation('minor', 16)]],
+    ['a score of 85', 'Good Shape', [violation('minor', 15)]],
+  ])('rates a page with %s as %s', (_, level, violations) => {
+    expect(scoreScan(violations).healthLevel).toBe(level);
+  });
+
+  it('lets violations outrank undecided checks', () => {
+    expect(scoreScan([violation('moderate', 1)], 5).healthLevel).toBe(
+      'Needs Improvement',
+    );
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Accessibility scoring shared by the API and the worker. Bump
+ * SCORING_MODEL_VERSION whenever a weight, threshold or level changes, so
+ * stored scores from the old model can be found and recomputed.
+ */
+export const SCORING_MODEL_VERSION = 1;
+
+// Points deducted per failing element
+const IMPACT_PENALTIES = {
+  critical: 10,
+  serious: 5,
+  moderate: 2,
+  minor: 1,
+} as const;
+
+// Violations without a known impact cost as much as minor ones
+const DEFAULT_PENALTY = 1;
+
+// Below this score a page needs improvement even without moderate violations
+const NEEDS_IMPROVEMENT_BELOW = 85;
+
+export const HEALTH_LEVELS = [
+  'Critical Issues',
+  'Serious Concerns',
+  'Needs Improvement',
+  'Needs Manual Review',
+  'Good Shape',
+] as const;
+
+export type HealthLevel = (typeof HEALTH_LEVELS)[number];
+
+export interface PageHealth {
+  level: HealthLevel;
+  description: string;
+}
+
+// Anything shaped like an axe-core result, as produced by the worker or loaded by the API
+export interface ScorableViolation {
+  impact?: string | null;
+  nodes?: readonly unknown[];
+}
+
+// Failing elements (not rules) per impact level
+export type ViolationCounts = {
+  critical: number;
+  serious: number;
+  moderate: number;
+  minor: number;
+  total: number;
+};
+
+export interface ScanScore {
+  score: number;
+  healthLevel: HealthLevel;
+  violationCounts: ViolationCounts;
+  needsReviewCount: number;
+  scoringModelVersion: number;
+}
+
+export function countViolationsByImpact(
+  violations: readonly ScorableViolation[],
+): ViolationCounts {
+  const counts: ViolationCounts = {
+    critical: 0,
+    serious: 0,
+    moderate: 0,
+    minor: 0,
+    total: 0,
+  };
+  violations.forEach((violation) => {
+    const numFails = violation.nodes?.length || 0;
+    const impact = violation.impact;
+    if (
+      impact === 'critical' ||
+      impact === 'serious' ||
+      impact === 'moderate' ||
+      impact === 'minor'
+    ) {
+      counts[impact] += numFails;
+    }
+    counts.total += numFails;
+  });
+  return counts;
+}
+
+export function calculateAccessibilityScore(counts: ViolationCounts): number {
+  const unrated =
+    counts.total -
+    counts.critical -
+    counts.serious -
+    counts.moderate -
+    counts.minor;
+  const score =
+    100 -
+    counts.critical * IMPACT_PENALTIES.critical -
+    counts.serious * IMPACT_PENALTIES.serious -
+    counts.moderate * IMPACT_PENALTIES.moderate -
+    counts.minor * IMPACT_PENALTIES.minor -
+    unrated * DEFAULT_PENALTY;
+  return Math.max(0, Math.min(100, Math.round(score)));
+}
+
+// A page is only in good shape once nothing is left for manual review
+export function calculatePageHealth(
+  counts: ViolationCounts,
+  score: number,
+  needsReviewCount = 0,
+): PageHealth {
+  if (counts.critical > 0) {
+    return {
+      level: 'Critical Issues',
+      description:
+        'Critical accessibility barriers found that severely impact usability. Urgent attention required.',
+    };
+  }
+  if (counts.serious > 0) {
+    return {
+      level: 'Serious Concerns',
+      description:
+        'Serious accessibility issues identified. These likely create significant barriers for some users.',
+    };
+  }
+  if (score < NEEDS_IMPROVEMENT_BELOW || counts.moderate > 0) {
+    return {
+      level: 'Needs Improvement',
+      description:
+        'Moderate or multiple minor issues found. Site is usable but could be improved for better accessibility.',
+    };
+  }
+  if (needsReviewCount > 0) {
+    return {
+      level: 'Needs Manual Review',
+      description: `No significant issues detected by automated checks, but ${needsReviewCount} ${needsReviewCount === 1 ? 'check still needs' : 'checks still need'} manual review.`,
+    };
+  }
+  return {
+    level: 'Good Shape',
+    description:
+      'Looking good! Only minor or no significant accessibility issues detected by automated checks.',
+  };
+}
+
+// Everything stored with a successful scan, from its violations and the number of undecided checks
+export function scoreScan(
+  violations: readonly ScorableViolation[],
+  needsReviewCount = 0,
+): ScanScore {
+  const violationCounts = countViolationsByImpact(violations);
+  const score = calculateAccessibilityScore(violationCounts);
+  return {
+    score,
+    healthLevel: calculatePageHealth(violationCounts, score, needsReviewCount)
+      .level,
+    violationCounts,
+    needsReviewCount,
+    scoringModelVersion: SCORING_MODEL_VERSION,
+  };
+}
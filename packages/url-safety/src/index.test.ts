@@ -0,0 +1,174 @@
+import { lookup } from 'dns/promises';
+import { checkUrlSafety, loadUrlSafetyPolicy, UrlSafetyPolicy } from './index';
+
+jest.mock('dns/promises', () => ({ lookup: jest.fn() }));
+
+const mockLookup = lookup as unknown as jest.Mock;
+
+const policy: UrlSafetyPolicy = {
+  allowedPorts: [80, 443, 8080, 8443],
+  domainAllowlist: [],
+  domainDenylist: [],
+};
+
+function resolvesTo(...addresses: string[]): void {
+  mockLookup.mockResolvedValue(
+    addresses.map((address) => ({
+      address,
+      family: address.includes(':') ? 6 : 4,
+    })),
+  );
+}
+
+beforeEach(() => {
+  mockLookup.mockReset();
+  resolvesTo('93.184.216.34');
+});
+
+describe('checkUrlSafety', () => {
+  it('allows public http and https URLs', async () => {
+    await expect(
+      checkUrlSafety('https://example.com/page', policy),
+    ).resolves.toBeNull();
+    await expect(
+      checkUrlSafety('http://93.184.216.34:8080/', policy),
+    ).resolves.toBeNull();
+  });
+
+  it('rejects invalid URLs and other schemes', async () => {
+    await expect(checkUrlSafety('not a url', policy)).resolves.toBe(
+      'Invalid URL',
+    );
+    await expect(checkUrlSafety('file:///etc/passwd', policy)).resolves.toBe(
+      'Scheme file: is not allowed',
+    );
+    await expect(
+      checkUrlSafety('ftp://example.com/file', policy),
+    ).resolves.toBe('Scheme ftp: is not allowed');
+  });
+
+  it('rejects ports outside the policy', async () => {
+    await expect(
+      checkUrlSafety('http://example.com:6379/', policy),
+    ).resolves.toBe('Port 6379 is not allowed');
+    await expect(
+      checkUrlSafety('https://example.com:80/', {
+        ...policy,
+        allowedPorts: [443],
+      }),
+    ).resolves.toBe('Port 80 is not allowed');
+  });
+
+  it.each([
+    'http://127.0.0.1/',
+    'http://10.1.2.3/',
+    'http://172.16.0.1/',
+    'http://192.168.1.1/',
+    'http://169.254.169.254/latest/meta-data/',
+    'http://100.64.0.1/',
+    'http://0.0.0.0/',
+    'http://[::1]/',
+    'http://[fd00::1]/',
+    'http://[fe80::1]/',
+  ])('rejects the private or reserved address in %s', async (url) => {
+    await expect(checkUrlSafety(url, policy)).resolves.toMatch(
+      /is private or reserved$/,
+    );
+    expect(mockLookup).not.toHaveBeenCalled();
+  });
+
+  it('rejects alternative spellings of private addresses', async () => {
+    for (const url of [
+      'http://2130706433/',
+      'http://0x7f.1/',
+      'http://[::ffff:127.0.0.1]/',
+      'http://[::ffff:10.0.0.1]/',
+    ]) {
+      await expect(checkUrlSafety(url, policy)).resolves.toMatch(
+        /is private or reserved$/,
+      );
+    }
+  });
+
+  it('rejects internal hostnames without resolving them', async () => {
+    for (const url of [
+      'http://localhost/',
+      'http://localhost./',
+      'http://api.railway.internal/',
+      'http://printer.local/',
+    ]) {
+      await expect(checkUrlSafety(url, policy)).resolves.toMatch(
+        /^Hostname .* is internal$/,
+      );
+    }
+    expect(mockLookup).not.toHaveBeenCalled();
+  });
+
+  it('rejects hostnames with any private address', async () => {
+    resolvesTo('93.184.216.34', '10.0.0.5');
+    await expect(checkUrlSafety('https://example.com/', policy)).resolves.toBe(
+      'Hostname example.com resolves to a private or reserved address (10.0.0.5)',
+    );
+  });
+
+  it('rejects hostnames that do not resolve', async () => {
+    mockLookup.mockRejectedValue(new Error('ENOTFOUND'));
+    await expect(
+      checkUrlSafety('https://missing.example/', policy),
+    ).resolves.toBe('Hostname missing.example could not be resolved');
+  });
+
+  it('applies the denylist to the domain and its subdomains', async () => {
+    const denying = { ...policy, domainDenylist: ['example.org'] };
+    await expect(
+      checkUrlSafety('https://www.example.org/', denying),
+    ).resolves.toBe('Domain www.example.org is denylisted');
+    await expect(checkUrlSafety('https://example.org/', denying)).resolves.toBe(
+      'Domain example.org is denylisted',
+    );
+    await expect(
+      checkUrlSafety('https://notexample.org/', denying),
+    ).resolves.toBeNull();
+  });
+
+  it('applies the allowlist unless told not to', async () => {
+    const allowing = { ...policy, domainAllowlist: ['example.com'] };
+    await expect(
+      checkUrlSafety('https://docs.example.com/', allowing),
+    ).resolves.toBeNull();
+    await expect(
+      checkUrlSafety('https://cdn.example.net/', allowing),
+    ).resolves.toBe('Domain cdn.example.net is not on the allowlist');
+    await expect(
+      checkUrlSafety('https://cdn.example.net/', allowing, {
+        applyAllowlist: false,
+      }),
+    ).resolves.toBeNull();
+  });
+});
+
+describe('loadUrlSafetyPolicy', () => {
+  const original = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...original };
+  });
+
+  it('defaults to the web ports and no domain lists', () => {
+    delete process.env.SCAN_ALLOWED_PORTS;
+    delete process.env.SCAN_DOMAIN_ALLOWLIST;
+    delete process.env.SCAN_DOMAIN_DENYLIST;
+    expect(loadUrlSafetyPolicy()).toEqual(policy);
+  });
+
+  it('parses the comma-separated lists', () => {
+    process.env.SCAN_ALLOWED_PORTS = '443, 8443, nope, 70000';
+    process.env.SCAN_DOMAIN_ALLOWLIST = 'Example.com, *.example.net';
+    process.env.SCAN_DOMAIN_DENYLIST = 'bad.example.com';
+    expect(loadUrlSafetyPolicy()).toEqual({
+      allowedPorts: [443, 8443],
+      domainAllowlist: ['example.com', 'example.net'],
+      domainDenylist: ['bad.example.com'],
+    });
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * URL safety policy shared by the API and the worker, so a URL the API
+ * accepts is judged the same way when the worker fetches it.
+ */
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+
+export interface UrlSafetyPolicy {
+  allowedPorts: number[];
+  // Entries match the domain itself and all of its subdomains
+  domainAllowlist: string[];
+  domainDenylist: string[];
+}
+
+// Private, loopback, link-local (including cloud metadata), CGNAT, multicast and reserved ranges
+const blockedAddresses = new BlockList();
+[
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+].forEach(([network, prefix]) =>
+  blockedAddresses.addSubnet(network as string, prefix as number, 'ipv4'),
+);
+[
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['100::', 64],
+  ['2001:db8::', 32],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+].forEach(([network, prefix]) =>
+  blockedAddresses.addSubnet(network as string, prefix as number, 'ipv6'),
+);
+
+// Names that only resolve inside private networks, e.g. *.railway.internal
+const INTERNAL_HOSTNAME = /(^|\.)(localhost|internal|local|localdomain)$/;
+
+function parseList(raw: string | undefined): string[] {
+  return (raw || '')
+    .split(',')
+    .map((entry) => entry.trim().toLowerCase().replace(/^\*\./, ''))
+    .filter(Boolean);
+}
+
+/**
+ * Reads SCAN_ALLOWED_PORTS (default 80,443,8080,8443), SCAN_DOMAIN_ALLOWLIST
+ * and SCAN_DOMAIN_DENYLIST, all comma-separated.
+ */
+export function loadUrlSafetyPolicy(): UrlSafetyPolicy {
+  const ports = parseList(process.env.SCAN_ALLOWED_PORTS)
+    .map((port) => Number.parseInt(port, 10))
+    .filter((port) => Number.isInteger(port) && port > 0 && port < 65536);
+  return {
+    allowedPorts: ports.length > 0 ? ports : [80, 443, 8080, 8443],
+    domainAllowlist: parseList(process.env.SCAN_DOMAIN_ALLOWLIST),
+    domainDenylist: parseList(process.env.SCAN_DOMAIN_DENYLIST),
+  };
+}
+
+function matchesDomain(hostname: string, domains: string[]): boolean {
+  return domains.some(
+    (domain) => hostname === domain || hostname.endsWith(`.${domain}`),
+  );
+}
+
+function isBlockedAddress(address: string): boolean {
+  // IPv4-mapped IPv6 addresses are checked as the IPv4 address they carry
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) return blockedAddresses.check(mapped[1], 'ipv4');
+  const family = isIP(address);
+  if (family === 0) return true;
+  return blockedAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Returns why a URL may not be fetched, or null when it is allowed. The
+ * hostname is resolved and every address it resolves to must be public.
+ * `applyAllowlist` is false for subresources and callbacks, which may
+ * legitimately live on other domains. The addresses are not pinned: whoever
+ * fetches the URL afterwards resolves it again, so a DNS server that answers
+ * differently the second time ("DNS rebinding") is not caught here.
+ */
+export async function checkUrlSafety(
+  rawUrl: string,
+  policy: UrlSafetyPolicy,
+  options: { applyAllowlist?: boolean } = {},
+): Promise<string | null> {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    return 'Invalid URL';
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return `Scheme ${url.protocol} is not allowed`;
+  }
+  const port = url.port
+    ? Number.parseInt(url.port, 10)
+    : url.protocol === 'https:'
+      ? 443
+      : 80;
+  if (!policy.allowedPorts.includes(port)) {
+    return `Port ${port} is not allowed`;
+  }
+
+  const hostname = url.hostname
+    .toLowerCase()
+    .replace(/^\[|\]$/g, '')
+    .replace(/\.$/, '');
+  if (matchesDomain(hostname, policy.domainDenylist)) {
+    return `Domain ${hostname} is denylisted`;
+  }
+  if (
+    options.applyAllowlist !== false &&
+    policy.domainAllowlist.length > 0 &&
+    !matchesDomain(hostname, policy.domainAllowlist)
+  ) {
+    return `Domain ${hostname} is not on the allowlist`;
+  }
+  if (INTERNAL_HOSTNAME.test(hostname)) {
+    return `Hostname ${hostname} is internal`;
+  }
+
+  let addresses: string[];
+  if (isIP(hostname)) {
+    addresses = [hostname];
+  } else {
+    try {
+      addresses = (await lookup(hostname, { all: true, verbatim: true })).map(
+        (entry) => entry.address,
+      );
+    } catch {
+      return `Hostname ${hostname} could not be resolved`;
+    }
+  }
+  const blocked = addresses.find(isBlockedAddress);
+  if (blocked) {
+    return blocked === hostname
+      ? `Address ${blocked} is private or reserved`
+      : `Hostname ${hostname} resolves to a private or reserved address (${blocked})`;
+  }
+  return null;
+}